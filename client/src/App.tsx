@@ -1,12 +1,14 @@
 import { useState } from 'react';
-import { Activity, FileText, Home, List, Search, ArrowRight } from './components/Icons';
+import { Activity, Calendar, Eye, FileText, Home, List, Search, ArrowRight } from './components/Icons';
 import './App.css';
 import HealthCheck from './components/HealthCheck';
 import CreatePlan from './components/CreatePlan';
 import ListPlans from './components/ListPlans';
 import ViewPlan from './components/ViewPlan';
+import UsageStats from './components/UsageStats';
+import ApiKeySettings from './components/ApiKeySettings';
 
-type ViewType = 'dashboard' | 'health' | 'create-plan' | 'list-plans' | 'view-plan';
+type ViewType = 'dashboard' | 'health' | 'stats' | 'api-key' | 'create-plan' | 'list-plans' | 'view-plan';
 
 function App() {
   const [currentView, setCurrentView] = useState<ViewType>('dashboard');
@@ -26,6 +28,10 @@ function App() {
     switch (currentView) {
       case 'health':
         return <HealthCheck />;
+      case 'stats':
+        return <UsageStats />;
+      case 'api-key':
+        return <ApiKeySettings />;
       case 'create-plan':
         return <CreatePlan />;
       case 'list-plans':
@@ -78,6 +84,22 @@ function App() {
                 <Activity size={14} />
                 <span>Health Check</span>
               </div>
+
+              <div
+                className={`tree-item ${currentView === 'stats' ? 'active' : ''}`}
+                onClick={() => setCurrentView('stats')}
+              >
+                <Calendar size={14} />
+                <span>Usage Stats</span>
+              </div>
+
+              <div
+                className={`tree-item ${currentView === 'api-key' ? 'active' : ''}`}
+                onClick={() => setCurrentView('api-key')}
+              >
+                <Eye size={14} />
+                <span>API Key</span>
+              </div>
             </div>
           )}
         </div>
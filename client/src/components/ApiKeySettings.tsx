@@ -0,0 +1,78 @@
+import { CheckCircle, Eye, XCircle } from './Icons';
+import { useState } from 'react';
+import { getApiKey, setApiKey } from '../services/api';
+
+export default function ApiKeySettings() {
+    const [key, setKey] = useState<string>(getApiKey());
+    const [showKey, setShowKey] = useState<boolean>(false);
+    const [saved, setSaved] = useState<boolean>(false);
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        setApiKey(key.trim());
+        setSaved(true);
+    };
+
+    const handleClear = () => {
+        setApiKey('');
+        setKey('');
+        setSaved(true);
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <Eye size={24} />
+                <h1>API Key</h1>
+            </div>
+
+            <div className="card">
+                <p className="text-sm text-gray-500 mb-4">
+                    Required when the server runs with AUTH_ENABLED=true. The key is kept in this browser and sent
+                    as the X-API-Key header; plans and stats only show what this key created.
+                </p>
+
+                <form onSubmit={handleSave}>
+                    <div className="form-group">
+                        <label htmlFor="apiKey">API key:</label>
+                        <input
+                            id="apiKey"
+                            type={showKey ? 'text' : 'password'}
+                            value={key}
+                            onChange={(e) => {
+                                setKey(e.target.value);
+                                setSaved(false);
+                            }}
+                            placeholder="plk_..."
+                            className="form-control"
+                            autoComplete="off"
+                        />
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <button type="submit" className="btn btn-primary">
+                            <CheckCircle size={16} />
+                            Save
+                        </button>
+                        <button type="button" onClick={() => setShowKey(!showKey)} className="btn btn-secondary">
+                            <Eye size={16} />
+                            {showKey ? 'Hide' : 'Show'}
+                        </button>
+                        <button type="button" onClick={handleClear} className="btn btn-secondary">
+                            <XCircle size={16} />
+                            Clear
+                        </button>
+                    </div>
+                </form>
+
+                {saved && (
+                    <div className="success-state">
+                        <span className="status-badge status-healthy">
+                            {getApiKey() ? 'API key saved' : 'API key cleared'}
+                        </span>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
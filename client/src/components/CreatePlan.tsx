@@ -1,29 +1,116 @@
 import { AlertCircle, CheckCircle, FileText, Loader, Send } from './Icons';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { api, handleApiError } from '../services/api';
-import type { CreatePlanRequest, PlanResponse } from '../services/api';
+import type {
+    CreatePlanRequest,
+    PlanResponse,
+    ProvidersResponse,
+    TemplatesResponse,
+} from '../services/api';
+
+// Comma-separated tags, or undefined when none are given
+const parseTags = (text: string) => {
+    const tags = text
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+    return tags.length > 0 ? tags : undefined;
+};
 
 export default function CreatePlan() {
     const [formData, setFormData] = useState<CreatePlanRequest>({
         taskDescription: '',
+        codebasePath: '',
+        provider: '',
+        model: '',
+        template: '',
     });
+    // Kept as text so the inputs can be cleared; parsed on submit
+    const [temperature, setTemperature] = useState<string>('');
+    const [maxTokens, setMaxTokens] = useState<string>('');
+    const [tags, setTags] = useState<string>('');
+    const [providerOptions, setProviderOptions] = useState<ProvidersResponse | null>(null);
+    const [templateOptions, setTemplateOptions] = useState<TemplatesResponse | null>(null);
 
     const [loading, setLoading] = useState(false);
     const [result, setResult] = useState<PlanResponse | null>(null);
     const [error, setError] = useState<string>('');
+    const [streamedPlan, setStreamedPlan] = useState<string>('');
+    const [retryNotice, setRetryNotice] = useState<string>('');
+
+    useEffect(() => {
+        // The model picker is optional; without it plans use the server defaults
+        api.getProviders()
+            .then((response) => {
+                if (response.success && response.data) {
+                    setProviderOptions(response.data);
+                }
+            })
+            .catch(() => setProviderOptions(null));
+
+        api.getTemplates()
+            .then((response) => {
+                if (response.success && response.data) {
+                    setTemplateOptions(response.data);
+                }
+            })
+            .catch(() => setTemplateOptions(null));
+    }, []);
+
+    const selectedProvider = providerOptions?.providers.find((option) =>
+        formData.provider ? option.provider === formData.provider : option.isDefault
+    );
+    const anyModelAllowed = selectedProvider?.allowedModels.includes('*') ?? false;
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
         setError('');
         setResult(null);
+        setStreamedPlan('');
+        setRetryNotice('');
 
+        let finished = false;
         try {
-            const response = await api.createPlan(formData);
-            if (response.success && response.data) {
-                setResult(response.data);
-            } else {
-                setError(response.error || 'Failed to create plan');
+            await api.createPlanStream(
+                {
+                    taskDescription: formData.taskDescription,
+                    codebasePath: formData.codebasePath?.trim() || undefined,
+                    provider: formData.provider || undefined,
+                    model: formData.model?.trim() || undefined,
+                    temperature: temperature ? Number(temperature) : undefined,
+                    maxTokens: maxTokens ? Number(maxTokens) : undefined,
+                    template: formData.template || undefined,
+                    tags: parseTags(tags),
+                },
+                {
+                    onToken: (content) => setStreamedPlan(prev => prev + content),
+                    onRetry: (info) => {
+                        // Partial output from the failed attempt is discarded
+                        setStreamedPlan('');
+                        setRetryNotice(
+                            info.isFallback
+                                ? `Switching to fallback provider ${info.provider}...`
+                                : `Retrying with ${info.provider} (attempt ${info.attempt})...`
+                        );
+                    },
+                    onRepair: (info) => {
+                        // The plan failed validation and is regenerated
+                        setStreamedPlan('');
+                        setRetryNotice(`Repairing plan (round ${info.round}): ${info.issues.join('; ')}`);
+                    },
+                    onComplete: (plan) => {
+                        finished = true;
+                        setResult(plan);
+                    },
+                    onError: (message) => {
+                        finished = true;
+                        setError(message || 'Failed to create plan');
+                    },
+                }
+            );
+            if (!finished) {
+                setError('Connection closed before the plan was completed');
             }
         } catch (err) {
             setError(handleApiError(err));
@@ -32,9 +119,16 @@ export default function CreatePlan() {
         }
     };
 
-    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const handleInputChange = (
+        e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+    ) => {
         const { name, value } = e.target;
-        setFormData(prev => ({ ...prev, [name]: value }));
+        setFormData(prev => ({
+            ...prev,
+            [name]: value,
+            // Allowed models differ per provider
+            ...(name === 'provider' && { model: '' }),
+        }));
     };
 
     return (
@@ -64,6 +158,141 @@ export default function CreatePlan() {
                             <small>Minimum 10 characters, maximum 2000 characters</small>
                         </div>
 
+                        <div className="form-group">
+                            <label htmlFor="codebasePath">Codebase Path</label>
+                            <input
+                                id="codebasePath"
+                                name="codebasePath"
+                                type="text"
+                                value={formData.codebasePath}
+                                onChange={handleInputChange}
+                                placeholder="e.g. ./my-project"
+                                className="form-control"
+                            />
+                            <small>Optional. Directory on the server to analyze, relative to its analysis root</small>
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="tags">Tags</label>
+                            <input
+                                id="tags"
+                                type="text"
+                                value={tags}
+                                onChange={(e) => setTags(e.target.value)}
+                                placeholder="e.g. auth, backend"
+                                className="form-control"
+                            />
+                            <small>Optional. Comma-separated labels for finding the plan later</small>
+                        </div>
+
+                        {templateOptions && (
+                            <div className="form-group">
+                                <label htmlFor="template">Template</label>
+                                <select
+                                    id="template"
+                                    name="template"
+                                    value={formData.template}
+                                    onChange={handleInputChange}
+                                    className="form-control"
+                                >
+                                    <option value="">Default</option>
+                                    {templateOptions.templates
+                                        .filter((template) => template.name !== templateOptions.defaultTemplate)
+                                        .map((template) => (
+                                            <option key={template.name} value={template.name}>
+                                                {template.name}
+                                                {template.description ? ` - ${template.description}` : ''}
+                                            </option>
+                                        ))}
+                                </select>
+                                <small>Planning style: phases to include and how the plan is checked</small>
+                            </div>
+                        )}
+
+                        {providerOptions && providerOptions.providers.length > 0 && (
+                            <div className="grid grid-cols-2">
+                                <div className="form-group">
+                                    <label htmlFor="provider">Provider</label>
+                                    <select
+                                        id="provider"
+                                        name="provider"
+                                        value={formData.provider}
+                                        onChange={handleInputChange}
+                                        className="form-control"
+                                    >
+                                        <option value="">Default</option>
+                                        {providerOptions.providers.map((option) => (
+                                            <option key={option.provider} value={option.provider}>
+                                                {option.provider}{option.isDefault ? ' (default)' : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div className="form-group">
+                                    <label htmlFor="model">Model</label>
+                                    {anyModelAllowed ? (
+                                        <input
+                                            id="model"
+                                            name="model"
+                                            type="text"
+                                            value={formData.model}
+                                            onChange={handleInputChange}
+                                            placeholder={selectedProvider?.defaultModel}
+                                            className="form-control"
+                                        />
+                                    ) : (
+                                        <select
+                                            id="model"
+                                            name="model"
+                                            value={formData.model}
+                                            onChange={handleInputChange}
+                                            className="form-control"
+                                        >
+                                            <option value="">
+                                                Default ({selectedProvider?.defaultModel})
+                                            </option>
+                                            {selectedProvider?.allowedModels
+                                                .filter((model) => model !== selectedProvider.defaultModel)
+                                                .map((model) => (
+                                                    <option key={model} value={model}>{model}</option>
+                                                ))}
+                                        </select>
+                                    )}
+                                </div>
+
+                                <div className="form-group">
+                                    <label htmlFor="temperature">Temperature</label>
+                                    <input
+                                        id="temperature"
+                                        type="number"
+                                        min={0}
+                                        max={2}
+                                        step={0.1}
+                                        value={temperature}
+                                        onChange={(e) => setTemperature(e.target.value)}
+                                        placeholder="Default"
+                                        className="form-control"
+                                    />
+                                </div>
+
+                                <div className="form-group">
+                                    <label htmlFor="maxTokens">Max Tokens</label>
+                                    <input
+                                        id="maxTokens"
+                                        type="number"
+                                        min={1}
+                                        max={providerOptions.maxTokensLimit}
+                                        step={1}
+                                        value={maxTokens}
+                                        onChange={(e) => setMaxTokens(e.target.value)}
+                                        placeholder="Default"
+                                        className="form-control"
+                                    />
+                                </div>
+                            </div>
+                        )}
+
                         <button
                             type="submit"
                             disabled={loading || !formData.taskDescription}
@@ -87,14 +316,26 @@ export default function CreatePlan() {
                 <div className="card">
                     <h2>Result</h2>
 
-                    {loading && (
+                    {loading && !streamedPlan && (
                         <div className="loading-state">
                             <Loader className="animate-spin" size={24} />
-                            <p>Generating plan...</p>
+                            <p>{retryNotice || 'Generating plan...'}</p>
                             <small>This may take a few moments</small>
                         </div>
                     )}
 
+                    {loading && streamedPlan && (
+                        <div className="plan-content">
+                            <div className="flex items-center gap-2 mb-4">
+                                <Loader className="animate-spin" size={16} />
+                                <span>{retryNotice || 'Receiving plan...'}</span>
+                            </div>
+                            <div className="markdown-content">
+                                <pre className="whitespace-pre-wrap">{streamedPlan}</pre>
+                            </div>
+                        </div>
+                    )}
+
                     {error && (
                         <div className="error-message">
                             <AlertCircle size={16} />
@@ -119,6 +360,26 @@ export default function CreatePlan() {
                                 <div className="metadata-item">
                                     <strong>Planning Time:</strong> {result.planningTime}ms
                                 </div>
+                                {result.template && (
+                                    <div className="metadata-item">
+                                        <strong>Template:</strong> {result.template}
+                                    </div>
+                                )}
+                                {result.tags && result.tags.length > 0 && (
+                                    <div className="metadata-item">
+                                        <strong>Tags:</strong> {result.tags.join(', ')}
+                                    </div>
+                                )}
+                                {result.provider && (
+                                    <div className="metadata-item">
+                                        <strong>Model:</strong> {result.provider} / {result.model}
+                                    </div>
+                                )}
+                                {result.codebasePath && (
+                                    <div className="metadata-item">
+                                        <strong>Codebase:</strong> {result.codebasePath}
+                                    </div>
+                                )}
                             </div>
 
                             <div className="plan-content">
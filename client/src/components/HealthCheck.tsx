@@ -1,10 +1,36 @@
-import { Activity, CheckCircle, RefreshCw, XCircle } from './Icons';
+import { Activity, AlertCircle, CheckCircle, RefreshCw, XCircle } from './Icons';
 import { useEffect, useState } from 'react';
-import { api, handleApiError } from '../services/api';
+import { api, handleApiError, type ProviderStatus, type ReadinessReport } from '../services/api';
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatUptime = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds % 60}s`;
+};
+
+function ProviderState({ provider }: { provider: ProviderStatus }) {
+    if (!provider.configured) {
+        return <span className="status-badge status-loading">Not configured</span>;
+    }
+    if (provider.working === null) {
+        return <span className="status-badge status-loading">Not checked</span>;
+    }
+    return provider.working ? (
+        <span className="status-badge status-healthy">Working</span>
+    ) : (
+        <span className="status-badge status-error">Failing</span>
+    );
+}
 
 export default function HealthCheck() {
-    const [status, setStatus] = useState<'loading' | 'healthy' | 'error'>('loading');
-    const [data, setData] = useState<any>(null);
+    const [status, setStatus] = useState<'loading' | 'ready' | 'not-ready' | 'error'>('loading');
+    const [report, setReport] = useState<ReadinessReport | null>(null);
     const [error, setError] = useState<string>('');
     const [lastChecked, setLastChecked] = useState<Date | null>(null);
 
@@ -13,9 +39,9 @@ export default function HealthCheck() {
         setError('');
 
         try {
-            const response = await api.healthCheck();
-            setData(response.data);
-            setStatus('healthy');
+            const response = await api.getReadiness();
+            setReport(response.data || null);
+            setStatus(response.data?.ready ? 'ready' : 'not-ready');
             setLastChecked(new Date());
         } catch (err) {
             setError(handleApiError(err));
@@ -32,8 +58,10 @@ export default function HealthCheck() {
         switch (status) {
             case 'loading':
                 return <RefreshCw className="animate-spin" size={24} />;
-            case 'healthy':
+            case 'ready':
                 return <CheckCircle className="text-green-500" size={24} />;
+            case 'not-ready':
+                return <AlertCircle className="text-red-500" size={24} />;
             case 'error':
                 return <XCircle className="text-red-500" size={24} />;
         }
@@ -41,8 +69,9 @@ export default function HealthCheck() {
 
     const getStatusColor = () => {
         switch (status) {
-            case 'healthy':
+            case 'ready':
                 return 'status-healthy';
+            case 'not-ready':
             case 'error':
                 return 'status-error';
             default:
@@ -50,6 +79,19 @@ export default function HealthCheck() {
         }
     };
 
+    const getStatusLabel = () => {
+        switch (status) {
+            case 'loading':
+                return 'Checking...';
+            case 'ready':
+                return 'Ready';
+            case 'not-ready':
+                return 'Not Ready';
+            case 'error':
+                return 'Error';
+        }
+    };
+
     return (
         <div className="page">
             <div className="page-header">
@@ -61,9 +103,7 @@ export default function HealthCheck() {
                 <div className="card-header">
                     <div className="flex items-center gap-2">
                         {getStatusIcon()}
-                        <span className={`status-badge ${getStatusColor()}`}>
-                            {status === 'loading' ? 'Checking...' : status === 'healthy' ? 'Healthy' : 'Error'}
-                        </span>
+                        <span className={`status-badge ${getStatusColor()}`}>{getStatusLabel()}</span>
                     </div>
                     <button onClick={checkHealth} className="btn btn-secondary" disabled={status === 'loading'}>
                         <RefreshCw size={16} />
@@ -84,13 +124,111 @@ export default function HealthCheck() {
                     </div>
                 )}
 
-                {data && (
-                    <div className="json-display">
-                        <h3>Response Data:</h3>
-                        <pre>{JSON.stringify(data, null, 2)}</pre>
+                {report && (
+                    <div className="metadata-grid">
+                        <div className="metadata-item">
+                            <strong>Version:</strong>
+                            <span>{report.version}</span>
+                        </div>
+                        <div className="metadata-item">
+                            <strong>Uptime:</strong>
+                            <span>{formatUptime(report.uptime)}</span>
+                        </div>
+                        <div className="metadata-item">
+                            <strong>Jobs:</strong>
+                            <span>
+                                {report.jobs.running} running, {report.jobs.queued} queued
+                            </span>
+                        </div>
                     </div>
                 )}
             </div>
+
+            {report && (
+                <>
+                    <div className="card">
+                        <h2>LLM Providers</h2>
+                        <div className="table-container">
+                            <table className="table">
+                                <thead>
+                                    <tr>
+                                        <th>Provider</th>
+                                        <th>State</th>
+                                        <th>Circuit</th>
+                                        <th>Latency</th>
+                                        <th>Last Checked</th>
+                                        <th>Last Error</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.providers.map((provider) => (
+                                        <tr key={provider.provider}>
+                                            <td>{provider.provider}</td>
+                                            <td>
+                                                <ProviderState provider={provider} />
+                                            </td>
+                                            <td>
+                                                <span
+                                                    className={`status-badge ${
+                                                        provider.circuit === 'closed' ? 'status-healthy' : 'status-error'
+                                                    }`}
+                                                >
+                                                    {provider.circuit}
+                                                </span>
+                                            </td>
+                                            <td>{provider.latencyMs !== undefined ? `${provider.latencyMs} ms` : '–'}</td>
+                                            <td>
+                                                {provider.lastCheckedAt
+                                                    ? new Date(provider.lastCheckedAt).toLocaleString()
+                                                    : '–'}
+                                            </td>
+                                            <td className="text-sm">{provider.lastError || '–'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div className="card">
+                        <h2>Storage</h2>
+                        {report.storage.error && (
+                            <div className="error-message">
+                                <XCircle size={16} />
+                                <span>{report.storage.error}</span>
+                            </div>
+                        )}
+                        <div className="metadata-grid">
+                            <div className="metadata-item">
+                                <strong>Backend:</strong>
+                                <span>{report.storage.backend}</span>
+                            </div>
+                            <div className="metadata-item">
+                                <strong>Location:</strong>
+                                <span className="font-mono">{report.storage.location}</span>
+                            </div>
+                            <div className="metadata-item">
+                                <strong>Writable:</strong>
+                                <span
+                                    className={`status-badge ${
+                                        report.storage.writable ? 'status-healthy' : 'status-error'
+                                    }`}
+                                >
+                                    {report.storage.writable ? 'Yes' : 'No'}
+                                </span>
+                            </div>
+                            <div className="metadata-item">
+                                <strong>Plans:</strong>
+                                <span>{report.storage.planCount.toLocaleString()}</span>
+                            </div>
+                            <div className="metadata-item">
+                                <strong>Index Size:</strong>
+                                <span>{formatBytes(report.storage.indexSizeBytes)}</span>
+                            </div>
+                        </div>
+                    </div>
+                </>
+            )}
         </div>
     );
-}
\ No newline at end of file
+}
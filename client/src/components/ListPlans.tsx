@@ -1,65 +1,340 @@
-import { useEffect, useState } from 'react';
-import { api, handleApiError } from '../services/api';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { api, getPlanStatusClass, handleApiError } from '../services/api';
+import type { ListPlansQuery, PlanSortKey, PlanStatus, PlanSummary } from '../services/api';
+
+interface PlanFilters {
+    q: string;
+    status: PlanStatus | '';
+    tags: string; // comma-separated
+    from: string; // YYYY-MM-DD
+    to: string; // YYYY-MM-DD, inclusive
+    archived: '' | 'only' | 'include'; // '' hides archived plans
+}
+
+const EMPTY_FILTERS: PlanFilters = { q: '', status: '', tags: '', from: '', to: '', archived: '' };
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where the next page starts: a cursor when sorting by date, else a page number
+type PageStart = Pick<ListPlansQuery, 'after' | 'page'>;
+
+// Query parameters for the applied filters; the API's `to` is exclusive
+const toQuery = (filters: PlanFilters): ListPlansQuery => ({
+    q: filters.q.trim() || undefined,
+    status: filters.status ? [filters.status] : undefined,
+    tags: filters.tags
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    from: filters.from ? new Date(filters.from).toISOString() : undefined,
+    to: filters.to ? new Date(Date.parse(filters.to) + ONE_DAY_MS).toISOString() : undefined,
+    archived: filters.archived || undefined,
+});
 
 export default function ListPlans() {
-    const [plans, setPlans] = useState<any[]>([]);
+    const [plans, setPlans] = useState<PlanSummary[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string>('');
-    const [pagination, setPagination] = useState({
-        page: 1,
-        limit: 10,
-        total: 0,
-        totalPages: 0,
-    });
-    const [sortBy, setSortBy] = useState<'createdAt'>('createdAt');
+    const [notice, setNotice] = useState<string>('');
+    const [limit, setLimit] = useState(10);
+    const [total, setTotal] = useState(0);
+    const [nextPage, setNextPage] = useState<PageStart | null>(null);
+    const [sortBy, setSortBy] = useState<PlanSortKey>('createdAt');
     const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+    // Filters being edited, and the ones the list was loaded with
+    const [filters, setFilters] = useState<PlanFilters>(EMPTY_FILTERS);
+    const [appliedFilters, setAppliedFilters] = useState<PlanFilters>(EMPTY_FILTERS);
+    // Marks the end of the list; more plans load when it scrolls into view
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    const loadMoreRef = useRef(() => {});
+    // Responses to requests made before the latest one are dropped
+    const requestRef = useRef(0);
 
-    const loadPlans = async () => {
+    // Load the first page, or append the page starting at `start`
+    const loadPlans = useCallback(async (start?: PageStart) => {
+        const request = ++requestRef.current;
         setLoading(true);
         setError('');
+        setNotice('');
+        if (!start) {
+            setPlans([]);
+            setNextPage(null);
+        }
 
         try {
             const response = await api.listPlans({
-                page: pagination.page,
-                limit: pagination.limit,
+                ...(start || { page: 1 }),
+                limit,
                 sortBy,
                 sortOrder,
+                ...toQuery(appliedFilters),
             });
+            if (request !== requestRef.current) {
+                return;
+            }
 
             if (response.success && response.data) {
-                setPlans(response.data);
-                setPagination(response.pagination);
+                const { page, totalPages, nextCursor } = response.pagination;
+                const loaded = response.data;
+                setPlans(prev => (start ? [...prev, ...loaded] : loaded));
+                setTotal(response.pagination.total);
+                setNextPage(
+                    nextCursor ? { after: nextCursor } : page && page < totalPages ? { page: page + 1 } : null
+                );
             } else {
                 setError(response.error || 'Failed to load plans');
             }
         } catch (err) {
-            setError(handleApiError(err));
+            if (request === requestRef.current) {
+                setError(handleApiError(err));
+            }
         } finally {
-            setLoading(false);
+            if (request === requestRef.current) {
+                setLoading(false);
+            }
+        }
+    }, [limit, sortBy, sortOrder, appliedFilters]);
+
+    loadMoreRef.current = () => {
+        if (nextPage && !loading && !error) {
+            loadPlans(nextPage);
         }
     };
 
+    // Start over whenever the page size, sort or filters change
     useEffect(() => {
         loadPlans();
-    }, [pagination.page, pagination.limit, sortBy, sortOrder]);
+    }, [loadPlans]);
+
+    // Observe the sentinel again after each page, in case it is still in view
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel) {
+            return;
+        }
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries[0].isIntersecting) {
+                    loadMoreRef.current();
+                }
+            },
+            { rootMargin: '200px' }
+        );
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [nextPage]);
+
+    const isFiltered = Object.values(appliedFilters).some((value) => value.trim() !== '');
+    // Bulk deletion needs a filter beyond showing archived plans alongside the rest
+    const canDeleteMatching =
+        appliedFilters.archived === 'only' ||
+        Object.entries(appliedFilters).some(([name, value]) => name !== 'archived' && value.trim() !== '');
+
+    const removeFromList = (id: string) => {
+        setPlans(prev => prev.filter((plan) => plan.id !== id));
+        setTotal(prev => prev - 1);
+    };
+
+    // Archived and restored plans stay listed only when all plans are shown
+    const handleArchiveToggle = async (plan: PlanSummary) => {
+        setError('');
+
+        try {
+            const response = plan.archivedAt ? await api.restorePlan(plan.id) : await api.deletePlan(plan.id);
+            if (!response.success) {
+                setError(response.error || 'Failed to update plan');
+            } else if (appliedFilters.archived === 'include') {
+                const archivedAt = plan.archivedAt ? undefined : new Date().toISOString();
+                setPlans(prev => prev.map((listed) => (listed.id === plan.id ? { ...listed, archivedAt } : listed)));
+            } else {
+                removeFromList(plan.id);
+            }
+        } catch (err) {
+            setError(handleApiError(err));
+        }
+    };
+
+    const handleDelete = async (plan: PlanSummary) => {
+        if (!window.confirm('Delete this plan and all its revisions permanently?')) return;
+        setError('');
+
+        try {
+            const response = await api.deletePlan(plan.id, true);
+            if (response.success) {
+                removeFromList(plan.id);
+            } else {
+                setError(response.error || 'Failed to delete plan');
+            }
+        } catch (err) {
+            setError(handleApiError(err));
+        }
+    };
+
+    // Archive every plan matching the filters, or purge them from the archive view
+    const handleDeleteMatching = async () => {
+        const permanent = appliedFilters.archived === 'only';
+        const confirmation = permanent
+            ? `Permanently delete all ${total} matching archived plans?`
+            : `Archive all ${total} matching plans? Plans still being generated are skipped.`;
+        if (!window.confirm(confirmation)) return;
+
+        try {
+            const response = await api.deletePlans(toQuery(appliedFilters), permanent);
+            if (response.success && response.data) {
+                await loadPlans();
+                setNotice(`${response.data.count} plans ${permanent ? 'deleted permanently' : 'archived'}.`);
+            } else {
+                setError(response.error || 'Failed to delete plans');
+            }
+        } catch (err) {
+            setError(handleApiError(err));
+        }
+    };
 
-    const handlePageChange = (newPage: number) => {
-        setPagination(prev => ({ ...prev, page: newPage }));
+    const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFilters(prev => ({ ...prev, [name]: value }));
     };
 
-    const handleLimitChange = (newLimit: number) => {
-        setPagination(prev => ({ ...prev, limit: newLimit, page: 1 }));
+    const applyFilters = (next: PlanFilters) => {
+        const searching = next.q.trim() !== '';
+        // Rank search results by relevance unless another order was picked
+        if (searching && !appliedFilters.q.trim() && sortBy === 'createdAt') {
+            setSortBy('relevance');
+        } else if (!searching && sortBy === 'relevance') {
+            setSortBy('createdAt');
+        }
+        setFilters(next);
+        setAppliedFilters(next);
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        applyFilters(filters);
     };
 
     return (
         <div className="page">
             <div className="page-header">
                 <h1>List Plans</h1>
-                <button onClick={loadPlans} className="btn btn-secondary" disabled={loading}>
+                <button onClick={() => loadPlans()} className="btn btn-secondary" disabled={loading}>
                     🔄 Refresh
                 </button>
             </div>
 
+            <div className="card">
+                <form onSubmit={handleSearch}>
+                    <div className="form-group">
+                        <label htmlFor="q">Search</label>
+                        <input
+                            id="q"
+                            name="q"
+                            type="search"
+                            value={filters.q}
+                            onChange={handleFilterChange}
+                            placeholder="Search task descriptions and plans..."
+                            className="form-control"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2">
+                        <div className="form-group">
+                            <label htmlFor="status">Status</label>
+                            <select
+                                id="status"
+                                name="status"
+                                value={filters.status}
+                                onChange={handleFilterChange}
+                                className="form-control"
+                            >
+                                <option value="">Any</option>
+                                <option value="completed">Completed</option>
+                                <option value="failed">Failed</option>
+                                <option value="running">Running</option>
+                                <option value="queued">Queued</option>
+                            </select>
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="tags">Tags</label>
+                            <input
+                                id="tags"
+                                name="tags"
+                                type="text"
+                                value={filters.tags}
+                                onChange={handleFilterChange}
+                                placeholder="e.g. auth, backend"
+                                className="form-control"
+                            />
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="from">Created From</label>
+                            <input
+                                id="from"
+                                name="from"
+                                type="date"
+                                value={filters.from}
+                                onChange={handleFilterChange}
+                                className="form-control"
+                            />
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="to">Created To</label>
+                            <input
+                                id="to"
+                                name="to"
+                                type="date"
+                                value={filters.to}
+                                onChange={handleFilterChange}
+                                className="form-control"
+                            />
+                        </div>
+
+                        <div className="form-group">
+                            <label htmlFor="archived">Show</label>
+                            <select
+                                id="archived"
+                                name="archived"
+                                value={filters.archived}
+                                onChange={handleFilterChange}
+                                className="form-control"
+                            >
+                                <option value="">Active plans</option>
+                                <option value="only">Archived plans</option>
+                                <option value="include">All plans</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <button type="submit" className="btn btn-primary" disabled={loading}>
+                            Search
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => applyFilters(EMPTY_FILTERS)}
+                            className="btn btn-secondary"
+                            disabled={loading}
+                        >
+                            Clear
+                        </button>
+                        {canDeleteMatching && (
+                            <button
+                                type="button"
+                                onClick={handleDeleteMatching}
+                                className="btn btn-danger"
+                                disabled={loading || total === 0}
+                            >
+                                {appliedFilters.archived === 'only' ? '🗑️ Delete Matching' : '📦 Archive Matching'}
+                            </button>
+                        )}
+                    </div>
+                </form>
+            </div>
+
             <div className="card">
                 <div className="card-header">
                     <div className="flex gap-4">
@@ -68,10 +343,13 @@ export default function ListPlans() {
                             <select
                                 id="sortBy"
                                 value={sortBy}
-                                onChange={(e) => setSortBy(e.target.value as 'createdAt')}
+                                onChange={(e) => setSortBy(e.target.value as PlanSortKey)}
                                 className="form-control"
                             >
+                                {appliedFilters.q.trim() && <option value="relevance">Relevance</option>}
                                 <option value="createdAt">Created Date</option>
+                                <option value="updatedAt">Updated Date</option>
+                                <option value="planningTime">Planning Time</option>
                             </select>
                         </div>
 
@@ -92,8 +370,8 @@ export default function ListPlans() {
                             <label htmlFor="limit">Per Page:</label>
                             <select
                                 id="limit"
-                                value={pagination.limit}
-                                onChange={(e) => handleLimitChange(parseInt(e.target.value))}
+                                value={limit}
+                                onChange={(e) => setLimit(parseInt(e.target.value))}
                                 className="form-control"
                             >
                                 <option value="5">5</option>
@@ -105,26 +383,17 @@ export default function ListPlans() {
                     </div>
                 </div>
 
-                {loading && (
-                    <div className="loading-state">
-                        <div className="loader"></div>
-                        <p>Loading plans...</p>
-                    </div>
-                )}
-
-                {error && (
-                    <div className="error-message">
-                        <span>❌ {error}</span>
-                    </div>
-                )}
-
                 {!loading && !error && plans.length === 0 && (
                     <div className="empty-state">
-                        <p>📄 No plans found. Create your first plan!</p>
+                        <p>
+                            {!isFiltered
+                                ? '📄 No plans found. Create your first plan!'
+                                : '🔍 No plans match your search.'}
+                        </p>
                     </div>
                 )}
 
-                {!loading && plans.length > 0 && (
+                {plans.length > 0 && (
                     <>
                         <div className="table-container">
                             <table className="table">
@@ -133,6 +402,9 @@ export default function ListPlans() {
                                         <th>ID</th>
                                         <th>Task Description</th>
                                         <th>Status</th>
+                                        <th>Phases</th>
+                                        <th>Provider</th>
+                                        <th>Tags</th>
                                         <th>Created</th>
                                         <th>Actions</th>
                                     </tr>
@@ -143,18 +415,41 @@ export default function ListPlans() {
                                             <td className="font-mono text-xs">{plan.id.slice(0, 8)}...</td>
                                             <td className="max-w-xs truncate">{plan.taskDescription}</td>
                                             <td>
-                                                <span className={`status-badge ${plan.status === 'completed' ? 'status-healthy' : 'status-error'}`}>
+                                                <span className={`status-badge ${getPlanStatusClass(plan.status)}`}>
                                                     {plan.status}
                                                 </span>
+                                                {plan.archivedAt && <span className="text-xs"> archived</span>}
+                                                {plan.pinned && <span className="text-xs"> 📌 pinned</span>}
                                             </td>
+                                            <td>{plan.phaseCount}</td>
+                                            <td>{plan.provider || '–'}</td>
+                                            <td className="text-xs">{plan.tags?.join(', ') || '–'}</td>
                                             <td>{new Date(plan.createdAt).toLocaleDateString()}</td>
                                             <td>
-                                                <button
-                                                    onClick={() => window.open(`/view-plan?id=${plan.id}`, '_blank')}
-                                                    className="btn btn-sm btn-secondary"
-                                                >
-                                                    View
-                                                </button>
+                                                <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => window.open(`/view-plan?id=${plan.id}`, '_blank')}
+                                                        className="btn btn-sm btn-secondary"
+                                                    >
+                                                        View
+                                                    </button>
+                                                    {(plan.status === 'completed' || plan.status === 'failed') && (
+                                                        <>
+                                                            <button
+                                                                onClick={() => handleArchiveToggle(plan)}
+                                                                className="btn btn-sm btn-secondary"
+                                                            >
+                                                                {plan.archivedAt ? 'Restore' : 'Archive'}
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleDelete(plan)}
+                                                                className="btn btn-sm btn-danger"
+                                                            >
+                                                                Delete
+                                                            </button>
+                                                        </>
+                                                    )}
+                                                </div>
                                             </td>
                                         </tr>
                                     ))}
@@ -162,32 +457,34 @@ export default function ListPlans() {
                             </table>
                         </div>
 
-                        {pagination.totalPages > 1 && (
-                            <div className="pagination">
-                                <button
-                                    onClick={() => handlePageChange(pagination.page - 1)}
-                                    disabled={pagination.page === 1}
-                                    className="btn btn-secondary"
-                                >
-                                    ← Previous
-                                </button>
-
-                                <span className="pagination-info">
-                                    Page {pagination.page} of {pagination.totalPages}
-                                    ({pagination.total} total plans)
-                                </span>
-
-                                <button
-                                    onClick={() => handlePageChange(pagination.page + 1)}
-                                    disabled={pagination.page === pagination.totalPages}
-                                    className="btn btn-secondary"
-                                >
-                                    Next →
-                                </button>
-                            </div>
-                        )}
+                        <div className="pagination">
+                            <span className="pagination-info">
+                                Showing {plans.length} of {total} plans
+                            </span>
+                        </div>
                     </>
                 )}
+
+                {nextPage && <div ref={sentinelRef} />}
+
+                {loading && (
+                    <div className="loading-state">
+                        <div className="loader"></div>
+                        <p>Loading plans...</p>
+                    </div>
+                )}
+
+                {error && (
+                    <div className="error-message">
+                        <span>❌ {error}</span>
+                    </div>
+                )}
+
+                {notice && (
+                    <div className="success-state">
+                        <p>✅ {notice}</p>
+                    </div>
+                )}
             </div>
         </div>
     );
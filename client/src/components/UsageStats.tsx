@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Calendar, RefreshCw, XCircle } from './Icons';
+import { api, handleApiError, type PlanStats, type StatsQuery } from '../services/api';
+
+interface BarChartProps {
+    rows: { label: string; value: number; display?: string }[];
+}
+
+// Horizontal bars scaled to the largest value
+function BarChart({ rows }: BarChartProps) {
+    const max = Math.max(...rows.map((row) => row.value), 0);
+
+    if (rows.length === 0) {
+        return <p className="text-sm text-gray-500">No data for this range.</p>;
+    }
+
+    return (
+        <div className="bar-chart">
+            {rows.map((row) => (
+                <div key={row.label} className="bar-row">
+                    <span className="bar-label" title={row.label}>{row.label}</span>
+                    <div className="bar-track">
+                        <div
+                            className="bar-fill"
+                            style={{ width: `${max > 0 ? (row.value / max) * 100 : 0}%` }}
+                        />
+                    </div>
+                    <span className="bar-value">{row.display ?? row.value}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+
+export default function UsageStats() {
+    const [stats, setStats] = useState<PlanStats | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string>('');
+    const [from, setFrom] = useState<string>('');
+    const [to, setTo] = useState<string>('');
+
+    // Applied date range; a new object reloads the stats
+    const [range, setRange] = useState<StatsQuery>({});
+
+    useEffect(() => {
+        const loadStats = async () => {
+            setLoading(true);
+            setError('');
+
+            try {
+                const response = await api.getStats(range);
+                if (response.success && response.data) {
+                    setStats(response.data);
+                } else {
+                    setError(response.error || 'Failed to load stats');
+                }
+            } catch (err) {
+                setError(handleApiError(err));
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadStats();
+    }, [range]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setRange({ from: from || undefined, to: to || undefined });
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <Calendar size={24} />
+                <h1>Usage Stats</h1>
+            </div>
+
+            <div className="card">
+                <form onSubmit={handleSubmit} className="form">
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="date"
+                            value={from}
+                            onChange={(e) => setFrom(e.target.value)}
+                            className="form-control"
+                            aria-label="From date"
+                        />
+                        <span className="text-sm">to</span>
+                        <input
+                            type="date"
+                            value={to}
+                            onChange={(e) => setTo(e.target.value)}
+                            className="form-control"
+                            aria-label="To date (exclusive)"
+                        />
+                        <button type="submit" className="btn btn-secondary" disabled={loading}>
+                            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+                            Apply
+                        </button>
+                    </div>
+                </form>
+
+                {error && (
+                    <div className="error-message">
+                        <XCircle size={16} />
+                        <span>Error: {error}</span>
+                    </div>
+                )}
+
+                {stats && (
+                    <div className="plan-metadata">
+                        <div className="metadata-grid">
+                            <div className="metadata-item">
+                                <strong>Plans:</strong>
+                                <span>{stats.totalPlans}</span>
+                            </div>
+                            <div className="metadata-item">
+                                <strong>Estimated Spend:</strong>
+                                <span>{formatCost(stats.totals.estimatedCost)}</span>
+                            </div>
+                            <div className="metadata-item">
+                                <strong>Tokens:</strong>
+                                <span>{stats.totals.tokens.total.toLocaleString()}</span>
+                            </div>
+                            <div className="metadata-item">
+                                <strong>Planning Time (avg / p95):</strong>
+                                <span>{stats.planningTime.average}ms / {stats.planningTime.p95}ms</span>
+                            </div>
+                            <div className="metadata-item">
+                                <strong>Fallback Rate:</strong>
+                                <span>{(stats.fallbackRate * 100).toFixed(1)}%</span>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {stats && (
+                <>
+                    <div className="card">
+                        <h2>Plans by Status</h2>
+                        <BarChart
+                            rows={Object.entries(stats.byStatus).map(([status, count]) => ({
+                                label: status,
+                                value: count,
+                            }))}
+                        />
+                    </div>
+
+                    <div className="card">
+                        <h2>Plans per Day</h2>
+                        <BarChart
+                            rows={stats.plansPerDay.map((day) => ({
+                                label: day.date,
+                                value: day.count,
+                            }))}
+                        />
+                    </div>
+
+                    <div className="card">
+                        <h2>Spend by Provider and Model</h2>
+                        <BarChart
+                            rows={stats.byProvider.map((usage) => ({
+                                label: `${usage.provider} / ${usage.model}`,
+                                value: usage.estimatedCost,
+                                display: formatCost(usage.estimatedCost),
+                            }))}
+                        />
+
+                        {stats.byProvider.length > 0 && (
+                            <div className="table-container">
+                                <table className="table">
+                                    <thead>
+                                        <tr>
+                                            <th>Provider</th>
+                                            <th>Model</th>
+                                            <th>Runs</th>
+                                            <th>Prompt Tokens</th>
+                                            <th>Completion Tokens</th>
+                                            <th>Spend</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {stats.byProvider.map((usage) => (
+                                            <tr key={`${usage.provider}/${usage.model}`}>
+                                                <td>{usage.provider}</td>
+                                                <td className="font-mono">{usage.model}</td>
+                                                <td>{usage.runs}</td>
+                                                <td>{usage.tokens.prompt.toLocaleString()}</td>
+                                                <td>{usage.tokens.completion.toLocaleString()}</td>
+                                                <td>{formatCost(usage.estimatedCost)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="card">
+                        <h2>Failure Reasons</h2>
+                        {stats.failureReasons.length === 0 ? (
+                            <p className="text-sm text-gray-500">No failed plans in this range.</p>
+                        ) : (
+                            <div className="table-container">
+                                <table className="table">
+                                    <thead>
+                                        <tr>
+                                            <th>Reason</th>
+                                            <th>Count</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {stats.failureReasons.map((failure) => (
+                                            <tr key={failure.reason}>
+                                                <td>
+                                                    <AlertCircle size={12} /> {failure.reason}
+                                                </td>
+                                                <td>{failure.count}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,11 +1,18 @@
 import { useState } from 'react';
-import { api, handleApiError } from '../services/api';
+import { api, getPlanStatusClass, handleApiError } from '../services/api';
+import type { ApiResponse } from '../services/api';
 
 export default function ViewPlan() {
     const [planId, setPlanId] = useState<string>('');
     const [plan, setPlan] = useState<any>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string>('');
+    const [feedback, setFeedback] = useState<string>('');
+    const [refining, setRefining] = useState(false);
+    const [refineError, setRefineError] = useState<string>('');
+    const [actionPending, setActionPending] = useState(false);
+    const [actionError, setActionError] = useState<string>('');
+    const [notice, setNotice] = useState<string>('');
 
     // Check URL params for plan ID
     useState(() => {
@@ -23,6 +30,9 @@ export default function ViewPlan() {
 
         setLoading(true);
         setError('');
+        setRefineError('');
+        setActionError('');
+        setNotice('');
         setPlan(null);
 
         try {
@@ -44,6 +54,81 @@ export default function ViewPlan() {
         handleSearch();
     };
 
+    const handleRefine = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!plan || !feedback.trim()) return;
+
+        setRefining(true);
+        setRefineError('');
+
+        try {
+            const response = await api.refinePlan(plan.id, feedback.trim());
+            if (response.success && response.data) {
+                setPlan(response.data);
+                setFeedback('');
+            } else {
+                setRefineError(response.error || 'Failed to refine plan');
+            }
+        } catch (err) {
+            setRefineError(handleApiError(err));
+        } finally {
+            setRefining(false);
+        }
+    };
+
+    // Archive, restore, pin or delete the loaded plan
+    const runPlanAction = async <T,>(
+        action: () => Promise<ApiResponse<T>>,
+        onSuccess: (data?: T) => void
+    ) => {
+        setActionPending(true);
+        setActionError('');
+
+        try {
+            const response = await action();
+            if (response.success) {
+                onSuccess(response.data);
+            } else {
+                setActionError(response.error || 'Action failed');
+            }
+        } catch (err) {
+            setActionError(handleApiError(err));
+        } finally {
+            setActionPending(false);
+        }
+    };
+
+    const handleArchive = () =>
+        runPlanAction(
+            () => api.deletePlan(plan.id),
+            (data) => setPlan({ ...plan, archivedAt: data?.archivedAt })
+        );
+
+    const handleRestore = () =>
+        runPlanAction(
+            () => api.restorePlan(plan.id),
+            () => setPlan({ ...plan, archivedAt: undefined })
+        );
+
+    const handleTogglePin = () =>
+        runPlanAction(
+            () => api.pinPlan(plan.id, !plan.pinned),
+            (data) => setPlan({ ...plan, pinned: data?.pinned })
+        );
+
+    const handleDelete = () => {
+        if (!window.confirm('Delete this plan and all its revisions permanently?')) return;
+
+        runPlanAction(
+            () => api.deletePlan(plan.id, true),
+            () => {
+                setPlan(null);
+                setPlanId('');
+                setNotice('🗑️ Plan deleted permanently.');
+            }
+        );
+    };
+
     return (
         <div className="page">
             <div className="page-header">
@@ -89,7 +174,7 @@ export default function ViewPlan() {
                     <div className="plan-details">
                         <div className="plan-header">
                             <h3>Plan Details</h3>
-                            <span className={`status-badge ${plan.status === 'completed' ? 'status-healthy' : 'status-error'}`}>
+                            <span className={`status-badge ${getPlanStatusClass(plan.status)}`}>
                                 {plan.status}
                             </span>
                         </div>
@@ -108,9 +193,111 @@ export default function ViewPlan() {
                                     <strong>Planning Time:</strong>
                                     <span>{plan.planningTime}ms</span>
                                 </div>
+                                <div className="metadata-item">
+                                    <strong>Revision:</strong>
+                                    <span>{plan.revision || 1}</span>
+                                </div>
+                                {plan.template && (
+                                    <div className="metadata-item">
+                                        <strong>Template:</strong>
+                                        <span>{plan.template}</span>
+                                    </div>
+                                )}
+                                {plan.provider && (
+                                    <div className="metadata-item">
+                                        <strong>Model:</strong>
+                                        <span>
+                                            {plan.provider} / {plan.model}
+                                            {plan.fallbackUsed && ' (fallback)'}
+                                        </span>
+                                    </div>
+                                )}
+                                {plan.tokensUsed && (
+                                    <div className="metadata-item">
+                                        <strong>Tokens:</strong>
+                                        <span>
+                                            {plan.tokensUsed.total} ({plan.tokensUsed.prompt} prompt, {plan.tokensUsed.completion} completion)
+                                        </span>
+                                    </div>
+                                )}
+                                {plan.estimatedCost !== undefined && (
+                                    <div className="metadata-item">
+                                        <strong>Estimated Cost:</strong>
+                                        <span>${plan.estimatedCost.toFixed(4)}</span>
+                                    </div>
+                                )}
+                                {plan.retries > 0 && (
+                                    <div className="metadata-item">
+                                        <strong>Retries:</strong>
+                                        <span>{plan.retries}</span>
+                                    </div>
+                                )}
+                                {!!plan.repairRounds && (
+                                    <div className="metadata-item">
+                                        <strong>Repair Rounds:</strong>
+                                        <span>{plan.repairRounds}</span>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
+                        {plan.archivedAt && (
+                            <div className="warning-message">
+                                Archived on {new Date(plan.archivedAt).toLocaleString()}. It is hidden from
+                                the plan list until restored.
+                            </div>
+                        )}
+
+                        {(plan.status === 'completed' || plan.status === 'failed') && (
+                            <div className="flex gap-2">
+                                {plan.archivedAt ? (
+                                    <button onClick={handleRestore} disabled={actionPending} className="btn btn-secondary">
+                                        ♻️ Restore
+                                    </button>
+                                ) : (
+                                    <button onClick={handleArchive} disabled={actionPending} className="btn btn-secondary">
+                                        📦 Archive
+                                    </button>
+                                )}
+                                <button onClick={handleTogglePin} disabled={actionPending} className="btn btn-secondary">
+                                    {plan.pinned ? '📍 Unpin' : '📌 Pin'}
+                                </button>
+                                <button onClick={handleDelete} disabled={actionPending} className="btn btn-danger">
+                                    🗑️ Delete Permanently
+                                </button>
+                            </div>
+                        )}
+
+                        {actionError && (
+                            <div className="error-message">
+                                <span>❌ {actionError}</span>
+                            </div>
+                        )}
+
+                        {plan.status === 'failed' && plan.error && (
+                            <div className="error-message">
+                                <span>❌ {plan.error}</span>
+                            </div>
+                        )}
+
+                        {plan.validation && !plan.validation.isValid && (
+                            <div className="warning-message">
+                                <strong>Plan did not pass validation:</strong>
+                                <ul>
+                                    {plan.validation.issues.map((issue: string) => (
+                                        <li key={issue}>{issue}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        {(plan.status === 'queued' || plan.status === 'running') && (
+                            <div className="loading-state">
+                                <div className="loader"></div>
+                                <p>Plan is {plan.status}. Search again to refresh.</p>
+                            </div>
+                        )}
+
                         <div className="task-description">
                             <h4>Task Description:</h4>
                             <p>{plan.taskDescription}</p>
@@ -122,12 +309,43 @@ export default function ViewPlan() {
                                 <pre className="whitespace-pre-wrap">{plan.plan}</pre>
                             </div>
                         </div>
+
+                        {plan.status === 'completed' && !plan.archivedAt && (
+                            <form onSubmit={handleRefine} className="form">
+                                <div className="form-group">
+                                    <label htmlFor="feedback">Refine this plan:</label>
+                                    <textarea
+                                        id="feedback"
+                                        value={feedback}
+                                        onChange={(e) => setFeedback(e.target.value)}
+                                        placeholder='e.g. "Split phase 2 into backend and frontend work" or "Drop the migration step"'
+                                        rows={3}
+                                        className="form-control"
+                                        disabled={refining}
+                                    />
+                                </div>
+
+                                {refineError && (
+                                    <div className="error-message">
+                                        <span>❌ {refineError}</span>
+                                    </div>
+                                )}
+
+                                <button
+                                    type="submit"
+                                    disabled={refining || !feedback.trim()}
+                                    className="btn btn-primary"
+                                >
+                                    {refining ? '⏳ Refining...' : '✏️ Refine Plan'}
+                                </button>
+                            </form>
+                        )}
                     </div>
                 )}
 
                 {!loading && !error && !plan && (
                     <div className="empty-state">
-                        <p>🔍 Enter a plan ID above to view plan details.</p>
+                        <p>{notice || '🔍 Enter a plan ID above to view plan details.'}</p>
                     </div>
                 )}
             </div>
@@ -11,18 +11,131 @@ const apiClient = axios.create({
   },
 });
 
+// Generating or refining a plan waits for LLM retries and a repair round
+const PLAN_GENERATION_TIMEOUT = 300000;
+
+// API key sent with every request when the server has authentication enabled
+const API_KEY_STORAGE_KEY = "apiKey";
+
+export const getApiKey = (): string =>
+  localStorage.getItem(API_KEY_STORAGE_KEY) || "";
+
+export const setApiKey = (key: string): void => {
+  if (key) {
+    localStorage.setItem(API_KEY_STORAGE_KEY, key);
+  } else {
+    localStorage.removeItem(API_KEY_STORAGE_KEY);
+  }
+};
+
+const getAuthHeaders = (): Record<string, string> => {
+  const key = getApiKey();
+  return key ? { "X-API-Key": key } : {};
+};
+
+apiClient.interceptors.request.use((request) => {
+  const key = getApiKey();
+  if (key) {
+    request.headers.set("X-API-Key", key);
+  }
+  return request;
+});
+
 // Types for API requests and responses
 export interface CreatePlanRequest {
   taskDescription: string;
+  codebasePath?: string;
+  async?: boolean;
+  provider?: string; // defaults to the server's default provider
+  model?: string; // must be in the provider's allowedModels
+  temperature?: number; // 0-2
+  maxTokens?: number;
+  template?: string; // planning style, see getTemplates()
+  tags?: string[]; // stored lower-cased, for filtering listPlans()
+}
+
+export type PlanStatus = "queued" | "running" | "completed" | "failed";
+
+export interface PlanStep {
+  id: string;
+  order: number;
+  description: string;
+  files: string[];
+  dependsOn: string[];
+}
+
+export interface PlanPhase {
+  id: string;
+  order: number;
+  title: string;
+  steps: PlanStep[];
+  dependsOn: string[];
+  acceptanceCriteria: string[];
+}
+
+export interface StructuredPlan {
+  version: 1;
+  phases: PlanPhase[];
+  files: string[];
+}
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+  total: number;
 }
 
 export interface PlanResponse {
   id: string;
   taskDescription: string;
   plan: string;
+  structuredPlan?: StructuredPlan;
+  codebasePath?: string;
   createdAt: string;
   planningTime: number;
-  status?: "completed" | "failed";
+  revision?: number;
+  updatedAt?: string;
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  template?: string;
+  tags?: string[];
+  archivedAt?: string; // archived plans are hidden from listings
+  pinned?: boolean; // never removed by the retention policy
+  tokensUsed?: TokenUsage;
+  finishReason?: string;
+  fallbackUsed?: boolean;
+  retries?: number;
+  estimatedCost?: number; // USD
+  validation?: { isValid: boolean; issues: string[] };
+  repairRounds?: number;
+  status?: PlanStatus;
+  error?: string;
+}
+
+// Plan as returned by listPlans(), without the plan content
+export interface PlanSummary {
+  id: string;
+  taskDescription: string; // truncated to 200 characters
+  status: PlanStatus;
+  phaseCount: number;
+  createdAt: string;
+  updatedAt?: string;
+  planningTime?: number;
+  provider?: string;
+  model?: string;
+  template?: string;
+  tags?: string[];
+  archivedAt?: string; // only listed with archived=include or only
+  pinned?: boolean;
+}
+
+// Badge class for a plan status; queued and running plans show as in progress
+export function getPlanStatusClass(status?: PlanStatus): string {
+  if (status === "completed") return "status-healthy";
+  if (status === "queued" || status === "running") return "status-loading";
+  return "status-error";
 }
 
 export interface ApiResponse<T = any> {
@@ -34,20 +147,155 @@ export interface ApiResponse<T = any> {
 
 export interface PaginatedResponse<T> extends ApiResponse<T> {
   pagination: {
-    page: number;
+    page?: number; // unset when paging by cursor
     limit: number;
     total: number;
     totalPages: number;
+    nextCursor?: string; // when sorting by createdAt and more plans follow
+    prevCursor?: string; // when sorting by createdAt and plans precede
   };
 }
 
-export interface ListPlansQuery {
+export interface PlanStreamRetry {
+  provider: string;
+  attempt: number;
+  reason: string;
+  isFallback: boolean;
+}
+
+export interface PlanStreamRepair {
+  round: number;
+  issues: string[];
+}
+
+export interface PlanStreamHandlers {
+  onToken: (content: string) => void;
+  onRetry?: (info: PlanStreamRetry) => void;
+  onRepair?: (info: PlanStreamRepair) => void; // streamed tokens are discarded
+
+  onComplete: (plan: PlanResponse) => void;
+  onError: (message: string) => void;
+}
+
+export interface ProviderUsage {
+  provider: string;
+  model: string;
+  runs: number;
+  tokens: TokenUsage;
+  estimatedCost: number; // USD
+}
+
+export interface PlanStats {
+  range: { from?: string; to?: string };
+  totalPlans: number;
+  byStatus: Record<PlanStatus, number>;
+  plansPerDay: { date: string; count: number }[];
+  planningTime: { average: number; p95: number };
+  byProvider: ProviderUsage[];
+  totals: { tokens: TokenUsage; estimatedCost: number };
+  fallbackRate: number; // 0..1
+  failureReasons: { reason: string; count: number }[];
+}
+
+export interface ProviderModelOptions {
+  provider: string;
+  isDefault: boolean;
+  defaultModel: string;
+  allowedModels: string[]; // "*" means any model name is accepted
+}
+
+export interface ProvidersResponse {
+  providers: ProviderModelOptions[];
+  maxTokensLimit: number;
+}
+
+export interface PlanTemplateSummary {
+  name: string;
+  description: string;
+  source: "built-in" | "file";
+}
+
+export interface TemplatesResponse {
+  templates: PlanTemplateSummary[];
+  defaultTemplate: string;
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ProviderStatus {
+  provider: string;
+  configured: boolean;
+  working: boolean | null; // null until the provider has been checked
+  lastCheckedAt?: string;
+  latencyMs?: number;
+  lastError?: string;
+  circuit: CircuitState;
+}
+
+export interface StorageHealth {
+  backend: "file" | "sqlite";
+  location: string;
+  writable: boolean;
+  planCount: number;
+  indexSizeBytes: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checkedAt: string;
+  version: string;
+  uptime: number; // seconds
+  providers: ProviderStatus[];
+  storage: StorageHealth;
+  jobs: { queued: number; running: number };
+}
+
+export interface StatsQuery {
+  from?: string; // ISO date or timestamp
+  to?: string; // exclusive
+}
+
+export type PlanSortKey =
+  | "createdAt"
+  | "updatedAt"
+  | "planningTime"
+  | "relevance"; // only applies with a search query
+
+// Filters selecting plans to list or delete
+export interface PlanFilters {
+  q?: string; // full-text search over task description and plan content
+  status?: PlanStatus[]; // any of
+  provider?: string[]; // any of
+  template?: string[]; // any of
+  tags?: string[]; // all of
+  from?: string; // ISO date or timestamp
+  to?: string; // exclusive
+  archived?: "exclude" | "include" | "only"; // default exclude
+}
+
+export interface ListPlansQuery extends PlanFilters {
   page?: number;
+  after?: string; // nextCursor of a previous page, instead of page
+  before?: string; // prevCursor of a previous page, instead of page
   limit?: number;
-  sortBy?: "createdAt";
+  sortBy?: PlanSortKey; // defaults to relevance when searching, else createdAt
   sortOrder?: "asc" | "desc";
 }
 
+const appendPlanFilters = (params: URLSearchParams, filters: PlanFilters) => {
+  if (filters.q) params.append("q", filters.q);
+  if (filters.status?.length) params.append("status", filters.status.join(","));
+  if (filters.provider?.length)
+    params.append("provider", filters.provider.join(","));
+  if (filters.template?.length)
+    params.append("template", filters.template.join(","));
+  if (filters.tags?.length) params.append("tags", filters.tags.join(","));
+  if (filters.from) params.append("from", filters.from);
+  if (filters.to) params.append("to", filters.to);
+  if (filters.archived) params.append("archived", filters.archived);
+};
+
 // API functions
 export const api = {
   // Health check
@@ -56,31 +304,193 @@ export const api = {
     return response.data;
   },
 
+  // Readiness breakdown; answered with 503 while the API is not ready
+  async getReadiness(): Promise<ApiResponse<ReadinessReport>> {
+    const response = await apiClient.get("/health/ready", {
+      validateStatus: (status) => status === 200 || status === 503,
+    });
+    return response.data;
+  },
+
   // Plan endpoints
   async createPlan(
     request: CreatePlanRequest
   ): Promise<ApiResponse<PlanResponse>> {
-    const response = await apiClient.post("/api/plans", request);
+    const response = await apiClient.post("/api/plans", request, {
+      timeout: PLAN_GENERATION_TIMEOUT,
+    });
     return response.data;
   },
 
+  // Streams plan generation over Server-Sent Events; resolves when the stream ends
+  async createPlanStream(
+    request: CreatePlanRequest,
+    handlers: PlanStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/plans/stream`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      handlers.onError(
+        body?.validationErrors?.[0]?.message ||
+          body?.message ||
+          body?.error ||
+          `Request failed with status ${response.status}`
+      );
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const dispatch = (rawEvent: string) => {
+      let event = "message";
+      let data = "";
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (!data) return;
+
+      const payload = JSON.parse(data);
+      switch (event) {
+        case "token":
+          handlers.onToken(payload.content);
+          break;
+        case "retry":
+          handlers.onRetry?.(payload);
+          break;
+        case "repair":
+          handlers.onRepair?.(payload);
+          break;
+        case "complete":
+          handlers.onComplete(payload);
+          break;
+        case "error":
+          handlers.onError(payload.message);
+          break;
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  },
+
   async getPlan(id: string): Promise<ApiResponse<PlanResponse>> {
     const response = await apiClient.get(`/api/plans/${id}`);
     return response.data;
   },
 
+  async refinePlan(
+    id: string,
+    feedback: string
+  ): Promise<ApiResponse<PlanResponse>> {
+    const response = await apiClient.post(
+      `/api/plans/${id}/refine`,
+      { feedback },
+      { timeout: PLAN_GENERATION_TIMEOUT }
+    );
+    return response.data;
+  },
+
   async listPlans(
     query: ListPlansQuery = {}
-  ): Promise<PaginatedResponse<PlanResponse[]>> {
+  ): Promise<PaginatedResponse<PlanSummary[]>> {
     const params = new URLSearchParams();
     if (query.page) params.append("page", query.page.toString());
+    if (query.after) params.append("after", query.after);
+    if (query.before) params.append("before", query.before);
     if (query.limit) params.append("limit", query.limit.toString());
     if (query.sortBy) params.append("sortBy", query.sortBy);
     if (query.sortOrder) params.append("sortOrder", query.sortOrder);
+    appendPlanFilters(params, query);
 
     const response = await apiClient.get(`/api/plans?${params}`);
     return response.data;
   },
+
+  // Archive a plan, or delete it and its revisions for good
+  async deletePlan(
+    id: string,
+    permanent = false
+  ): Promise<ApiResponse<{ id: string; archivedAt?: string }>> {
+    const response = await apiClient.delete(`/api/plans/${id}`, {
+      params: permanent ? { permanent: "true" } : undefined,
+    });
+    return response.data;
+  },
+
+  async restorePlan(id: string): Promise<ApiResponse<{ id: string }>> {
+    const response = await apiClient.post(`/api/plans/${id}/restore`);
+    return response.data;
+  },
+
+  // Pin a plan so retention never removes it, or unpin it
+  async pinPlan(
+    id: string,
+    pinned = true
+  ): Promise<ApiResponse<{ id: string; pinned: boolean }>> {
+    const response = pinned
+      ? await apiClient.put(`/api/plans/${id}/pin`)
+      : await apiClient.delete(`/api/plans/${id}/pin`);
+    return response.data;
+  },
+
+  // Archive, or delete for good, every plan matching the filters
+  async deletePlans(
+    filters: PlanFilters,
+    permanent = false
+  ): Promise<ApiResponse<{ count: number; ids: string[] }>> {
+    const params = new URLSearchParams();
+    appendPlanFilters(params, filters);
+    if (permanent) params.append("permanent", "true");
+
+    const response = await apiClient.delete(`/api/plans?${params}`);
+    return response.data;
+  },
+
+  // LLM providers and models a plan request may select
+  async getProviders(): Promise<ApiResponse<ProvidersResponse>> {
+    const response = await apiClient.get("/api/providers");
+    return response.data;
+  },
+
+  // Named planning styles a plan request may select
+  async getTemplates(): Promise<ApiResponse<TemplatesResponse>> {
+    const response = await apiClient.get("/api/templates");
+    return response.data;
+  },
+
+  // Usage and cost analytics
+  async getStats(query: StatsQuery = {}): Promise<ApiResponse<PlanStats>> {
+    const params = new URLSearchParams();
+    if (query.from) params.append("from", query.from);
+    if (query.to) params.append("to", query.to);
+
+    const response = await apiClient.get(`/api/stats?${params}`);
+    return response.data;
+  },
 };
 
 // Error handling utility
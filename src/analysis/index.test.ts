@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import config from "../config";
+import { AnalysisError, analyzeCodebase } from ".";
+
+describe("analyzeCodebase", () => {
+  let tempDir: string;
+  let originalRootDir: string;
+
+  before(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "analysis-"));
+    await fs.mkdir(path.join(tempDir, "root", "app"), { recursive: true });
+    await fs.mkdir(path.join(tempDir, "outside"));
+    await fs.writeFile(path.join(tempDir, "root", "app", "index.ts"), "");
+    await fs.symlink(
+      path.join(tempDir, "outside"),
+      path.join(tempDir, "root", "escape")
+    );
+
+    originalRootDir = config.analysisRootDir;
+    config.analysisRootDir = path.join(tempDir, "root");
+  });
+
+  after(async () => {
+    config.analysisRootDir = originalRootDir;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("analyzes a directory inside the root", async () => {
+    const result = await analyzeCodebase("app");
+
+    assert.equal(result.summary.totalFiles, 1);
+  });
+
+  it("rejects paths outside the root", async () => {
+    await assert.rejects(analyzeCodebase("../outside"), AnalysisError);
+  });
+
+  it("rejects symlinks inside the root that point outside it", async () => {
+    await assert.rejects(analyzeCodebase("escape"), AnalysisError);
+  });
+
+  it("rejects missing paths", async () => {
+    await assert.rejects(analyzeCodebase("missing"), AnalysisError);
+  });
+});
@@ -0,0 +1,312 @@
+import { promises as fs } from "fs";
+import path from "path";
+import config from "../config";
+import {
+  AnalysisContext,
+  AnalysisResponse,
+  ProjectInfo,
+  Summary,
+} from "../types";
+import logger from "../utils/logger";
+import { walkDirectory } from "./walker";
+
+// Maximum number of file paths included in the analysis context
+const MAX_FILE_TREE_ENTRIES = 200;
+
+// Directory names that indicate a recognisable architectural convention
+const DIRECTORY_PATTERNS: Record<string, string> = {
+  routes: "Route handlers grouped under a routes directory",
+  controllers: "Controller layer (MVC-style request handling)",
+  middleware: "Express-style middleware layer",
+  services: "Service layer for business logic",
+  models: "Data model definitions",
+  schemas: "Schema-based validation",
+  components: "Component-based UI structure",
+  hooks: "Custom hooks for shared UI logic",
+  pages: "Page/route-based UI structure",
+  utils: "Shared utility helpers",
+  config: "Centralised configuration module",
+  migrations: "Database migrations",
+  providers: "Provider/adapter pattern for external integrations",
+  types: "Shared type definitions",
+};
+
+/**
+ * Error raised when a codebase path cannot be analyzed
+ */
+export class AnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+/**
+ * Whether a path is the directory itself or inside it
+ */
+function isInsideDirectory(targetPath: string, dir: string): boolean {
+  return targetPath === dir || targetPath.startsWith(dir + path.sep);
+}
+
+/**
+ * Resolve and validate the requested codebase path against the configured root
+ */
+async function resolveCodebasePath(codebasePath: string): Promise<string> {
+  const resolvedPath = path.resolve(config.analysisRootDir, codebasePath);
+  const rootDir = path.resolve(config.analysisRootDir);
+  const outsideRootMessage = `Codebase path must be inside the analysis root directory (${rootDir})`;
+
+  if (!isInsideDirectory(resolvedPath, rootDir)) {
+    throw new AnalysisError(outsideRootMessage);
+  }
+
+  // Symlinks inside the root may point outside it, so compare real paths too
+  let realPath;
+  try {
+    realPath = await fs.realpath(resolvedPath);
+  } catch {
+    throw new AnalysisError(`Codebase path does not exist: ${codebasePath}`);
+  }
+  const realRootDir = await fs.realpath(rootDir);
+
+  if (!isInsideDirectory(realPath, realRootDir)) {
+    throw new AnalysisError(outsideRootMessage);
+  }
+
+  const stats = await fs.stat(realPath);
+
+  if (!stats.isDirectory()) {
+    throw new AnalysisError(
+      `Codebase path is not a directory: ${codebasePath}`
+    );
+  }
+
+  return realPath;
+}
+
+/**
+ * Read project metadata from package.json if present
+ */
+async function readProjectInfo(rootDir: string): Promise<ProjectInfo> {
+  try {
+    const packageData = await fs.readFile(
+      path.join(rootDir, "package.json"),
+      "utf-8"
+    );
+    const packageJson = JSON.parse(packageData);
+
+    return {
+      name: packageJson.name,
+      version: packageJson.version,
+      description: packageJson.description,
+      main: packageJson.main,
+      scripts: packageJson.scripts,
+      dependencies: packageJson.dependencies,
+      devDependencies: packageJson.devDependencies,
+    };
+  } catch (error) {
+    logger.info("No readable package.json found, using directory name", {
+      rootDir,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { name: path.basename(rootDir) };
+  }
+}
+
+/**
+ * Count files by extension (lowercase, including the dot)
+ */
+function countFilesByExtension(files: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  for (const file of files) {
+    const extension = path.extname(file).toLowerCase();
+    counts[extension] = (counts[extension] || 0) + 1;
+  }
+
+  return counts;
+}
+
+/**
+ * Estimate complexity from the size of the tree and its dependency footprint
+ */
+function estimateComplexity(
+  totalFiles: number,
+  totalDirectories: number,
+  projectInfo: ProjectInfo
+): Summary["estimatedComplexity"] {
+  const dependencyCount =
+    Object.keys(projectInfo.dependencies || {}).length +
+    Object.keys(projectInfo.devDependencies || {}).length;
+
+  const score = totalFiles + totalDirectories * 2 + dependencyCount * 5;
+
+  if (score < 100) return "low";
+  if (score < 500) return "medium";
+  if (score < 2000) return "high";
+  return "very high";
+}
+
+/**
+ * Derive human-readable insights about the stack and layout
+ */
+function buildInsights(
+  files: string[],
+  projectInfo: ProjectInfo,
+  filesByExtension: Record<string, number>
+): string[] {
+  const insights: string[] = [];
+  const allDependencies = {
+    ...projectInfo.dependencies,
+    ...projectInfo.devDependencies,
+  };
+  const hasDependency = (name: string) => name in allDependencies;
+  const hasFile = (name: string) =>
+    files.some((file) => file === name || file.endsWith(`/${name}`));
+
+  const tsFiles =
+    (filesByExtension[".ts"] || 0) + (filesByExtension[".tsx"] || 0);
+  const jsFiles =
+    (filesByExtension[".js"] || 0) + (filesByExtension[".jsx"] || 0);
+
+  if (tsFiles > 0 && tsFiles >= jsFiles) {
+    insights.push(
+      `TypeScript codebase (${tsFiles} TypeScript files${
+        hasFile("tsconfig.json") ? ", tsconfig.json present" : ""
+      })`
+    );
+  } else if (jsFiles > 0) {
+    insights.push(`JavaScript codebase (${jsFiles} JavaScript files)`);
+  }
+
+  if (hasDependency("express")) {
+    insights.push("Express HTTP server");
+  }
+  if (hasDependency("react")) {
+    insights.push(
+      hasDependency("vite")
+        ? "React frontend built with Vite"
+        : "React frontend"
+    );
+  }
+  if (hasDependency("zod")) {
+    insights.push("Zod used for schema validation");
+  }
+  if (hasDependency("openai") || hasDependency("@anthropic-ai/sdk")) {
+    insights.push("Integrates with LLM provider SDKs");
+  }
+
+  const testFiles = files.filter((file) =>
+    /(\.(test|spec)\.[jt]sx?$)|(^|\/)__tests__\//.test(file)
+  );
+  if (testFiles.length > 0) {
+    insights.push(`${testFiles.length} test files found`);
+  } else if (files.length > 0) {
+    insights.push("No test files detected");
+  }
+
+  const nestedPackages = files.filter(
+    (file) => file !== "package.json" && file.endsWith("/package.json")
+  );
+  if (nestedPackages.length > 0) {
+    insights.push(
+      `Contains ${nestedPackages.length} nested package(s): ${nestedPackages
+        .map((file) => path.posix.dirname(file))
+        .slice(0, 5)
+        .join(", ")}`
+    );
+  }
+
+  if (projectInfo.main) {
+    insights.push(`Entry point: ${projectInfo.main}`);
+  }
+
+  return insights;
+}
+
+/**
+ * Detect directory-level conventions used in the codebase
+ */
+function detectPatterns(directories: string[]): string[] {
+  const patterns: string[] = [];
+  const seen = new Set<string>();
+
+  for (const directory of directories) {
+    const name = path.posix.basename(directory).toLowerCase();
+    const description = DIRECTORY_PATTERNS[name];
+
+    if (description && !seen.has(name)) {
+      seen.add(name);
+      patterns.push(`${description} (\`${directory}/\`)`);
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Analyze a local codebase and produce the context used for plan generation
+ * @param codebasePath - Path to the codebase, relative to the configured analysis root
+ * @returns Promise<AnalysisResponse> - Project info, file summary and analysis context
+ */
+export async function analyzeCodebase(
+  codebasePath: string
+): Promise<AnalysisResponse> {
+  const startTime = Date.now();
+  const rootDir = await resolveCodebasePath(codebasePath);
+
+  logger.info("Codebase analysis started", { codebasePath, rootDir });
+
+  const [walkResult, projectInfo] = await Promise.all([
+    walkDirectory(rootDir, {
+      maxFiles: config.analysisMaxFiles,
+      maxDepth: config.analysisMaxDepth,
+    }),
+    readProjectInfo(rootDir),
+  ]);
+
+  const { files, directories, truncated } = walkResult;
+  const filesByExtension = countFilesByExtension(files);
+
+  const summary: Summary = {
+    totalFiles: files.length,
+    totalDirectories: directories.length,
+    filesByExtension,
+    estimatedComplexity: estimateComplexity(
+      files.length,
+      directories.length,
+      projectInfo
+    ),
+  };
+
+  const insights = buildInsights(files, projectInfo, filesByExtension);
+  if (truncated) {
+    insights.push(
+      `Analysis was truncated (limits: ${config.analysisMaxFiles} files, depth ${config.analysisMaxDepth})`
+    );
+  }
+
+  const context: AnalysisContext = {
+    fileTree: files.slice(0, MAX_FILE_TREE_ENTRIES).sort(),
+    insights,
+    patterns: detectPatterns(directories),
+  };
+
+  logger.info("Codebase analysis completed", {
+    codebasePath,
+    duration: Date.now() - startTime,
+    totalFiles: summary.totalFiles,
+    totalDirectories: summary.totalDirectories,
+    estimatedComplexity: summary.estimatedComplexity,
+    truncated,
+  });
+
+  return {
+    codebasePath,
+    projectInfo,
+    summary,
+    context,
+  };
+}
+
+export default analyzeCodebase;
@@ -0,0 +1,143 @@
+import { promises as fs } from "fs";
+import ignore, { Ignore } from "ignore";
+import path from "path";
+import logger from "../utils/logger";
+
+// Directories that are never worth walking, even without a .gitignore
+const ALWAYS_IGNORED = [
+  ".git/",
+  "node_modules/",
+  "dist/",
+  "build/",
+  "coverage/",
+  ".next/",
+  ".cache/",
+];
+
+export interface WalkOptions {
+  maxFiles: number;
+  maxDepth: number;
+}
+
+export interface WalkResult {
+  files: string[]; // paths relative to the root, using "/" separators
+  directories: string[];
+  truncated: boolean;
+}
+
+/**
+ * Load .gitignore rules found in a directory, rebased onto the walk root
+ */
+async function loadGitignore(
+  rootDir: string,
+  relativeDir: string,
+  matcher: Ignore
+): Promise<void> {
+  const gitignoreFile = path.join(rootDir, relativeDir, ".gitignore");
+
+  let content: string;
+  try {
+    content = await fs.readFile(gitignoreFile, "utf-8");
+  } catch {
+    return;
+  }
+
+  const rules = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"))
+    .map((rule) => rebaseRule(rule, relativeDir));
+
+  matcher.add(rules);
+}
+
+/**
+ * Rewrite a rule from a nested .gitignore so it only applies below that directory
+ */
+function rebaseRule(rule: string, relativeDir: string): string {
+  if (!relativeDir) {
+    return rule;
+  }
+
+  const negated = rule.startsWith("!");
+  const body = negated ? rule.slice(1) : rule;
+
+  // Rules without a slash (other than a trailing one) match at any depth
+  const anchored = body.replace(/\/$/, "").includes("/");
+  const rebased = anchored
+    ? `${relativeDir}/${body.replace(/^\//, "")}`
+    : `${relativeDir}/**/${body}`;
+
+  return negated ? `!${rebased}` : rebased;
+}
+
+/**
+ * Walk a directory tree breadth-first, honouring .gitignore files along the way
+ */
+export async function walkDirectory(
+  rootDir: string,
+  options: WalkOptions
+): Promise<WalkResult> {
+  const matcher = ignore().add(ALWAYS_IGNORED);
+  const files: string[] = [];
+  const directories: string[] = [];
+  let truncated = false;
+
+  const queue: Array<{ relativeDir: string; depth: number }> = [
+    { relativeDir: "", depth: 0 },
+  ];
+
+  while (queue.length > 0) {
+    const { relativeDir, depth } = queue.shift()!;
+
+    await loadGitignore(rootDir, relativeDir, matcher);
+
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(rootDir, relativeDir), {
+        withFileTypes: true,
+      });
+    } catch (error) {
+      logger.warn("Skipping unreadable directory during analysis", {
+        directory: relativeDir || ".",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+
+      if (entry.isDirectory()) {
+        if (matcher.ignores(`${relativePath}/`)) {
+          continue;
+        }
+
+        directories.push(relativePath);
+
+        if (depth + 1 < options.maxDepth) {
+          queue.push({ relativeDir: relativePath, depth: depth + 1 });
+        } else {
+          truncated = true;
+        }
+      } else if (entry.isFile()) {
+        if (matcher.ignores(relativePath)) {
+          continue;
+        }
+
+        if (files.length >= options.maxFiles) {
+          truncated = true;
+          return { files, directories, truncated };
+        }
+
+        files.push(relativePath);
+      }
+    }
+  }
+
+  return { files, directories, truncated };
+}
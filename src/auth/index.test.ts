@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+describe("reservePlanQuota", () => {
+  let storageDir: string;
+  let auth: typeof import(".");
+
+  before(async () => {
+    // The API key store is created from the config on import
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "auth-"));
+    process.env.STORAGE_DIR = storageDir;
+    process.env.STORAGE_BACKEND = "file";
+    auth = await import(".");
+  });
+
+  after(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  it("never lets concurrent requests past the daily plan quota", async () => {
+    const { apiKey } = await auth.createApiKey({
+      name: "ci",
+      role: "user",
+      dailyPlanQuota: 3,
+    });
+
+    const checks = await Promise.all(
+      Array.from({ length: 10 }, () => auth.reservePlanQuota(apiKey.id))
+    );
+
+    assert.equal(checks.filter((check) => check.allowed).length, 3);
+    const [summary] = await auth.listApiKeys();
+    assert.equal(summary.usageToday.plans, 3);
+  });
+});
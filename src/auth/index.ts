@@ -0,0 +1,211 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import config from "../config";
+import { ApiKeyRole, CreateApiKeyRequest } from "../schemas/apiKey.schema";
+import { apiKeyStore } from "../storage";
+import {
+  ApiKeyQuotas,
+  ApiKeyRecord,
+  ApiKeyUsage,
+  StoredPlan,
+} from "../storage/types";
+import logger from "../utils/logger";
+
+// Prefix of generated keys, so leaked keys are easy to recognise
+const KEY_PREFIX = "plk_";
+
+/**
+ * Identity of the caller attached to authenticated requests
+ */
+export interface AuthContext {
+  keyId?: string; // unset for the bootstrap admin key
+  name: string;
+  role: ApiKeyRole;
+}
+
+/**
+ * An API key as returned by the admin endpoints, without its hash
+ */
+export type ApiKeySummary = Omit<ApiKeyRecord, "keyHash"> & {
+  usageToday: ApiKeyUsage;
+  quotas: ApiKeyQuotas;
+};
+
+/**
+ * Result of checking a key's daily quotas
+ */
+export interface QuotaCheck {
+  allowed: boolean;
+  reason?: string;
+  usage: ApiKeyUsage;
+}
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+// Quotas are counted per UTC day
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Daily quotas of a key: its own overrides, else the configured defaults
+ */
+function getQuotas(record: ApiKeyRecord): ApiKeyQuotas {
+  return {
+    dailyPlans: record.dailyPlanQuota ?? config.apiKeyDailyPlanQuota,
+    dailyTokens: record.dailyTokenQuota ?? config.apiKeyDailyTokenQuota,
+  };
+}
+
+async function toSummary(record: ApiKeyRecord): Promise<ApiKeySummary> {
+  const { keyHash: _keyHash, ...summary } = record;
+  return {
+    ...summary,
+    usageToday: await apiKeyStore.getUsage(record.id, today()),
+    quotas: getQuotas(record),
+  };
+}
+
+/**
+ * Create a key. The key itself is only returned here; just its hash is stored.
+ */
+export async function createApiKey(
+  request: CreateApiKeyRequest
+): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+
+  const record: ApiKeyRecord = {
+    id: randomUUID(),
+    name: request.name,
+    keyHash: hashKey(key),
+    keyPrefix: key.slice(0, KEY_PREFIX.length + 6),
+    role: request.role,
+    dailyPlanQuota: request.dailyPlanQuota,
+    dailyTokenQuota: request.dailyTokenQuota,
+    createdAt: new Date().toISOString(),
+  };
+
+  await apiKeyStore.saveApiKey(record);
+  logger.info("API key created", { keyId: record.id, role: record.role });
+
+  return { key, apiKey: await toSummary(record) };
+}
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  const records = await apiKeyStore.listApiKeys();
+  return Promise.all(records.map(toSummary));
+}
+
+/**
+ * Revoke a key; revoking twice keeps the first revocation time
+ * @returns The revoked key, or null when no key has the ID
+ */
+export async function revokeApiKey(id: string): Promise<ApiKeySummary | null> {
+  const record = await apiKeyStore.getApiKeyById(id);
+  if (!record) {
+    return null;
+  }
+
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    await apiKeyStore.saveApiKey(record);
+    logger.info("API key revoked", { keyId: id });
+  }
+
+  return toSummary(record);
+}
+
+/**
+ * Resolve a presented key to the caller, or null when it is unknown or revoked
+ */
+export async function authenticateApiKey(
+  key: string
+): Promise<AuthContext | null> {
+  const keyHash = hashKey(key);
+
+  if (
+    config.adminApiKey &&
+    timingSafeEqual(
+      Buffer.from(keyHash, "hex"),
+      Buffer.from(hashKey(config.adminApiKey), "hex")
+    )
+  ) {
+    return { name: "admin", role: "admin" };
+  }
+
+  const record = await apiKeyStore.getApiKeyByHash(keyHash);
+  if (!record || record.revokedAt) {
+    return null;
+  }
+
+  return { keyId: record.id, name: record.name, role: record.role };
+}
+
+/**
+ * Check the daily plan and token quotas of a key and, when allowed, count one
+ * more plan against it. The bootstrap admin key has no quotas.
+ */
+export async function reservePlanQuota(keyId?: string): Promise<QuotaCheck> {
+  const day = today();
+  const record = keyId ? await apiKeyStore.getApiKeyById(keyId) : null;
+
+  if (!keyId || !record) {
+    return { allowed: true, usage: { day, plans: 0, tokens: 0 } };
+  }
+
+  const quotas = getQuotas(record);
+  const { reserved, usage } = await apiKeyStore.reservePlan(keyId, day, quotas);
+
+  if (reserved) {
+    return { allowed: true, usage };
+  }
+
+  return {
+    allowed: false,
+    reason:
+      quotas.dailyPlans > 0 && usage.plans >= quotas.dailyPlans
+        ? `Daily plan quota of ${quotas.dailyPlans} reached`
+        : `Daily token quota of ${quotas.dailyTokens} reached`,
+    usage,
+  };
+}
+
+/**
+ * Count the tokens an LLM run spent against the key that requested it
+ */
+export async function recordTokenUsage(
+  keyId: string | undefined,
+  plan: Pick<StoredPlan, "tokensUsed">
+): Promise<void> {
+  const tokens = plan.tokensUsed?.total || 0;
+  if (!keyId || tokens === 0) {
+    return;
+  }
+
+  try {
+    await apiKeyStore.addUsage(keyId, today(), { tokens });
+  } catch (error) {
+    // Usage accounting must not fail a plan that was already generated
+    logger.error("Failed to record token usage", {
+      keyId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Whether the caller may see a plan: admins see every plan, other keys only
+ * the plans they created. Without authentication every plan is visible.
+ */
+export function canAccessPlan(
+  auth: AuthContext | undefined,
+  plan: Pick<StoredPlan, "ownerKeyId">
+): boolean {
+  return !auth || auth.role === "admin" || plan.ownerKeyId === auth.keyId;
+}
+
+/**
+ * Owner filter for plan listings; undefined lists every plan
+ */
+export function getOwnerFilter(
+  auth: AuthContext | undefined
+): string | undefined {
+  return auth && auth.role !== "admin" ? auth.keyId : undefined;
+}
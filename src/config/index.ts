@@ -1,4 +1,7 @@
 import dotenv from "dotenv";
+import { z } from "zod";
+import { LLMProvider } from "../llm/types";
+import logger from "../utils/logger";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -10,18 +13,183 @@ interface Config {
   openaiApiKey: string | undefined;
   anthropicApiKey: string | undefined;
   deepseekApiKey: string | undefined;
+  localLlmApiKey: string | undefined;
   logLevel: string;
+  logFormat: "text" | "json"; // json writes one object per line
   apiPrefix: string;
   // LLM Configuration
-  defaultLlmProvider: "openai" | "anthropic" | "deepseek";
+  defaultLlmProvider: LLMProvider;
   openaiModel: string;
   anthropicModel: string;
   deepseekModel: string;
+  deepseekBaseUrl: string;
+  localLlmBaseUrl: string | undefined;
+  localLlmModel: string;
   llmMaxTokens: number;
   llmTemperature: number;
   llmMaxRetries: number;
   llmRetryDelay: number;
   llmEnableFallback: boolean;
+  llmPriceTable: Record<string, { prompt: number; completion: number }>; // USD per 1M tokens
+  llmAllowedModels: Partial<Record<LLMProvider, string[]>>; // per-request models, "*" allows any; default model only when unset
+  llmMaxTokensLimit: number; // upper bound for per-request maxTokens
+  llmRepairAttempts: number; // re-prompts for plans failing validation, 0 disables
+  llmMaxConcurrency: number; // in-flight calls per provider, 0 = unlimited
+  llmProviderConcurrency: Partial<Record<LLMProvider, number>>; // per-provider overrides
+  llmQueueTimeout: number; // ms to wait for a free provider slot, 0 = forever
+  llmBreakerEnabled: boolean; // skip providers whose circuit breaker is open
+  llmBreakerErrorThreshold: number; // error rate (0-1) that opens the breaker
+  llmBreakerMinCalls: number; // calls in the window before it can open
+  llmBreakerWindow: number; // ms of call history considered
+  llmBreakerCooldown: number; // ms open before a trial call is let through
+  healthCheckInterval: number; // ms between provider connection tests, 0 = startup only
+  planTemplatesDir: string | undefined; // extra plan templates (*.json)
+  // Mock LLM Configuration (offline development and tests)
+  mockLlmEnabled: boolean;
+  mockLlmProviders: LLMProvider[]; // provider names served by the mock
+  mockLlmLatency: number;
+  mockLlmScenarios: Record<string, string[]>; // "default" or provider name -> outcomes
+  mockLlmFixturesDir: string | undefined;
+  // Codebase Analysis Configuration
+  analysisRootDir: string;
+  analysisMaxFiles: number;
+  analysisMaxDepth: number;
+  // Storage Configuration
+  storageBackend: "file" | "sqlite";
+  storageDir: string;
+  sqliteDbPath: string;
+  // Retention Configuration; each rule is off at 0, pinned plans are exempt
+  retentionMaxAgeDays: number; // remove plans older than this
+  retentionFailedMaxAgeDays: number; // remove failed plans older than this
+  retentionMaxPlans: number; // keep only the newest plans
+  retentionSweepInterval: number; // ms between sweeps, 0 = no automatic sweeps
+  // Async Plan Job Configuration
+  planJobConcurrency: number;
+  planJobResumeInterrupted: boolean; // resume or fail jobs running at shutdown
+  // API Key Authentication Configuration
+  authEnabled: boolean;
+  adminApiKey: string | undefined; // bootstrap key with admin rights, never stored
+  apiKeyDailyPlanQuota: number; // default per key, 0 = unlimited
+  apiKeyDailyTokenQuota: number;
+  // Rate Limiting Configuration
+  rateLimitPerMinute: number; // plan requests per client, 0 disables
+  rateLimitBurst: number; // requests a client may make at once
+}
+
+// Problems found while reading the environment; logged once the logger, which
+// reads this config itself, has finished loading
+const configWarnings: string[] = [];
+
+// USD per 1M tokens of one model
+const ModelPriceSchema = z.object({
+  prompt: z.number(),
+  completion: z.number(),
+});
+
+/**
+ * Read MOCK_LLM_SCENARIO and per-provider MOCK_LLM_SCENARIO_<PROVIDER> lists
+ */
+function parseMockScenarios(): Record<string, string[]> {
+  const scenarios: Record<string, string[]> = {};
+  const prefix = "MOCK_LLM_SCENARIO";
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (!value || (key !== prefix && !key.startsWith(`${prefix}_`))) {
+      continue;
+    }
+
+    const name =
+      key === prefix ? "default" : key.slice(prefix.length + 1).toLowerCase();
+    scenarios[name] = value
+      .split(",")
+      .map((outcome) => outcome.trim())
+      .filter(Boolean);
+  }
+
+  return scenarios;
+}
+
+/**
+ * Read LLM_PRICE_TABLE, a JSON object of model -> { prompt, completion } prices
+ */
+function parsePriceTable(): Config["llmPriceTable"] {
+  const raw = process.env.LLM_PRICE_TABLE;
+  if (!raw) {
+    return {};
+  }
+
+  let table: unknown;
+  try {
+    table = JSON.parse(raw);
+  } catch {
+    configWarnings.push(
+      "LLM_PRICE_TABLE is not valid JSON, using default prices"
+    );
+    return {};
+  }
+
+  const models = z.record(z.unknown()).safeParse(table);
+  if (!models.success) {
+    configWarnings.push(
+      "LLM_PRICE_TABLE is not a JSON object of model prices, using default prices"
+    );
+    return {};
+  }
+
+  const prices: Config["llmPriceTable"] = {};
+  for (const [model, price] of Object.entries(models.data)) {
+    const parsed = ModelPriceSchema.safeParse(price);
+    if (parsed.success) {
+      prices[model] = parsed.data;
+    } else {
+      configWarnings.push(
+        `Ignoring invalid LLM_PRICE_TABLE entry for "${model}"`
+      );
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Read the <PROVIDER>_ALLOWED_MODELS comma-separated lists
+ */
+function parseAllowedModels(): Partial<Record<LLMProvider, string[]>> {
+  const allowed: Partial<Record<LLMProvider, string[]>> = {};
+  const suffix = "_ALLOWED_MODELS";
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (!value || !key.endsWith(suffix)) {
+      continue;
+    }
+
+    const provider = key.slice(0, -suffix.length).toLowerCase() as LLMProvider;
+    allowed[provider] = value
+      .split(",")
+      .map((model) => model.trim())
+      .filter(Boolean);
+  }
+
+  return allowed;
+}
+
+/**
+ * Read the per-provider LLM_MAX_CONCURRENCY_<PROVIDER> limits
+ */
+function parseProviderConcurrency(): Partial<Record<LLMProvider, number>> {
+  const limits: Partial<Record<LLMProvider, number>> = {};
+  const prefix = "LLM_MAX_CONCURRENCY_";
+
+  for (const [key, value] of Object.entries(process.env)) {
+    if (!value || !key.startsWith(prefix)) {
+      continue;
+    }
+
+    const provider = key.slice(prefix.length).toLowerCase() as LLMProvider;
+    limits[provider] = parseInt(value, 10);
+  }
+
+  return limits;
 }
 
 const config: Config = {
@@ -31,20 +199,89 @@ const config: Config = {
   openaiApiKey: process.env.OPENAI_API_KEY,
   anthropicApiKey: process.env.ANTHROPIC_API_KEY,
   deepseekApiKey: process.env.DEEPSEEK_API_KEY,
+  localLlmApiKey: process.env.LOCAL_LLM_API_KEY,
   logLevel: process.env.LOG_LEVEL || "info",
+  logFormat: process.env.LOG_FORMAT === "json" ? "json" : "text",
   apiPrefix: process.env.API_PREFIX || "/api",
   // LLM Configuration
   defaultLlmProvider:
-    (process.env.DEFAULT_LLM_PROVIDER as "openai" | "anthropic" | "deepseek") ||
-    "openai",
+    (process.env.DEFAULT_LLM_PROVIDER as LLMProvider) || "openai",
   openaiModel: process.env.OPENAI_MODEL || "gpt-4-turbo-preview",
   anthropicModel: process.env.ANTHROPIC_MODEL || "claude-3-sonnet-20240229",
   deepseekModel: process.env.DEEPSEEK_MODEL || "deepseek-chat",
+  deepseekBaseUrl:
+    process.env.DEEPSEEK_BASE_URL || "https://openrouter.ai/api/v1",
+  localLlmBaseUrl: process.env.LOCAL_LLM_BASE_URL,
+  localLlmModel: process.env.LOCAL_LLM_MODEL || "llama3.1",
   llmMaxTokens: parseInt(process.env.LLM_MAX_TOKENS || "4096", 10),
   llmTemperature: parseFloat(process.env.LLM_TEMPERATURE || "0.7"),
   llmMaxRetries: parseInt(process.env.LLM_MAX_RETRIES || "3", 10),
   llmRetryDelay: parseInt(process.env.LLM_RETRY_DELAY || "1000", 10),
   llmEnableFallback: process.env.LLM_ENABLE_FALLBACK !== "false",
+  llmPriceTable: parsePriceTable(),
+  llmAllowedModels: parseAllowedModels(),
+  llmMaxTokensLimit: parseInt(process.env.LLM_MAX_TOKENS_LIMIT || "16384", 10),
+  llmRepairAttempts: parseInt(process.env.LLM_REPAIR_ATTEMPTS || "1", 10),
+  llmMaxConcurrency: parseInt(process.env.LLM_MAX_CONCURRENCY || "4", 10),
+  llmProviderConcurrency: parseProviderConcurrency(),
+  llmQueueTimeout: parseInt(process.env.LLM_QUEUE_TIMEOUT || "60000", 10),
+  llmBreakerEnabled: process.env.LLM_BREAKER_ENABLED !== "false",
+  llmBreakerErrorThreshold: parseFloat(
+    process.env.LLM_BREAKER_ERROR_THRESHOLD || "0.5"
+  ),
+  llmBreakerMinCalls: parseInt(process.env.LLM_BREAKER_MIN_CALLS || "5", 10),
+  llmBreakerWindow: parseInt(process.env.LLM_BREAKER_WINDOW || "300000", 10),
+  llmBreakerCooldown: parseInt(process.env.LLM_BREAKER_COOLDOWN || "30000", 10),
+  healthCheckInterval: parseInt(
+    process.env.HEALTH_CHECK_INTERVAL || "300000",
+    10
+  ),
+  planTemplatesDir: process.env.PLAN_TEMPLATES_DIR,
+  // Mock LLM Configuration
+  mockLlmEnabled: process.env.MOCK_LLM_ENABLED === "true",
+  mockLlmProviders: (process.env.MOCK_LLM_PROVIDERS || "mock")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean) as LLMProvider[],
+  mockLlmLatency: parseInt(process.env.MOCK_LLM_LATENCY || "0", 10),
+  mockLlmScenarios: parseMockScenarios(),
+  mockLlmFixturesDir: process.env.MOCK_LLM_FIXTURES_DIR,
+  // Codebase Analysis Configuration
+  analysisRootDir: process.env.ANALYSIS_ROOT_DIR || process.cwd(),
+  analysisMaxFiles: parseInt(process.env.ANALYSIS_MAX_FILES || "5000", 10),
+  analysisMaxDepth: parseInt(process.env.ANALYSIS_MAX_DEPTH || "10", 10),
+  // Storage Configuration
+  storageBackend: (process.env.STORAGE_BACKEND as "file" | "sqlite") || "file",
+  storageDir: process.env.STORAGE_DIR || "data/plans",
+  sqliteDbPath: process.env.SQLITE_DB_PATH || "data/plans.db",
+  // Retention Configuration
+  retentionMaxAgeDays: parseInt(process.env.RETENTION_MAX_AGE_DAYS || "0", 10),
+  retentionFailedMaxAgeDays: parseInt(
+    process.env.RETENTION_FAILED_MAX_AGE_DAYS || "0",
+    10
+  ),
+  retentionMaxPlans: parseInt(process.env.RETENTION_MAX_PLANS || "0", 10),
+  retentionSweepInterval: parseInt(
+    process.env.RETENTION_SWEEP_INTERVAL || "3600000",
+    10
+  ),
+  // Async Plan Job Configuration
+  planJobConcurrency: parseInt(process.env.PLAN_JOB_CONCURRENCY || "2", 10),
+  planJobResumeInterrupted: process.env.PLAN_JOB_RESUME_INTERRUPTED !== "false",
+  // API Key Authentication Configuration
+  authEnabled: process.env.AUTH_ENABLED === "true",
+  adminApiKey: process.env.ADMIN_API_KEY || undefined,
+  apiKeyDailyPlanQuota: parseInt(
+    process.env.API_KEY_DAILY_PLAN_QUOTA || "100",
+    10
+  ),
+  apiKeyDailyTokenQuota: parseInt(
+    process.env.API_KEY_DAILY_TOKEN_QUOTA || "1000000",
+    10
+  ),
+  // Rate Limiting Configuration
+  rateLimitPerMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || "20", 10),
+  rateLimitBurst: parseInt(process.env.RATE_LIMIT_BURST || "5", 10),
 };
 
 // Validate required environment variables
@@ -60,5 +297,9 @@ if (missingEnvVars.length > 0) {
   );
 }
 
+process.nextTick(() => {
+  configWarnings.forEach((warning) => logger.warn(warning));
+});
+
 export default config;
 
@@ -0,0 +1,166 @@
+import { readFileSync } from "fs";
+import path from "path";
+import config from "../config";
+import planJobRunner from "../jobs";
+import { CircuitState } from "../llm/circuitBreaker";
+import llmClient from "../llm/client";
+import { LLMProvider, ProviderValidation } from "../llm/types";
+import { checkStorageHealth } from "../storage";
+import { StorageHealth } from "../storage/types";
+import logger from "../utils/logger";
+
+/**
+ * Last known state of one LLM provider
+ */
+export interface ProviderStatus {
+  provider: LLMProvider;
+  configured: boolean;
+  working: boolean | null; // null until the provider has been checked
+  lastCheckedAt?: string;
+  latencyMs?: number; // of the last connection test
+  lastError?: string;
+  circuit: CircuitState;
+}
+
+/**
+ * Everything the service needs to take traffic
+ */
+export interface ReadinessReport {
+  ready: boolean; // storage writable and at least one provider working
+  checkedAt: string;
+  version: string;
+  uptime: number; // seconds
+  providers: ProviderStatus[];
+  storage: StorageHealth;
+  jobs: { queued: number; running: number };
+}
+
+/**
+ * Version from package.json (same relative path from src/ and dist/)
+ */
+function readVersion(): string {
+  try {
+    const packageFile = path.join(__dirname, "../../package.json");
+    return JSON.parse(readFileSync(packageFile, "utf-8")).version;
+  } catch {
+    return "unknown";
+  }
+}
+
+export const APP_VERSION = readVersion();
+
+/**
+ * Runs the provider connection tests at startup and every
+ * HEALTH_CHECK_INTERVAL, so health requests read cached results instead of
+ * spending tokens
+ */
+export class ProviderHealthMonitor {
+  private lastValidation: ProviderValidation | null = null;
+  private lastCheckedAt: string | undefined;
+  private inFlight: Promise<ProviderValidation> | null = null;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly intervalMs: number = config.healthCheckInterval
+  ) {}
+
+  /**
+   * Check all configured providers now; concurrent calls share one run
+   */
+  refresh(): Promise<ProviderValidation> {
+    if (!this.inFlight) {
+      this.inFlight = llmClient
+        .validateProviders()
+        .then((validation) => {
+          this.lastValidation = validation;
+          this.lastCheckedAt = new Date().toISOString();
+          return validation;
+        })
+        .finally(() => {
+          this.inFlight = null;
+        });
+    }
+
+    return this.inFlight;
+  }
+
+  /**
+   * Run the first check and schedule the periodic ones
+   * @returns The result of the first check
+   */
+  async start(): Promise<ProviderValidation> {
+    const validation = await this.refresh();
+
+    if (this.intervalMs > 0 && !this.timer) {
+      this.timer = setInterval(() => {
+        this.refresh().catch((error) => {
+          logger.error("Provider health check failed", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }, this.intervalMs);
+      this.timer.unref();
+    }
+
+    return validation;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  getStatuses(): ProviderStatus[] {
+    const configured = llmClient.getAvailableProviders();
+    const circuits = new Map(
+      llmClient
+        .getProviderHealth()
+        .map((health) => [health.provider, health.state])
+    );
+    const validation = this.lastValidation;
+
+    return llmClient.getProviderNames().map((provider) => {
+      const isConfigured = configured.includes(provider);
+      const checked = !!validation?.configured.includes(provider);
+
+      return {
+        provider,
+        configured: isConfigured,
+        working: checked ? validation!.working.includes(provider) : null,
+        ...(checked && {
+          lastCheckedAt: this.lastCheckedAt,
+          latencyMs: validation!.latencyMs[provider],
+          lastError: validation!.errors[provider],
+        }),
+        circuit: circuits.get(provider) || "closed",
+      };
+    });
+  }
+}
+
+// Shared monitor started by the server and read by the health routes
+export const providerHealthMonitor = new ProviderHealthMonitor();
+
+/**
+ * Readiness of the service: cached provider checks plus a live storage probe
+ */
+export async function getReadiness(): Promise<ReadinessReport> {
+  const providers = providerHealthMonitor.getStatuses();
+  const storage = await checkStorageHealth();
+
+  return {
+    ready:
+      storage.writable &&
+      providers.some((provider) => provider.configured && provider.working),
+    checkedAt: new Date().toISOString(),
+    version: APP_VERSION,
+    uptime: Math.round(process.uptime()),
+    providers,
+    storage,
+    jobs: planJobRunner.getStats(),
+  };
+}
+
+export default providerHealthMonitor;
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { PlanStatus } from "../schemas/plan.schema";
+
+describe("PlanJobRunner", () => {
+  let storageDir: string;
+  let jobs: typeof import(".");
+  let storage: typeof import("../storage");
+
+  before(async () => {
+    // Config, stores and providers are created from the environment on import
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "plan-jobs-"));
+    process.env.PORT = "0";
+    process.env.STORAGE_DIR = storageDir;
+    process.env.STORAGE_BACKEND = "file";
+    process.env.MOCK_LLM_ENABLED = "true";
+    process.env.DEFAULT_LLM_PROVIDER = "mock";
+    process.env.MOCK_LLM_LATENCY = "100";
+    process.env.PLAN_JOB_RESUME_INTERRUPTED = "false";
+    jobs = await import(".");
+    storage = await import("../storage");
+  });
+
+  after(async () => {
+    await storage.flushStorage();
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  async function waitForStatus(id: string, status: PlanStatus) {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const plan = await storage.getPlanById(id);
+      if (plan?.status === status) {
+        return plan;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    assert.fail(`Plan ${id} never reached ${status}`);
+  }
+
+  it("generates a queued plan in the background", async () => {
+    const runner = new jobs.PlanJobRunner(1);
+
+    const queued = await runner.enqueue({
+      taskDescription: "Add a settings page",
+      format: "both",
+      async: true,
+    });
+
+    assert.equal(queued.status, "queued");
+    const completed = await waitForStatus(queued.id, "completed");
+    assert.ok(completed.plan.length > 0);
+    assert.equal(completed.createdAt, queued.createdAt);
+  });
+
+  it("does not recover jobs it already runs", async () => {
+    const runner = new jobs.PlanJobRunner(1);
+    const queued = await runner.enqueue({
+      taskDescription: "Add a billing page",
+      format: "both",
+      async: true,
+    });
+
+    // Recovery finds the plan queued or running but leaves it to its job
+    await runner.recover();
+    assert.deepEqual(runner.getStats(), { queued: 0, running: 1 });
+    const recovered = await storage.getPlanById(queued.id);
+    assert.ok(["queued", "running"].includes(recovered!.status));
+
+    const completed = await waitForStatus(queued.id, "completed");
+    assert.equal(completed.revision, 1);
+    // The slot is released just after the completed plan is stored
+    for (
+      let attempt = 0;
+      attempt < 100 && runner.getStats().running;
+      attempt++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.deepEqual(runner.getStats(), { queued: 0, running: 0 });
+  });
+
+  it("resumes queued plans and fails interrupted ones after a restart", async () => {
+    const plan = {
+      taskDescription: "Add an audit log",
+      plan: "",
+      createdAt: new Date().toISOString(),
+      planningTime: 0,
+    };
+    const queuedId = randomUUID();
+    const runningId = randomUUID();
+    await storage.savePlan({ ...plan, id: queuedId }, "queued");
+    await storage.savePlan({ ...plan, id: runningId }, "running");
+
+    await new jobs.PlanJobRunner(1).recover();
+
+    await waitForStatus(queuedId, "completed");
+    const failed = await waitForStatus(runningId, "failed");
+    assert.equal(failed.error, "Interrupted by server restart");
+  });
+});
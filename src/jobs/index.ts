@@ -0,0 +1,201 @@
+import { randomUUID } from "crypto";
+import config from "../config";
+import { recordTokenUsage } from "../auth";
+import { generatePlan } from "../planning";
+import { CreatePlanRequest, PlanResponse } from "../schemas/plan.schema";
+import { findPlansByStatus, savePlan } from "../storage";
+import { StoredPlan } from "../storage/types";
+import {
+  getLogContext,
+  runWithLogContext,
+  setLogContext,
+} from "../utils/logContext";
+import logger from "../utils/logger";
+
+/**
+ * A queued plan generation request, keyed by the ID of its stored plan
+ */
+interface PlanJob {
+  plan: PlanResponse;
+  request: CreatePlanRequest;
+  requestId?: string; // X-Request-Id of the submitting request, for logs
+}
+
+/**
+ * In-process runner for async plan generation. Plans are persisted in the
+ * "queued" state and move through "running" to "completed" or "failed", so the
+ * stored status is the source of truth for clients and for restart recovery.
+ */
+export class PlanJobRunner {
+  private queue: PlanJob[] = [];
+  private active = 0;
+  // Plans queued or running here, which recovery must not schedule again
+  private owned = new Set<string>();
+  private concurrency: number;
+
+  constructor(concurrency: number = config.planJobConcurrency) {
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  /**
+   * Persist a queued plan for the request and schedule it
+   * @param ownerKeyId - API key that submitted the request, if any
+   * @returns The stored plan in the "queued" state
+   */
+  async enqueue(
+    request: CreatePlanRequest,
+    ownerKeyId?: string
+  ): Promise<StoredPlan> {
+    const plan: PlanResponse = {
+      id: randomUUID(),
+      taskDescription: request.taskDescription,
+      plan: "",
+      codebasePath: request.codebasePath,
+      createdAt: new Date().toISOString(),
+      planningTime: 0,
+      // Requested model settings, kept so recovery can re-run the same request
+      provider: request.provider,
+      model: request.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      template: request.template,
+      tags: request.tags,
+      ownerKeyId,
+    };
+
+    const requestId = getLogContext()?.requestId;
+    setLogContext({ planId: plan.id });
+
+    // Claimed before the plan is stored, so a recovery running meanwhile
+    // leaves it to this job
+    this.owned.add(plan.id);
+    let storedPlan: StoredPlan;
+    try {
+      storedPlan = await savePlan(plan, "queued");
+    } catch (error) {
+      this.owned.delete(plan.id);
+      throw error;
+    }
+    this.schedule({ plan, request, requestId });
+
+    logger.info("Plan job queued", {
+      planId: plan.id,
+      queueLength: this.queue.length,
+      active: this.active,
+    });
+
+    return storedPlan;
+  }
+
+  /**
+   * Re-schedule plans left queued or running when the server last stopped.
+   * Plans this runner already owns are skipped, so jobs submitted since
+   * startup are never run twice.
+   */
+  async recover(): Promise<void> {
+    const pending = (await findPlansByStatus(["queued", "running"])).filter(
+      (plan) => !this.owned.has(plan.id)
+    );
+
+    if (pending.length === 0) {
+      return;
+    }
+
+    logger.info("Recovering interrupted plan jobs", { count: pending.length });
+
+    for (const plan of pending) {
+      if (plan.status === "running" && !config.planJobResumeInterrupted) {
+        await this.markFailed(plan, "Interrupted by server restart");
+        continue;
+      }
+
+      this.schedule({
+        plan,
+        request: {
+          taskDescription: plan.taskDescription,
+          codebasePath: plan.codebasePath,
+          format: "both",
+          async: true,
+          provider: plan.provider as CreatePlanRequest["provider"],
+          model: plan.model,
+          temperature: plan.temperature,
+          maxTokens: plan.maxTokens,
+          template: plan.template,
+          tags: plan.tags,
+        },
+      });
+    }
+  }
+
+  /**
+   * Number of jobs waiting for a free slot and currently running
+   */
+  getStats(): { queued: number; running: number } {
+    return { queued: this.queue.length, running: this.active };
+  }
+
+  private schedule(job: PlanJob): void {
+    this.owned.add(job.plan.id);
+    this.queue.push(job);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.active++;
+
+      runWithLogContext({ requestId: job.requestId, planId: job.plan.id }, () =>
+        this.run(job)
+      )
+        .catch((error) => {
+          logger.error("Plan job crashed", {
+            planId: job.plan.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        })
+        .finally(() => {
+          this.owned.delete(job.plan.id);
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private async run(job: PlanJob): Promise<void> {
+    const { plan, request } = job;
+
+    await savePlan(plan, "running");
+    logger.info("Plan job started", { planId: plan.id });
+
+    try {
+      const planResponse = await generatePlan(request, {
+        planId: plan.id,
+        ownerKeyId: plan.ownerKeyId,
+      });
+      await recordTokenUsage(plan.ownerKeyId, planResponse);
+
+      // Keep the submission time so listings stay in request order
+      await savePlan(
+        { ...planResponse, createdAt: plan.createdAt },
+        "completed"
+      );
+      logger.info("Plan job completed", { planId: plan.id });
+    } catch (error) {
+      await this.markFailed(
+        plan,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  private async markFailed(plan: PlanResponse, reason: string): Promise<void> {
+    await savePlan({ ...plan, error: reason }, "failed");
+    logger.warn("Plan job failed", { planId: plan.id, error: reason });
+  }
+}
+
+// Shared runner used by the API routes and startup recovery
+export const planJobRunner = new PlanJobRunner();
+
+export default planJobRunner;
@@ -0,0 +1,271 @@
+import config from "../config";
+import logger from "../utils/logger";
+import { LLMError, LLMProvider } from "./types";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Breaker state and recent call statistics of one provider
+ */
+export interface ProviderHealth {
+  provider: LLMProvider;
+  state: CircuitState;
+  calls: number; // calls within the rolling window
+  errorRate: number; // 0-1 over the window
+  averageLatencyMs: number; // over the window, successful and failed calls
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string; // when an open breaker lets a trial call through
+}
+
+interface CallOutcome {
+  at: number;
+  success: boolean;
+  latencyMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  errorThreshold: number; // error rate that opens the breaker
+  minCalls: number; // calls in the window before the error rate counts
+  windowMs: number;
+  cooldownMs: number; // time open before a half-open trial call
+}
+
+// Order in which fallback providers are tried, healthiest state first
+const STATE_RANK: Record<CircuitState, number> = {
+  closed: 0,
+  "half-open": 1,
+  open: 2,
+};
+
+/**
+ * Whether a failed call counts against the provider: retryable errors, 5xx
+ * responses, timeouts and network errors do; other 4xx responses, such as an
+ * unknown model or a rejected key, are caused by the request
+ */
+export function isProviderFailure(error: unknown): boolean {
+  if (!(error instanceof LLMError) || error.retryable) {
+    return true;
+  }
+  return (
+    error.statusCode === undefined ||
+    error.statusCode < 400 ||
+    error.statusCode >= 500
+  );
+}
+
+/**
+ * Per-provider circuit breaker. Closed while the recent error rate stays
+ * below the threshold; open (calls rejected) for a cooldown once it is
+ * exceeded; then half-open, letting a single trial call decide whether to
+ * close again or re-open.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private outcomes: CallOutcome[] = [];
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly provider: LLMProvider,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Whether a call would currently be let through, without claiming the
+   * half-open trial slot
+   */
+  isAvailable(now: number = Date.now()): boolean {
+    switch (this.state) {
+      case "closed":
+        return true;
+      case "open":
+        return now - this.openedAt >= this.options.cooldownMs;
+      case "half-open":
+        return !this.trialInFlight;
+    }
+  }
+
+  /**
+   * Claim permission for a call; in half-open state only one trial call is
+   * allowed until its outcome is recorded
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (!this.isAvailable(now)) {
+      return false;
+    }
+
+    if (this.state === "open") {
+      this.transition("half-open");
+    }
+
+    if (this.state === "half-open") {
+      this.trialInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(latencyMs: number, now: number = Date.now()): void {
+    this.record({ at: now, success: true, latencyMs });
+    this.consecutiveFailures = 0;
+
+    if (this.state === "half-open") {
+      // Start the closed state with a clean window
+      this.outcomes = [];
+      this.transition("closed");
+    }
+  }
+
+  /**
+   * End a call without recording an outcome, for failures that say nothing
+   * about the provider's health; frees the half-open trial slot
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(latencyMs: number, now: number = Date.now()): void {
+    this.record({ at: now, success: false, latencyMs });
+    this.consecutiveFailures++;
+
+    if (this.state === "half-open") {
+      this.open(now);
+      return;
+    }
+
+    const { calls, errorRate } = this.getWindowStats(now);
+    if (
+      this.state === "closed" &&
+      calls >= this.options.minCalls &&
+      errorRate >= this.options.errorThreshold
+    ) {
+      this.open(now);
+    }
+  }
+
+  getHealth(now: number = Date.now()): ProviderHealth {
+    const stats = this.getWindowStats(now);
+
+    return {
+      provider: this.provider,
+      state: this.state,
+      ...stats,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.state !== "closed" && {
+        openedAt: new Date(this.openedAt).toISOString(),
+      }),
+      ...(this.state === "open" && {
+        retryAt: new Date(
+          this.openedAt + this.options.cooldownMs
+        ).toISOString(),
+      }),
+    };
+  }
+
+  private open(now: number): void {
+    this.openedAt = now;
+    this.transition("open");
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.state) {
+      return;
+    }
+
+    const log = state === "open" ? logger.warn : logger.info;
+    log.call(logger, `Circuit breaker for ${this.provider} is now ${state}`, {
+      provider: this.provider,
+      from: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+    });
+
+    this.state = state;
+    this.trialInFlight = false;
+  }
+
+  private record(outcome: CallOutcome): void {
+    this.outcomes.push(outcome);
+    this.trialInFlight = false;
+    this.pruneWindow(outcome.at);
+  }
+
+  private pruneWindow(now: number): void {
+    const cutoff = now - this.options.windowMs;
+    while (this.outcomes.length > 0 && this.outcomes[0].at < cutoff) {
+      this.outcomes.shift();
+    }
+  }
+
+  private getWindowStats(
+    now: number
+  ): Pick<ProviderHealth, "calls" | "errorRate" | "averageLatencyMs"> {
+    this.pruneWindow(now);
+
+    const calls = this.outcomes.length;
+    if (calls === 0) {
+      return { calls: 0, errorRate: 0, averageLatencyMs: 0 };
+    }
+
+    const failures = this.outcomes.filter((outcome) => !outcome.success);
+    const totalLatency = this.outcomes.reduce(
+      (sum, outcome) => sum + outcome.latencyMs,
+      0
+    );
+
+    return {
+      calls,
+      errorRate: Math.round((failures.length / calls) * 1000) / 1000,
+      averageLatencyMs: Math.round(totalLatency / calls),
+    };
+  }
+}
+
+/**
+ * Circuit breakers for all providers, created on first use
+ */
+export class ProviderHealthTracker {
+  private breakers = new Map<LLMProvider, CircuitBreaker>();
+
+  constructor(
+    private readonly options: CircuitBreakerOptions = {
+      errorThreshold: config.llmBreakerErrorThreshold,
+      minCalls: config.llmBreakerMinCalls,
+      windowMs: config.llmBreakerWindow,
+      cooldownMs: config.llmBreakerCooldown,
+    }
+  ) {}
+
+  get(provider: LLMProvider): CircuitBreaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker(provider, this.options);
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Sort providers healthiest first: by breaker state, then error rate, then
+   * average latency. Providers without calls yet count as healthy.
+   */
+  rank(providers: LLMProvider[]): LLMProvider[] {
+    const now = Date.now();
+    const health = new Map(
+      providers.map((provider) => [provider, this.get(provider).getHealth(now)])
+    );
+
+    return [...providers].sort((a, b) => {
+      const healthA = health.get(a)!;
+      const healthB = health.get(b)!;
+      return (
+        STATE_RANK[healthA.state] - STATE_RANK[healthB.state] ||
+        healthA.errorRate - healthB.errorRate ||
+        healthA.averageLatencyMs - healthB.averageLatencyMs
+      );
+    });
+  }
+}
+
+export default ProviderHealthTracker;
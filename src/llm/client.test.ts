@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { registry } from "../metrics";
+import type { LLMClient } from "./client";
+import { LLMError, LLMProvider } from "./types";
+
+describe("LLMClient circuit breaker", () => {
+  let client: LLMClient;
+
+  before(async () => {
+    // Config is read on import: mock providers that always fail, no retries
+    Object.assign(process.env, {
+      MOCK_LLM_ENABLED: "true",
+      MOCK_LLM_PROVIDERS: "openai,anthropic",
+      MOCK_LLM_SCENARIO_OPENAI: Array(5).fill("auth_error").join(","),
+      MOCK_LLM_SCENARIO_ANTHROPIC: Array(5).fill("server_error").join(","),
+      LLM_ENABLE_FALLBACK: "false",
+      LLM_MAX_RETRIES: "0",
+      LLM_BREAKER_MIN_CALLS: "2",
+      LLM_BREAKER_ERROR_THRESHOLD: "0.5",
+      OPENAI_ALLOWED_MODELS: "*",
+    });
+    const { LLMClient } = await import("./client");
+    client = new LLMClient();
+  });
+
+  const callUntilRejected = async (provider: LLMProvider, calls: number) => {
+    for (let i = 0; i < calls; i++) {
+      await assert.rejects(
+        client.generatePlanWithRetry({
+          prompt: "Plan a login page",
+          model: {
+            provider,
+            model: "test-model",
+            maxTokens: 100,
+            temperature: 0,
+          },
+        }),
+        LLMError
+      );
+    }
+  };
+
+  const getState = (provider: LLMProvider) =>
+    client.getProviderHealth().find((health) => health.provider === provider)
+      ?.state;
+
+  it("ignores 4xx errors caused by the request", async () => {
+    await callUntilRejected("openai", 3);
+
+    assert.equal(getState("openai"), "closed");
+  });
+
+  it("opens on repeated 5xx errors", async () => {
+    await callUntilRejected("anthropic", 2);
+
+    assert.equal(getState("anthropic"), "open");
+  });
+});
+
+describe("LLMClient metrics", () => {
+  it("reports models accepted through a * allow-list as other", async () => {
+    const { LLMClient } = await import("./client");
+    const client = new LLMClient();
+    const defaultModel = client
+      .getModelOptions()
+      .find((option) => option.provider === "openai")!.defaultModel;
+
+    for (const model of ["caller-chosen-model", defaultModel]) {
+      await assert.rejects(
+        client.generatePlanWithRetry({
+          prompt: "Plan a login page",
+          model: { provider: "openai", model, maxTokens: 100, temperature: 0 },
+        })
+      );
+    }
+
+    const metrics = registry.render();
+    assert.ok(!metrics.includes("caller-chosen-model"));
+    assert.match(
+      metrics,
+      /llm_requests_total\{provider="openai",model="other"/
+    );
+    assert.ok(
+      metrics.includes(
+        `llm_requests_total{provider="openai",model="${defaultModel}"`
+      )
+    );
+  });
+});
+
+describe("LLMClient plan completion", () => {
+  let config: typeof import("../config").default;
+  let original: typeof config;
+
+  before(async () => {
+    config = (await import("../config")).default;
+    original = { ...config };
+    Object.assign(config, {
+      defaultLlmProvider: "openai",
+      llmEnableFallback: true,
+      llmMaxRetries: 1,
+      llmRetryDelay: 1,
+      llmRepairAttempts: 1,
+      llmBreakerEnabled: false,
+    });
+  });
+
+  after(() => {
+    Object.assign(config, original);
+  });
+
+  // Providers read their mock scenario when the client is created
+  const createClient = async (scenarios: Record<string, string[]>) => {
+    config.mockLlmScenarios = scenarios;
+    const { LLMClient } = await import("./client");
+    return new LLMClient();
+  };
+
+  it("falls back to another provider only when none was requested", async () => {
+    const client = await createClient({
+      openai: ["auth_error", "auth_error"],
+    });
+
+    await assert.rejects(
+      client.generatePlan("Add a login page", { provider: "openai" }),
+      /openai/
+    );
+
+    const fallback = await client.generatePlan("Add a login page");
+    assert.equal(fallback.provider, "anthropic");
+    assert.equal(fallback.fallbackUsed, true);
+    assert.equal(fallback.retries, 1);
+  });
+
+  it("counts retries of a repair round apart from the plan's", async () => {
+    const client = await createClient({
+      openai: ["truncated", "server_error"],
+    });
+    const retried: string[] = [];
+
+    const generated = await client.generatePlan("Add a login page", {
+      onRetry: (info) => retried.push(info.provider),
+    });
+
+    assert.equal(generated.provider, "openai");
+    assert.equal(generated.repairRounds, 1);
+    assert.equal(generated.validation.isValid, true);
+    assert.equal(generated.retries, 0);
+    assert.equal(generated.fallbackUsed, false);
+    // Streaming callers still learn that the repair output restarted
+    assert.deepEqual(retried, ["openai"]);
+  });
+});
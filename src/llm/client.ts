@@ -1,22 +1,53 @@
 import config from "../config";
+import {
+  llmFallbacksTotal,
+  llmRequestDuration,
+  llmRequestsTotal,
+  llmRetriesTotal,
+  llmTokens,
+  secondsSince,
+} from "../metrics";
+import { PlanValidationRules } from "../schemas/template.schema";
 import { AnalysisResponse } from "../types";
 import logger from "../utils/logger";
+import Semaphore from "../utils/semaphore";
+import {
+  isProviderFailure,
+  ProviderHealth,
+  ProviderHealthTracker,
+} from "./circuitBreaker";
 import { parsePlanFromResponse, validatePlanStructure } from "./parser";
+import { addCost, addTokenUsage, estimateCost } from "./pricing";
 import {
   buildPlanGenerationPrompt,
   buildSimplePlanGenerationPrompt,
   buildSystemPrompt,
 } from "./prompts/planGeneration.prompt";
+import { buildPlanRepairPrompt } from "./prompts/planRepair.prompt";
+import {
+  buildPlanRefinementPrompt,
+  buildRefinementSystemPrompt,
+} from "./prompts/planRefinement.prompt";
 import anthropicProvider from "./providers/anthropic.provider";
 import deepseekProvider from "./providers/deepseek.provider";
+import localProvider from "./providers/local.provider";
+import mockProvider, { MockProvider } from "./providers/mock.provider";
 import openaiProvider from "./providers/openai.provider";
+import templateRegistry from "./templates";
 import {
+  GeneratedPlan,
+  GeneratePlanOptions,
   ILLMProvider,
   LLMError,
   LLMModel,
   LLMProvider,
   LLMRequest,
   LLMResponse,
+  ModelSelection,
+  PlanValidationResult,
+  ProviderCheckResult,
+  ProviderModelOptions,
+  ProviderValidation,
 } from "./types";
 
 const getDefaultModels = (): Record<LLMProvider, LLMModel> => ({
@@ -38,11 +69,27 @@ const getDefaultModels = (): Record<LLMProvider, LLMModel> => ({
     maxTokens: config.llmMaxTokens,
     temperature: config.llmTemperature,
   },
+  local: {
+    provider: "local",
+    model: config.localLlmModel,
+    maxTokens: config.llmMaxTokens,
+    temperature: config.llmTemperature,
+  },
+  mock: {
+    provider: "mock",
+    model: "mock-planner",
+    maxTokens: config.llmMaxTokens,
+    temperature: config.llmTemperature,
+  },
 });
 
 export class LLMClient {
   private providers: Map<LLMProvider, ILLMProvider>;
   private defaultProvider: LLMProvider;
+  // Caps in-flight calls per provider; excess calls queue for a slot
+  private providerSlots = new Map<LLMProvider, Semaphore>();
+  // Circuit breakers tracking recent errors and latency per provider
+  private health = new ProviderHealthTracker();
 
   constructor() {
     // Initialize providers
@@ -50,8 +97,19 @@ export class LLMClient {
       ["openai", openaiProvider],
       ["anthropic", anthropicProvider],
       ["deepseek", deepseekProvider],
+      ["local", localProvider],
+      ["mock", mockProvider],
     ]);
 
+    // Mock instances can stand in for real providers to exercise fallback offline
+    if (config.mockLlmEnabled) {
+      for (const name of config.mockLlmProviders) {
+        if (name !== "mock" && this.providers.has(name)) {
+          this.providers.set(name, new MockProvider(name));
+        }
+      }
+    }
+
     // Determine default provider from config or first available
     const availableProviders = this.getAvailableProviders();
     this.defaultProvider = availableProviders.includes(
@@ -79,6 +137,87 @@ export class LLMClient {
       .map(([name]) => name);
   }
 
+  /**
+   * All known providers, configured or not
+   */
+  getProviderNames(): LLMProvider[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Circuit breaker state and recent call statistics of configured providers
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.getAvailableProviders().map((provider) =>
+      this.health.get(provider).getHealth()
+    );
+  }
+
+  /**
+   * Configured providers with the models a request may select
+   */
+  getModelOptions(): ProviderModelOptions[] {
+    const defaultModels = getDefaultModels();
+
+    return this.getAvailableProviders().map((provider) => ({
+      provider,
+      isDefault: provider === this.defaultProvider,
+      defaultModel: defaultModels[provider].model,
+      allowedModels: config.llmAllowedModels[provider] || [
+        defaultModels[provider].model,
+      ],
+    }));
+  }
+
+  /**
+   * Check a per-request provider/model selection against the configured
+   * providers and allow-lists. Returns one problem per invalid field.
+   */
+  checkModelSelection(
+    selection: ModelSelection
+  ): { field: string; message: string }[] {
+    const problems: { field: string; message: string }[] = [];
+    const options = this.getModelOptions();
+    const providerName = selection.provider || this.defaultProvider;
+    const providerOptions = options.find(
+      (option) => option.provider === providerName
+    );
+
+    if (!providerOptions) {
+      problems.push({
+        field: "provider",
+        message: `Provider '${providerName}' is not configured. Available providers: ${
+          options.map((option) => option.provider).join(", ") || "none"
+        }`,
+      });
+    } else if (
+      selection.model &&
+      !providerOptions.allowedModels.includes("*") &&
+      !providerOptions.allowedModels.includes(selection.model)
+    ) {
+      problems.push({
+        field: "model",
+        message: `Model '${
+          selection.model
+        }' is not allowed for provider '${providerName}'. Allowed models: ${providerOptions.allowedModels.join(
+          ", "
+        )}`,
+      });
+    }
+
+    if (
+      selection.maxTokens !== undefined &&
+      selection.maxTokens > config.llmMaxTokensLimit
+    ) {
+      problems.push({
+        field: "maxTokens",
+        message: `maxTokens cannot exceed ${config.llmMaxTokensLimit}`,
+      });
+    }
+
+    return problems;
+  }
+
   selectProvider(preferredProvider?: LLMProvider): {
     provider: ILLMProvider;
     providerName: LLMProvider;
@@ -134,6 +273,7 @@ export class LLMClient {
       // If fallback is enabled and error is not from fallback attempt, try other providers
       if (
         config.llmEnableFallback &&
+        request.allowFallback !== false &&
         error instanceof LLMError &&
         !request.isFallbackAttempt
       ) {
@@ -145,18 +285,37 @@ export class LLMClient {
           }
         );
 
+        // Healthiest providers are tried first
         const availableProviders = this.getAvailableProviders();
-        const fallbackProviders = availableProviders.filter(
-          (p) => p !== providerName
+        const fallbackProviders = this.health.rank(
+          availableProviders.filter((p) => p !== providerName)
         );
 
         for (const fallbackProviderName of fallbackProviders) {
+          if (!this.canCallProvider(fallbackProviderName)) {
+            logger.info(
+              `Skipping fallback provider ${fallbackProviderName}: circuit breaker is open`
+            );
+            continue;
+          }
+
           try {
             logger.info(`Trying fallback provider: ${fallbackProviderName}`);
 
             const fallbackProvider = this.providers.get(fallbackProviderName)!;
             const fallbackModel = getDefaultModels()[fallbackProviderName];
 
+            llmFallbacksTotal.inc({
+              from: providerName,
+              to: fallbackProviderName,
+            });
+            request.onRetry?.({
+              provider: fallbackProviderName,
+              attempt: 1,
+              reason: error.message,
+              isFallback: true,
+            });
+
             const fallbackRequest = {
               ...request,
               model: {
@@ -241,14 +400,18 @@ export class LLMClient {
     model: LLMModel,
     request: LLMRequest
   ): Promise<LLMResponse> {
-    // Update request model to match the actual provider being used
+    // Update request model to match the actual provider being used; a model
+    // requested for another provider is replaced by this provider's default
     const updatedRequest: LLMRequest = {
       ...request,
       model: {
         ...model,
         ...request.model,
         provider: providerName,
-        model: model.model, // Ensure we use the correct model ID for the selected provider
+        model:
+          request.model.provider === providerName
+            ? request.model.model
+            : model.model,
       },
     };
 
@@ -265,7 +428,11 @@ export class LLMClient {
           isFallback: request.isFallbackAttempt || false,
         });
 
-        const response = await provider.generateCompletion(updatedRequest);
+        const response = await this.callProvider(
+          provider,
+          providerName,
+          updatedRequest
+        );
 
         if (attempt > 1) {
           logger.info(`LLM completion succeeded after ${attempt} attempts`);
@@ -298,6 +465,15 @@ export class LLMClient {
           const delay = baseDelay * Math.pow(2, attempt - 1);
           logger.info(`Retrying in ${delay}ms...`);
           await new Promise((resolve) => setTimeout(resolve, delay));
+
+          // Let streaming callers discard partial output before the next attempt
+          llmRetriesTotal.inc({ provider: providerName });
+          updatedRequest.onRetry?.({
+            provider: providerName,
+            attempt: attempt + 1,
+            reason: error.message,
+            isFallback: request.isFallbackAttempt || false,
+          });
         } else {
           // Unexpected error, don't retry
           logger.error("Unexpected error during LLM completion", error);
@@ -327,113 +503,212 @@ export class LLMClient {
     );
   }
 
+  /**
+   * Whether the provider's circuit breaker lets calls through (always true
+   * when LLM_BREAKER_ENABLED=false)
+   */
+  private canCallProvider(providerName: LLMProvider): boolean {
+    return (
+      !config.llmBreakerEnabled || this.health.get(providerName).isAvailable()
+    );
+  }
+
+  /**
+   * Send one completion request to a provider, subject to its circuit breaker
+   * and concurrency cap, and record the outcome for the breaker
+   * @throws LLMError (not retryable) when the provider's breaker is open
+   */
+  private async callProvider(
+    provider: ILLMProvider,
+    providerName: LLMProvider,
+    request: LLMRequest
+  ): Promise<LLMResponse> {
+    const breaker = this.health.get(providerName);
+    const labels = {
+      provider: providerName,
+      model: this.getModelLabel(providerName, request.model.model),
+    };
+    const circuitOpenError = () => {
+      llmRequestsTotal.inc({ ...labels, outcome: "circuit_open" });
+      return new LLMError(
+        `Circuit breaker for ${providerName} is open after repeated failures`,
+        providerName,
+        undefined,
+        false
+      );
+    };
+
+    if (!this.canCallProvider(providerName)) {
+      throw circuitOpenError();
+    }
+
+    return this.withProviderSlot(providerName, async () => {
+      // Claimed only once a slot is held, so a half-open trial is never
+      // left waiting in the queue
+      if (!breaker.tryAcquire() && config.llmBreakerEnabled) {
+        throw circuitOpenError();
+      }
+
+      const startedAt = Date.now();
+      try {
+        const response = request.onToken
+          ? await provider.generateCompletionStream(request, request.onToken)
+          : await provider.generateCompletion(request);
+
+        breaker.recordSuccess(Date.now() - startedAt);
+        this.recordCallMetrics(labels, "success", startedAt, response);
+        return response;
+      } catch (error) {
+        // A rejected request (e.g. an unknown model) is not the provider's
+        // fault and must not open the breaker for every other client
+        if (isProviderFailure(error)) {
+          breaker.recordFailure(Date.now() - startedAt);
+        } else {
+          breaker.release();
+        }
+        this.recordCallMetrics(labels, "error", startedAt);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Model name for metric labels. Names only accepted through a "*"
+   * allow-list are reported as "other", so callers cannot create unbounded
+   * label values.
+   */
+  private getModelLabel(providerName: LLMProvider, model: string): string {
+    const knownModels = [
+      getDefaultModels()[providerName].model,
+      ...(config.llmAllowedModels[providerName] || []),
+    ];
+    return knownModels.includes(model) ? model : "other";
+  }
+
+  private recordCallMetrics(
+    labels: { provider: LLMProvider; model: string },
+    outcome: "success" | "error",
+    startedAt: number,
+    response?: LLMResponse
+  ): void {
+    llmRequestsTotal.inc({ ...labels, outcome });
+    llmRequestDuration.observe({ ...labels, outcome }, secondsSince(startedAt));
+
+    if (response?.tokensUsed) {
+      llmTokens.observe(
+        { ...labels, outcome, type: "prompt" },
+        response.tokensUsed.prompt
+      );
+      llmTokens.observe(
+        { ...labels, outcome, type: "completion" },
+        response.tokensUsed.completion
+      );
+    }
+  }
+
+  /**
+   * Run a provider call once one of the provider's concurrency slots is free.
+   * The slot is held for the call only, not during retry backoff.
+   * @throws LLMError when no slot frees up within LLM_QUEUE_TIMEOUT
+   */
+  private async withProviderSlot<T>(
+    providerName: LLMProvider,
+    call: () => Promise<T>
+  ): Promise<T> {
+    let slots = this.providerSlots.get(providerName);
+    if (!slots) {
+      slots = new Semaphore(
+        config.llmProviderConcurrency[providerName] ?? config.llmMaxConcurrency
+      );
+      this.providerSlots.set(providerName, slots);
+    }
+
+    if (slots.isFull()) {
+      logger.info("LLM call queued for a provider slot", {
+        provider: providerName,
+        ...slots.getStats(),
+      });
+    }
+
+    if (!(await slots.acquire(config.llmQueueTimeout))) {
+      // Not retryable, so the request falls back to another provider instead
+      throw new LLMError(
+        `Timed out after ${config.llmQueueTimeout}ms waiting for a free ${providerName} slot`,
+        providerName,
+        undefined,
+        false
+      );
+    }
+
+    try {
+      return await call();
+    } finally {
+      slots.release();
+    }
+  }
+
   // Overloaded method - with analysis
   async generatePlan(
     taskDescription: string,
     analysisResult: AnalysisResponse,
-    options?: {
-      provider?: LLMProvider;
-      model?: Partial<LLMModel>;
-    }
-  ): Promise<string>;
+    options?: GeneratePlanOptions
+  ): Promise<GeneratedPlan>;
 
   // Overloaded method - without analysis
   async generatePlan(
     taskDescription: string,
-    options?: {
-      provider?: LLMProvider;
-      model?: Partial<LLMModel>;
-    }
-  ): Promise<string>;
+    options?: GeneratePlanOptions
+  ): Promise<GeneratedPlan>;
 
   async generatePlan(
     taskDescription: string,
-    analysisResultOrOptions?:
-      | AnalysisResponse
-      | {
-          provider?: LLMProvider;
-          model?: Partial<LLMModel>;
-        },
-    options?: {
-      provider?: LLMProvider;
-      model?: Partial<LLMModel>;
-    }
-  ): Promise<string> {
+    analysisResultOrOptions?: AnalysisResponse | GeneratePlanOptions,
+    options?: GeneratePlanOptions
+  ): Promise<GeneratedPlan> {
     const startTime = Date.now();
 
     // Determine if we have analysis result or just options
     let analysisResult: AnalysisResponse | null = null;
-    let finalOptions: typeof options = options;
+    let finalOptions: GeneratePlanOptions | undefined = options;
 
     if (analysisResultOrOptions && "codebasePath" in analysisResultOrOptions) {
       // First overload - we have analysis result
       analysisResult = analysisResultOrOptions;
     } else {
       // Second overload - no analysis, options passed as second parameter
-      finalOptions = analysisResultOrOptions as typeof options;
+      finalOptions = analysisResultOrOptions as GeneratePlanOptions;
     }
 
     logger.info("Starting plan generation", {
       taskLength: taskDescription.length,
       codebasePath: analysisResult?.codebasePath || "no-codebase",
       hasAnalysis: !!analysisResult,
-      options: finalOptions,
+      provider: finalOptions?.provider,
+      model: finalOptions?.model,
+      template: finalOptions?.template,
+      streaming: !!finalOptions?.onToken,
     });
 
     try {
-      // Select provider
-      const selectedProvider = finalOptions?.provider || this.defaultProvider;
-
-      // Get model configuration
-      const baseModel = getDefaultModels()[selectedProvider];
-      const model: LLMModel = {
-        ...baseModel,
-        ...finalOptions?.model,
-        provider: selectedProvider,
-      };
-
       // Build prompts
-      const systemPrompt = buildSystemPrompt();
+      const template = templateRegistry.get(finalOptions?.template);
+      const systemPrompt = buildSystemPrompt(template);
       const userPrompt = analysisResult
-        ? buildPlanGenerationPrompt(taskDescription, analysisResult)
-        : buildSimplePlanGenerationPrompt(taskDescription);
+        ? buildPlanGenerationPrompt(taskDescription, analysisResult, template)
+        : buildSimplePlanGenerationPrompt(taskDescription, template);
 
-      // Create request
-      const request: LLMRequest = {
-        prompt: userPrompt,
+      const generatedPlan = await this.completePlanPrompt(
         systemPrompt,
-        model,
-        maxRetries: config.llmMaxRetries,
-        retryDelay: config.llmRetryDelay,
-      };
-
-      logger.info("Prompts built", {
-        systemPromptLength: systemPrompt.length,
-        userPromptLength: userPrompt.length,
-        model: model.model,
-      });
-
-      // Generate completion with retry
-      const response = await this.generatePlanWithRetry(request);
-
-      // Parse response
-      const parsedPlan = parsePlanFromResponse(response.content);
-
-      // Validate plan structure
-      const validation = validatePlanStructure(parsedPlan);
-
-      const duration = Date.now() - startTime;
+        userPrompt,
+        finalOptions
+      );
 
       logger.info("Plan generation completed", {
-        duration,
-        provider: response.provider,
-        model: response.model,
-        tokensUsed: response.tokensUsed,
-        planLength: parsedPlan.length,
-        validationResult: validation,
+        duration: Date.now() - startTime,
+        planLength: generatedPlan.plan.length,
       });
 
-      return parsedPlan;
+      return generatedPlan;
     } catch (error) {
       const duration = Date.now() - startTime;
 
@@ -457,49 +732,298 @@ export class LLMClient {
     }
   }
 
-  async testConnection(provider?: LLMProvider): Promise<boolean> {
+  /**
+   * Revise an existing plan according to reviewer feedback
+   */
+  async refinePlan(
+    taskDescription: string,
+    currentPlan: string,
+    feedback: string,
+    options?: GeneratePlanOptions
+  ): Promise<GeneratedPlan> {
+    const startTime = Date.now();
+
+    logger.info("Starting plan refinement", {
+      taskLength: taskDescription.length,
+      planLength: currentPlan.length,
+      feedbackLength: feedback.length,
+      provider: options?.provider,
+      streaming: !!options?.onToken,
+    });
+
+    try {
+      const generatedPlan = await this.completePlanPrompt(
+        buildRefinementSystemPrompt(),
+        buildPlanRefinementPrompt(taskDescription, currentPlan, feedback),
+        options
+      );
+
+      logger.info("Plan refinement completed", {
+        duration: Date.now() - startTime,
+        planLength: generatedPlan.plan.length,
+      });
+
+      return generatedPlan;
+    } catch (error) {
+      logger.error("Plan refinement failed", {
+        duration: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      if (error instanceof LLMError) {
+        throw new Error(
+          `Plan refinement failed (${error.provider}): ${error.message}`
+        );
+      }
+
+      throw new Error(
+        `Plan refinement failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Run a plan prompt through the selected provider (with retry and fallback)
+   * and return the parsed Markdown plan with the provider that produced it
+   */
+  private async completePlanPrompt(
+    systemPrompt: string,
+    userPrompt: string,
+    options?: GeneratePlanOptions
+  ): Promise<GeneratedPlan> {
+    // Select provider
+    const selectedProvider = options?.provider || this.defaultProvider;
+
+    // Get model configuration
+    const baseModel = getDefaultModels()[selectedProvider];
+    const model: LLMModel = {
+      ...baseModel,
+      ...options?.model,
+      provider: selectedProvider,
+    };
+
+    // Retries and fallback switches are reported through onRetry; those of
+    // repair rounds are counted separately
+    let retries = 0;
+    let fallbackUsed = false;
+    let repairRetries = 0;
+
+    // Create request
+    const request: LLMRequest = {
+      prompt: userPrompt,
+      systemPrompt,
+      model,
+      maxRetries: config.llmMaxRetries,
+      retryDelay: config.llmRetryDelay,
+      onToken: options?.onToken,
+      // A provider the caller asked for is never swapped for another
+      allowFallback: !options?.provider,
+      onRetry: (info) => {
+        retries++;
+        fallbackUsed = fallbackUsed || info.isFallback;
+        options?.onRetry?.(info);
+      },
+    };
+
+    logger.info("Prompts built", {
+      systemPromptLength: systemPrompt.length,
+      userPromptLength: userPrompt.length,
+      model: model.model,
+    });
+
+    // Generate completion with retry
+    let response = await this.generatePlanWithRetry(request);
+
+    // Parse response and validate it against the template's rules
+    const rules = templateRegistry.get(options?.template).validation;
+    let parsedPlan = parsePlanFromResponse(response.content, rules);
+    let validation = this.checkPlan(parsedPlan, response, rules);
+
+    // Usage adds up over the first completion and every repair round
+    let tokensUsed = response.tokensUsed;
+    let estimatedCost = estimateCost(response);
+    let repairRounds = 0;
+
+    // Re-prompt with the problems found until the plan passes or attempts run out
+    while (!validation.isValid && repairRounds < config.llmRepairAttempts) {
+      repairRounds++;
+
+      logger.warn("Plan failed validation, requesting repair", {
+        round: repairRounds,
+        maxRounds: config.llmRepairAttempts,
+        issues: validation.issues,
+      });
+
+      options?.onRepair?.({ round: repairRounds, issues: validation.issues });
+
+      let repairResponse: LLMResponse;
+      try {
+        repairResponse = await this.generatePlanWithRetry({
+          ...request,
+          prompt: buildPlanRepairPrompt(
+            userPrompt,
+            parsedPlan,
+            validation.issues
+          ),
+          // Stay with the provider and model that produced the plan
+          model: {
+            ...request.model,
+            provider: response.provider,
+            model: response.model,
+          },
+          allowFallback: false,
+          onRetry: (info) => {
+            repairRetries++;
+            options?.onRetry?.(info);
+          },
+        });
+      } catch (error) {
+        // Keep the plan we have rather than failing the whole generation
+        logger.warn("Plan repair failed, keeping previous plan", {
+          round: repairRounds,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        break;
+      }
+
+      tokensUsed = addTokenUsage(tokensUsed, repairResponse.tokensUsed);
+      estimatedCost = addCost(estimatedCost, estimateCost(repairResponse));
+
+      const repairedPlan = parsePlanFromResponse(repairResponse.content, rules);
+      const repairedValidation = this.checkPlan(
+        repairedPlan,
+        repairResponse,
+        rules
+      );
+
+      // A repair that makes things worse is discarded
+      if (repairedValidation.issues.length > validation.issues.length) {
+        logger.warn("Plan repair did not improve the plan", {
+          round: repairRounds,
+          issues: repairedValidation.issues,
+        });
+        continue;
+      }
+
+      response = repairResponse;
+      parsedPlan = repairedPlan;
+      validation = repairedValidation;
+    }
+
+    logger.info("Plan completion parsed", {
+      provider: response.provider,
+      model: response.model,
+      tokensUsed,
+      estimatedCost,
+      retries,
+      fallbackUsed,
+      repairRounds,
+      repairRetries,
+      planLength: parsedPlan.length,
+      validationResult: validation,
+    });
+
+    return {
+      plan: parsedPlan,
+      provider: response.provider,
+      model: response.model,
+      tokensUsed,
+      finishReason: response.finishReason,
+      fallbackUsed,
+      retries,
+      estimatedCost,
+      validation,
+      repairRounds,
+    };
+  }
+
+  /**
+   * Validate a parsed plan; a completion cut off at the token limit counts
+   * as invalid even when the part received looks well-formed
+   */
+  private checkPlan(
+    plan: string,
+    response: LLMResponse,
+    rules: PlanValidationRules
+  ): PlanValidationResult {
+    const { issues } = validatePlanStructure(plan, rules);
+
+    if (response.finishReason === "length") {
+      issues.push("Plan was cut off at the output token limit");
+    }
+
+    return { isValid: issues.length === 0, issues };
+  }
+
+  /**
+   * Send a short test prompt to one provider, without falling back to others
+   */
+  async checkProvider(providerName: LLMProvider): Promise<ProviderCheckResult> {
+    const startedAt = Date.now();
+
     try {
-      const testModel = getDefaultModels()[provider || this.defaultProvider];
+      const provider = this.providers.get(providerName);
+      if (!provider || !provider.isConfigured()) {
+        throw new Error(`Provider ${providerName} is not configured`);
+      }
+
+      const testModel = getDefaultModels()[providerName];
       const request: LLMRequest = {
         prompt: 'Say "OK" if you can read this',
         model: testModel,
         maxRetries: 1,
         retryDelay: config.llmRetryDelay,
+        isHealthCheck: true,
       };
 
-      await this.generatePlanWithRetry(request);
-      return true;
+      await this.tryProviderWithRetry(
+        provider,
+        providerName,
+        testModel,
+        request
+      );
+      return { working: true, latencyMs: Date.now() - startedAt };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       logger.warn("LLM connection test failed", {
-        provider: provider || this.defaultProvider,
-        error: error instanceof Error ? error.message : String(error),
+        provider: providerName,
+        error: message,
       });
-      return false;
+      return {
+        working: false,
+        latencyMs: Date.now() - startedAt,
+        error: message,
+      };
     }
   }
 
-  async validateProviders(): Promise<{
-    configured: LLMProvider[];
-    working: LLMProvider[];
-    errors: Record<LLMProvider, string>;
-  }> {
+  async testConnection(provider?: LLMProvider): Promise<boolean> {
+    const result = await this.checkProvider(provider || this.defaultProvider);
+    return result.working;
+  }
+
+  async validateProviders(): Promise<ProviderValidation> {
     const configured = this.getAvailableProviders();
     const working: LLMProvider[] = [];
     const errors: Record<LLMProvider, string> = {} as Record<
       LLMProvider,
       string
     >;
+    const latencyMs: Partial<Record<LLMProvider, number>> = {};
 
     logger.info("Validating LLM providers", { configured });
 
     for (const providerName of configured) {
       try {
-        const isWorking = await this.testConnection(providerName);
-        if (isWorking) {
+        const check = await this.checkProvider(providerName);
+        latencyMs[providerName] = check.latencyMs;
+        if (check.working) {
           working.push(providerName);
           logger.info(`Provider ${providerName} validation successful`);
         } else {
-          errors[providerName] = "Connection test failed";
+          errors[providerName] = check.error || "Connection test failed";
           logger.warn(`Provider ${providerName} validation failed`);
         }
       } catch (error) {
@@ -512,7 +1036,7 @@ export class LLMClient {
       }
     }
 
-    const result = { configured, working, errors };
+    const result = { configured, working, errors, latencyMs };
 
     if (working.length === 0) {
       logger.error("No working LLM providers found", result);
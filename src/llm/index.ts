@@ -1,12 +1,14 @@
 import llmClient from "./client";
 
 export {
-    ILLMProvider, LLMError, LLMModel, LLMProvider, LLMRequest,
-    LLMResponse
+    GeneratedPlan, GeneratePlanOptions, ILLMProvider, LLMError, LLMModel, LLMProvider,
+    LLMRepairInfo, LLMRequest, LLMResponse, LLMRetryInfo, ModelSelection,
+    PlanValidationResult, ProviderCheckResult, ProviderModelOptions,
+    ProviderValidation
 } from "./types";
 
 export {
-    extractPhases, parsePlanFromResponse,
+    extractPhases, parsePlanFromResponse, parseStructuredPlan,
     validatePlanStructure
 } from "./parser";
 
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PlanValidationRulesSchema } from "../schemas/template.schema";
+import { parsePlanFromResponse, validatePlanStructure } from "./parser";
+
+const PLAN = `Phase: Reproduce the bug
+- Add a failing test for the empty cart total
+- Check the totals in \`src/cart.ts\`
+Phase: Fix the total
+- Update the total calculation
+- Add a guard for empty carts`;
+
+describe("parsePlanFromResponse", () => {
+  it("drops code fences and preamble and spaces out the phases", () => {
+    const parsed = parsePlanFromResponse(
+      "Here is the plan:\n```markdown\n" + PLAN + "\n```\n"
+    );
+
+    assert.equal(
+      parsed,
+      PLAN.replace("\nPhase: Fix the total", "\n\nPhase: Fix the total")
+    );
+  });
+});
+
+describe("validatePlanStructure", () => {
+  it("accepts a plan that meets the default rules", () => {
+    assert.deepEqual(validatePlanStructure(PLAN), {
+      isValid: true,
+      issues: [],
+    });
+  });
+
+  it("reports every rule of a template the plan breaks", () => {
+    const rules = PlanValidationRulesSchema.parse({
+      maxPhases: 1,
+      minBulletsPerPhase: 3,
+      requiredPhases: ["verify|verification"],
+    });
+
+    assert.deepEqual(validatePlanStructure(PLAN, rules).issues, [
+      "Plan should have at most 1 phases",
+      "Each phase should have at least 3 bullet points on average",
+      'Plan should have a phase about "verify" or "verification"',
+    ]);
+  });
+
+  it("reports plans without phases or actionable steps", () => {
+    const { isValid, issues } = validatePlanStructure(
+      "Think about the problem for a while and then decide."
+    );
+
+    assert.equal(isValid, false);
+    assert.deepEqual(issues, [
+      "Plan should have at least 2 phases",
+      "Plan should have at least 4 bullet points",
+      "Plan should contain actionable language",
+    ]);
+  });
+});
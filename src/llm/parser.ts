@@ -1,6 +1,28 @@
+import {
+  PlanPhase,
+  StructuredPlan,
+} from "../schemas/structuredPlan.schema";
+import {
+  PlanValidationRules,
+  PlanValidationRulesSchema,
+} from "../schemas/template.schema";
 import logger from "../utils/logger";
 
-export function parsePlanFromResponse(content: string): string {
+// Section header introducing a phase's acceptance criteria bullets
+const ACCEPTANCE_HEADER =
+  /^(?:\*\*)?(?:acceptance(?: criteria)?|done when)(?:\*\*)?:(?:\*\*)?\s*(.*)$/i;
+
+// Inline dependency annotation, e.g. "(depends on 1.2, 2.1)"
+const DEPENDS_ON_ANNOTATION = /\s*\((?:depends on|after)\s+([\d.,\s]+)\)\s*/i;
+
+// Thresholds used when no template is given
+export const DEFAULT_VALIDATION_RULES: PlanValidationRules =
+  PlanValidationRulesSchema.parse({});
+
+export function parsePlanFromResponse(
+  content: string,
+  rules: PlanValidationRules = DEFAULT_VALIDATION_RULES
+): string {
   logger.info("Parsing plan from LLM response");
 
   // Clean the response
@@ -26,7 +48,7 @@ export function parsePlanFromResponse(content: string): string {
   cleanedContent = cleanedContent.replace(/\r\n/g, "\n");
 
   // Validate structure
-  const validation = validatePlanStructure(cleanedContent);
+  const validation = validatePlanStructure(cleanedContent, rules);
   if (!validation.isValid) {
     logger.warn("Plan structure validation failed", {
       issues: validation.issues,
@@ -46,32 +68,47 @@ export function parsePlanFromResponse(content: string): string {
   return cleanedContent.trim();
 }
 
-export function validatePlanStructure(plan: string): {
+export function validatePlanStructure(
+  plan: string,
+  rules: PlanValidationRules = DEFAULT_VALIDATION_RULES
+): {
   isValid: boolean;
   issues: string[];
 } {
   const issues: string[] = [];
 
   // Check minimum length
-  if (plan.length < 50) {
-    issues.push("Plan is too short (less than 50 characters)");
+  if (plan.length < rules.minLength) {
+    issues.push(
+      `Plan is too short (less than ${rules.minLength.toLocaleString(
+        "en-US"
+      )} characters)`
+    );
   }
 
   // Check maximum length
-  if (plan.length > 10000) {
-    issues.push("Plan is suspiciously long (more than 10,000 characters)");
+  if (plan.length > rules.maxLength) {
+    issues.push(
+      `Plan is suspiciously long (more than ${rules.maxLength.toLocaleString(
+        "en-US"
+      )} characters)`
+    );
   }
 
   // Check for phase markers
   const phaseMatches = plan.match(/^Phase:/gim);
-  if (!phaseMatches || phaseMatches.length < 2) {
-    issues.push("Plan should have at least 2 phases");
+  const phaseCount = phaseMatches ? phaseMatches.length : 0;
+  if (phaseCount < rules.minPhases) {
+    issues.push(`Plan should have at least ${rules.minPhases} phases`);
+  }
+  if (rules.maxPhases !== undefined && phaseCount > rules.maxPhases) {
+    issues.push(`Plan should have at most ${rules.maxPhases} phases`);
   }
 
   // Check for bullet points
   const bulletMatches = plan.match(/^\s*[-*]/gm);
-  if (!bulletMatches || bulletMatches.length < 4) {
-    issues.push("Plan should have at least 4 bullet points");
+  if ((bulletMatches ? bulletMatches.length : 0) < rules.minBullets) {
+    issues.push(`Plan should have at least ${rules.minBullets} bullet points`);
   }
 
   // Check for actionable language
@@ -92,15 +129,35 @@ export function validatePlanStructure(plan: string): {
     plan.toLowerCase().includes(word)
   );
 
-  if (!hasActionWords) {
+  if (rules.requireActionWords && !hasActionWords) {
     issues.push("Plan should contain actionable language");
   }
 
   // Check phase-to-bullet ratio
   if (phaseMatches && bulletMatches) {
     const avgBulletsPerPhase = bulletMatches.length / phaseMatches.length;
-    if (avgBulletsPerPhase < 2) {
-      issues.push("Each phase should have at least 2 bullet points on average");
+    if (avgBulletsPerPhase < rules.minBulletsPerPhase) {
+      issues.push(
+        `Each phase should have at least ${rules.minBulletsPerPhase} bullet points on average`
+      );
+    }
+  }
+
+  // Check for phases the template requires, e.g. "Testing"
+  const phaseTitles = (plan.match(/^Phase:.*$/gim) || []).map((title) =>
+    title.toLowerCase()
+  );
+  for (const required of rules.requiredPhases) {
+    const keywords = required.toLowerCase().split("|");
+    const found = phaseTitles.some((title) =>
+      keywords.some((keyword) => title.includes(keyword))
+    );
+    if (!found) {
+      issues.push(
+        `Plan should have a phase about ${keywords
+          .map((keyword) => `"${keyword}"`)
+          .join(" or ")}`
+      );
     }
   }
 
@@ -113,10 +170,23 @@ export function validatePlanStructure(plan: string): {
 export function extractPhases(
   plan: string
 ): Array<{ title: string; items: string[] }> {
-  const phases: Array<{ title: string; items: string[] }> = [];
+  return parseStructuredPlan(plan).phases.map((phase) => ({
+    title: phase.title,
+    items: phase.steps.map((step) => step.description),
+  }));
+}
+
+/**
+ * Build the machine-readable plan from the Markdown produced by the LLM.
+ * Phases depend on the phase before them; step dependencies come from
+ * "(depends on 1.2)" annotations in the bullet text.
+ */
+export function parseStructuredPlan(plan: string): StructuredPlan {
+  const phases: PlanPhase[] = [];
   const lines = plan.split("\n");
 
-  let currentPhase: { title: string; items: string[] } | null = null;
+  let currentPhase: PlanPhase | null = null;
+  let inAcceptanceSection = false;
 
   for (const line of lines) {
     const trimmedLine = line.trim();
@@ -124,32 +194,95 @@ export function extractPhases(
     // Check for phase header
     const phaseMatch = trimmedLine.match(/^Phase:\s*(.+)$/i);
     if (phaseMatch) {
-      // Save previous phase if exists
-      if (currentPhase) {
-        phases.push(currentPhase);
-      }
-
-      // Start new phase
+      const order = phases.length + 1;
       currentPhase = {
+        id: String(order),
+        order,
         title: phaseMatch[1].trim(),
-        items: [],
+        steps: [],
+        dependsOn: order > 1 ? [String(order - 1)] : [],
+        acceptanceCriteria: [],
       };
+      phases.push(currentPhase);
+      inAcceptanceSection = false;
+      continue;
+    }
+
+    if (!currentPhase) {
+      continue;
+    }
+
+    // Check for acceptance criteria header (optionally with inline criterion)
+    const acceptanceMatch = trimmedLine.match(ACCEPTANCE_HEADER);
+    if (acceptanceMatch) {
+      inAcceptanceSection = true;
+      if (acceptanceMatch[1]) {
+        currentPhase.acceptanceCriteria.push(acceptanceMatch[1].trim());
+      }
       continue;
     }
 
     // Check for bullet point
     const bulletMatch = trimmedLine.match(/^[-*]\s*(.+)$/);
-    if (bulletMatch && currentPhase) {
-      currentPhase.items.push(bulletMatch[1].trim());
+    if (!bulletMatch) {
+      continue;
     }
+
+    const text = bulletMatch[1].trim();
+
+    if (inAcceptanceSection) {
+      currentPhase.acceptanceCriteria.push(text);
+      continue;
+    }
+
+    const order = currentPhase.steps.length + 1;
+    const dependsMatch = text.match(DEPENDS_ON_ANNOTATION);
+
+    currentPhase.steps.push({
+      id: `${currentPhase.id}.${order}`,
+      order,
+      description: text.replace(DEPENDS_ON_ANNOTATION, " ").trim(),
+      files: extractFilePaths(text),
+      dependsOn: dependsMatch
+        ? dependsMatch[1]
+            .split(",")
+            .map((id) => id.trim())
+            .filter((id) => /^\d+\.\d+$/.test(id))
+        : [],
+    });
   }
 
-  // Add last phase
-  if (currentPhase) {
-    phases.push(currentPhase);
+  const files = Array.from(
+    new Set(
+      phases.flatMap((phase) => phase.steps.flatMap((step) => step.files))
+    )
+  );
+
+  return {
+    version: 1,
+    phases,
+    files,
+  };
+}
+
+/**
+ * Extract backticked file or directory paths from a line of plan text
+ */
+function extractFilePaths(text: string): string[] {
+  const paths: string[] = [];
+
+  for (const match of text.matchAll(/`([^`\s]+)`/g)) {
+    const candidate = match[1];
+    const looksLikePath =
+      (candidate.includes("/") || /\.[a-z0-9]+$/i.test(candidate)) &&
+      !/^https?:/i.test(candidate);
+
+    if (looksLikePath && !paths.includes(candidate)) {
+      paths.push(candidate);
+    }
   }
 
-  return phases;
+  return paths;
 }
 
 function enhanceFormatting(content: string): string {
@@ -0,0 +1,104 @@
+import config from "../config";
+import logger from "../utils/logger";
+import { LLMResponse } from "./types";
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// Published list prices for the default models; override or extend with LLM_PRICE_TABLE
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4-turbo": { prompt: 10, completion: 30 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4": { prompt: 30, completion: 60 },
+  "gpt-3.5-turbo": { prompt: 0.5, completion: 1.5 },
+  "claude-3-opus": { prompt: 15, completion: 75 },
+  "claude-3-sonnet": { prompt: 3, completion: 15 },
+  "claude-3-5-sonnet": { prompt: 3, completion: 15 },
+  "claude-3-haiku": { prompt: 0.25, completion: 1.25 },
+  "deepseek-chat": { prompt: 0.27, completion: 1.1 },
+  "deepseek/deepseek-chat": { prompt: 0.27, completion: 1.1 },
+  "deepseek/deepseek-coder": { prompt: 0.14, completion: 0.28 },
+  "mock-planner": { prompt: 0, completion: 0 },
+};
+
+/**
+ * Find the price for a model: an exact match first, then the longest key the
+ * model name starts with (so dated variants such as "gpt-4o-2024-08-06" match)
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...config.llmPriceTable };
+
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Estimate the cost of a completion in USD, or undefined when the model has no
+ * known price or the provider did not report token usage
+ */
+export function estimateCost(
+  response: Pick<LLMResponse, "model" | "tokensUsed">
+): number | undefined {
+  if (!response.tokensUsed) {
+    return undefined;
+  }
+
+  const price = getModelPrice(response.model);
+  if (!price) {
+    logger.debug("No price configured for model", { model: response.model });
+    return undefined;
+  }
+
+  const cost =
+    (response.tokensUsed.prompt * price.prompt +
+      response.tokensUsed.completion * price.completion) /
+    1_000_000;
+
+  // Round to a millionth of a dollar to avoid floating point noise
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Sum the token usage of two completions; undefined when neither reported any
+ */
+export function addTokenUsage(
+  a: LLMResponse["tokensUsed"],
+  b: LLMResponse["tokensUsed"]
+): LLMResponse["tokensUsed"] {
+  if (!a || !b) {
+    return a || b;
+  }
+
+  return {
+    prompt: a.prompt + b.prompt,
+    completion: a.completion + b.completion,
+    total: a.total + b.total,
+  };
+}
+
+/**
+ * Sum two cost estimates; undefined when neither could be estimated
+ */
+export function addCost(
+  a: number | undefined,
+  b: number | undefined
+): number | undefined {
+  if (a === undefined || b === undefined) {
+    return a ?? b;
+  }
+
+  return Math.round((a + b) * 1_000_000) / 1_000_000;
+}
@@ -1,22 +1,13 @@
+import { PlanTemplate } from "../../schemas/template.schema";
 import { AnalysisResponse } from "../../types";
 
-export function buildSystemPrompt(): string {
-  return `You are an expert software architect and planning assistant.
-
-Your task is to generate high-level implementation plans for coding tasks based on codebase analysis and task descriptions.
-
-Guidelines:
-- Plans should be human-readable, structured in Markdown format
-- Focus on phases, not detailed code implementation
-- Reference specific files and directories from the codebase when relevant
-- Be concise but comprehensive
-- Use clear section headers and bullet points
-- Break down complex tasks into logical phases (3-6 phases typically)
-- Consider the existing codebase structure and patterns`;
+export function buildSystemPrompt(template: PlanTemplate): string {
+  return template.systemPrompt;
 }
 
 export function buildSimplePlanGenerationPrompt(
-  taskDescription: string
+  taskDescription: string,
+  template: PlanTemplate
 ): string {
   return `## Task Description
 
@@ -24,40 +15,17 @@ ${taskDescription}
 
 ## Instructions
 
-Generate a high-level implementation plan with the following structure:
-
-1. Break down the task into logical phases (3-6 phases typically)
-2. For each phase, provide:
-   - A clear phase title
-   - 2-4 bullet points describing the work
-   - Reference specific files or directories when relevant (use backticks for file paths)
-3. Keep descriptions concise and actionable
-4. Focus on WHAT needs to be done, not HOW to implement it
-5. Consider common project structures and patterns
+${buildInstructions(template, [
+  "Consider common project structures and patterns",
+])}
 
-## Expected Output Format
-
-Use this Markdown structure:
-
-\`\`\`
-Phase: [Phase Name]
-
-- [Action item with file reference \`path/to/file.ts\`]
-- [Action item]
-- [Action item]
-
-Phase: [Next Phase Name]
-
-- [Action item]
-- [Action item]
-\`\`\`
-
-Generate the implementation plan now:`;
+${buildOutputFormat(template)}`;
 }
 
 export function buildPlanGenerationPrompt(
   taskDescription: string,
-  analysisResult: AnalysisResponse
+  analysisResult: AnalysisResponse,
+  template: PlanTemplate
 ): string {
   const contextSummary = buildContextSummary(analysisResult);
 
@@ -71,32 +39,38 @@ ${contextSummary}
 
 ## Instructions
 
-Generate a high-level implementation plan with the following structure:
+${buildInstructions(template, [
+  "Consider the existing codebase structure and patterns",
+  "Only reference files and directories that appear in the codebase analysis, or clearly mark new files to be created",
+])}
 
-1. Break down the task into logical phases (3-6 phases typically)
-2. For each phase, provide:
-   - A clear phase title
-   - 2-4 bullet points describing the work
-   - Reference specific files or directories when relevant (use backticks for file paths)
-3. Keep descriptions concise and actionable
-4. Focus on WHAT needs to be done, not HOW to implement it
-5. Consider the existing codebase structure and patterns
+${buildOutputFormat(template)}`;
+}
 
-## Expected Output Format
+/**
+ * Number the template's instructions, followed by instructions that depend on
+ * whether a codebase was analyzed
+ */
+function buildInstructions(
+  template: PlanTemplate,
+  contextInstructions: string[]
+): string {
+  const instructions = [...template.instructions, ...contextInstructions]
+    .map((instruction, index) => `${index + 1}. ${instruction}`)
+    .join("\n");
 
-Use this Markdown structure:
+  return `Generate a high-level implementation plan with the following structure:
 
-\`\`\`
-Phase: [Phase Name]
+${instructions}`;
+}
 
-- [Action item with file reference \`path/to/file.ts\`]
-- [Action item]
-- [Action item]
+function buildOutputFormat(template: PlanTemplate): string {
+  return `## Expected Output Format
 
-Phase: [Next Phase Name]
+Use this Markdown structure:
 
-- [Action item]
-- [Action item]
+\`\`\`
+${template.outputFormat}
 \`\`\`
 
 Generate the implementation plan now:`;
@@ -152,12 +126,33 @@ export function buildContextSummary(analysisResult: AnalysisResponse): string {
   }
 
   // Enhanced context from analyzer (if available)
-  const enhancedContext = (analysisResult as any).context;
-  if (enhancedContext && enhancedContext.insights) {
+  const context = analysisResult.context;
+  if (context?.insights && context.insights.length > 0) {
     contextSummary += `**Architecture Insights:**\n`;
-    enhancedContext.insights.slice(0, 3).forEach((insight: string) => {
+    context.insights.slice(0, 8).forEach((insight) => {
       contextSummary += `- ${insight}\n`;
     });
+    contextSummary += "\n";
+  }
+
+  if (context?.patterns && context.patterns.length > 0) {
+    contextSummary += `**Detected Patterns:**\n`;
+    context.patterns.slice(0, 8).forEach((pattern) => {
+      contextSummary += `- ${pattern}\n`;
+    });
+    contextSummary += "\n";
+  }
+
+  if (context?.fileTree && context.fileTree.length > 0) {
+    contextSummary += `**Files** (reference these paths in the plan):\n`;
+    contextSummary += "```\n";
+    contextSummary += context.fileTree.join("\n");
+    contextSummary += "\n```\n";
+    if (summary.totalFiles > context.fileTree.length) {
+      contextSummary += `_...and ${
+        summary.totalFiles - context.fileTree.length
+      } more files_\n`;
+    }
   }
 
   return contextSummary.trim();
@@ -0,0 +1,43 @@
+export function buildRefinementSystemPrompt(): string {
+  return `You are an expert software architect and planning assistant.
+
+Your task is to revise an existing high-level implementation plan according to reviewer feedback.
+
+Guidelines:
+- Apply the feedback precisely and keep everything it does not mention unchanged
+- Keep the plan human-readable, structured in Markdown format
+- Keep the same phase format so the plan can still be parsed
+- Renumber phases and update "(depends on X.Y)" references when phases or steps move
+- Return the complete revised plan, not only the changed parts`;
+}
+
+export function buildPlanRefinementPrompt(
+  taskDescription: string,
+  currentPlan: string,
+  feedback: string
+): string {
+  return `## Task Description
+
+${taskDescription}
+
+## Current Plan
+
+${currentPlan}
+
+## Feedback
+
+${feedback}
+
+## Instructions
+
+Revise the current plan so that it addresses the feedback:
+
+1. Change only what the feedback asks for, keeping other phases and steps as they are
+2. Keep the "Phase: [Phase Name]" headers, bullet points and "Acceptance criteria:" lists
+3. Reference specific files or directories with backticks, as in the current plan
+4. When a step needs an earlier step finished first, append "(depends on X.Y)", where X is the phase number and Y the step number
+
+Output only the complete revised plan in Markdown, without commentary about the changes.
+
+Generate the revised plan now:`;
+}
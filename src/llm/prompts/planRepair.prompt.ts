@@ -0,0 +1,27 @@
+export function buildPlanRepairPrompt(
+  originalPrompt: string,
+  previousPlan: string,
+  issues: string[]
+): string {
+  return `${originalPrompt}
+
+---
+
+## Previous Attempt
+
+${previousPlan}
+
+## Problems Found
+
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+## Repair Instructions
+
+The previous attempt does not meet the required plan structure. Write a corrected plan that fixes every problem listed above:
+
+1. Keep the parts of the previous attempt that are correct
+2. Follow the expected output format exactly, including the "Phase: [Phase Name]" headers
+3. If the previous attempt was cut off, write the complete plan more concisely so that it fits
+
+Output only the complete corrected plan in Markdown, without commentary about the changes.`;
+}
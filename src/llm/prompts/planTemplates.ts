@@ -0,0 +1,231 @@
+import {
+  PlanTemplate,
+  PlanValidationRulesSchema,
+} from "../../schemas/template.schema";
+
+const PHASE_FORMAT_INSTRUCTION = `For each phase, provide:
+   - A clear phase title
+   - 2-4 bullet points describing the work
+   - Reference specific files or directories when relevant (use backticks for file paths)
+   - When a step needs an earlier step finished first, append "(depends on X.Y)", where X is the phase number and Y the step number
+   - An "Acceptance criteria:" list describing how to verify the phase is done`;
+
+const PHASE_OUTPUT_FORMAT = `Phase: [Phase Name]
+
+- [Action item with file reference \`path/to/file.ts\`]
+- [Action item]
+- [Action item] (depends on 1.1)
+
+Acceptance criteria:
+- [Verifiable outcome]
+
+Phase: [Next Phase Name]
+
+- [Action item]
+- [Action item] (depends on 1.3)
+
+Acceptance criteria:
+- [Verifiable outcome]`;
+
+// General-purpose plan, used when a request names no template
+const defaultTemplate: PlanTemplate = {
+  name: "default",
+  description: "High-level implementation plan in 3-6 phases",
+  systemPrompt: `You are an expert software architect and planning assistant.
+
+Your task is to generate high-level implementation plans for coding tasks based on codebase analysis and task descriptions.
+
+Guidelines:
+- Plans should be human-readable, structured in Markdown format
+- Focus on phases, not detailed code implementation
+- Reference specific files and directories from the codebase when relevant
+- Be concise but comprehensive
+- Use clear section headers and bullet points
+- Break down complex tasks into logical phases (3-6 phases typically)
+- Consider the existing codebase structure and patterns`,
+  instructions: [
+    "Break down the task into logical phases (3-6 phases typically)",
+    PHASE_FORMAT_INSTRUCTION,
+    "Keep descriptions concise and actionable",
+    "Focus on WHAT needs to be done, not HOW to implement it",
+  ],
+  outputFormat: PHASE_OUTPUT_FORMAT,
+  validation: PlanValidationRulesSchema.parse({}),
+};
+
+// Short checklist for a focused bug fix
+const bugfixTemplate: PlanTemplate = {
+  name: "bugfix",
+  description: "Quick checklist: reproduce, fix and verify a bug",
+  systemPrompt: `You are an experienced software engineer triaging and fixing a bug.
+
+Your task is to produce a short, practical checklist for fixing the described bug.
+
+Guidelines:
+- Plans should be human-readable, structured in Markdown format
+- Keep the plan small: a bug fix rarely needs more than three phases
+- Start by reproducing the bug and locating its root cause
+- Prefer the smallest change that fixes the root cause
+- Finish with a regression test and verification steps`,
+  instructions: [
+    'Use two or three phases, typically "Reproduce", "Fix" and "Verify"',
+    PHASE_FORMAT_INSTRUCTION,
+    "Name the suspected files or functions when they are known",
+    "Include a regression test in the verification phase",
+  ],
+  outputFormat: `Phase: Reproduce
+
+- [Steps that trigger the bug]
+- [Locate the root cause in \`path/to/file.ts\`]
+
+Acceptance criteria:
+- [The bug is reproduced reliably]
+
+Phase: Fix
+
+- [Smallest change that fixes the root cause] (depends on 1.2)
+
+Acceptance criteria:
+- [Verifiable outcome]
+
+Phase: Verify
+
+- [Add a regression test]
+- [Re-run the reproduction steps]
+
+Acceptance criteria:
+- [The regression test fails before and passes after the fix]`,
+  validation: PlanValidationRulesSchema.parse({
+    minLength: 30,
+    minPhases: 1,
+    maxPhases: 3,
+    minBullets: 3,
+    minBulletsPerPhase: 1,
+    requiredPhases: ["verify|verification"],
+  }),
+};
+
+// Full feature plan including design, risks and testing
+const featureTemplate: PlanTemplate = {
+  name: "feature",
+  description: "Full feature plan with design, risks, testing and rollout",
+  systemPrompt: `You are an expert software architect and planning assistant.
+
+Your task is to produce a complete implementation plan for a new feature, ready for review by a team.
+
+Guidelines:
+- Plans should be human-readable, structured in Markdown format
+- Cover design, implementation, risks, testing and rollout
+- Reference specific files and directories from the codebase when relevant
+- Call out risks, open questions and their mitigations explicitly
+- Consider the existing codebase structure and patterns`,
+  instructions: [
+    "Break down the feature into logical phases (4-8 phases typically)",
+    PHASE_FORMAT_INSTRUCTION,
+    'Include a "Risks" phase listing risks, open questions and mitigations',
+    'Include a "Testing" phase covering unit, integration and manual testing',
+    "End with a rollout phase (feature flags, migrations, documentation) when relevant",
+  ],
+  outputFormat: `Phase: Design
+
+- [Data model or API change with file reference \`path/to/file.ts\`]
+- [Action item]
+
+Acceptance criteria:
+- [Verifiable outcome]
+
+Phase: Implementation
+
+- [Action item] (depends on 1.1)
+- [Action item]
+
+Acceptance criteria:
+- [Verifiable outcome]
+
+Phase: Risks
+
+- [Risk or open question and its mitigation]
+
+Acceptance criteria:
+- [Each risk has an owner or mitigation]
+
+Phase: Testing
+
+- [Unit tests for ...] (depends on 2.1)
+- [Integration or manual test]
+
+Acceptance criteria:
+- [Verifiable outcome]`,
+  validation: PlanValidationRulesSchema.parse({
+    minLength: 200,
+    minPhases: 4,
+    minBullets: 8,
+    requiredPhases: ["risk", "test"],
+  }),
+};
+
+// Incremental refactor or migration that keeps the system working
+const refactorTemplate: PlanTemplate = {
+  name: "refactor",
+  description: "Incremental refactor or migration plan with rollback",
+  systemPrompt: `You are an expert software architect planning a refactor or migration.
+
+Your task is to produce an incremental plan that keeps the system working after every phase.
+
+Guidelines:
+- Plans should be human-readable, structured in Markdown format
+- Prefer small, independently releasable steps over a big-bang rewrite
+- Establish a safety net (tests, metrics) before changing behaviour
+- Reference specific files and directories from the codebase when relevant
+- Describe how to roll back each risky step`,
+  instructions: [
+    "Break down the refactor into incremental phases (3-6 phases typically), each leaving the system releasable",
+    PHASE_FORMAT_INSTRUCTION,
+    "Start with a phase that adds tests or other safety nets around the code being changed",
+    'Include a "Rollback" phase or rollback notes for risky steps',
+    "End with a cleanup phase that removes old code paths and compatibility shims",
+  ],
+  outputFormat: `Phase: Safety Net
+
+- [Add tests around \`path/to/module.ts\`]
+- [Action item]
+
+Acceptance criteria:
+- [Existing behaviour is covered by tests]
+
+Phase: Migrate [Component]
+
+- [Action item] (depends on 1.1)
+- [Action item]
+
+Acceptance criteria:
+- [Verifiable outcome]
+
+Phase: Rollback
+
+- [How to revert the risky steps]
+
+Acceptance criteria:
+- [Rollback was rehearsed]
+
+Phase: Cleanup
+
+- [Remove the old code path]
+
+Acceptance criteria:
+- [Verifiable outcome]`,
+  validation: PlanValidationRulesSchema.parse({
+    minPhases: 3,
+    minBullets: 5,
+    requiredPhases: ["rollback"],
+  }),
+};
+
+export const BUILT_IN_TEMPLATES: PlanTemplate[] = [
+  defaultTemplate,
+  bugfixTemplate,
+  featureTemplate,
+  refactorTemplate,
+];
+
+export const DEFAULT_TEMPLATE_NAME = defaultTemplate.name;
@@ -4,21 +4,21 @@ import logger from "../../utils/logger";
 import { ILLMProvider, LLMError, LLMRequest, LLMResponse } from "../types";
 
 export class DeepSeekProvider implements ILLMProvider {
-  private client: OpenAI;
+  private client: OpenAI | null = null;
 
   constructor() {
     // DeepSeek via OpenRouter uses OpenAI-compatible API
-    this.client = new OpenAI({
-      apiKey: config.deepseekApiKey, // Use your OPENROUTER_API_KEY here
-      baseURL: "https://openrouter.ai/api/v1", // OpenRouter endpoint
-      defaultHeaders: {
-        "HTTP-Referer": config.appUrl || "https://your-app-domain.com",
-        "X-Title": "LLM Client",
-      },
-      dangerouslyAllowBrowser: false,
-    });
-
+    // The SDK throws without a key, so the client is only created when configured
     if (this.isConfigured()) {
+      this.client = new OpenAI({
+        apiKey: config.deepseekApiKey, // Use your OPENROUTER_API_KEY here
+        baseURL: config.deepseekBaseUrl, // OpenRouter endpoint by default
+        defaultHeaders: {
+          "HTTP-Referer": config.appUrl || "https://your-app-domain.com",
+          "X-Title": "LLM Client",
+        },
+        dangerouslyAllowBrowser: false,
+      });
       logger.info("DeepSeek (OpenRouter) provider initialized successfully");
     } else {
       logger.warn(
@@ -46,19 +46,7 @@ export class DeepSeekProvider implements ILLMProvider {
     }
 
     try {
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-
-      if (request.systemPrompt) {
-        messages.push({
-          role: "system",
-          content: request.systemPrompt,
-        });
-      }
-
-      messages.push({
-        role: "user",
-        content: request.prompt,
-      });
+      const messages = this.buildMessages(request);
 
       logger.debug("DeepSeek (OpenRouter) request", {
         model: request.model.model,
@@ -67,7 +55,7 @@ export class DeepSeekProvider implements ILLMProvider {
         temperature: request.model.temperature,
       });
 
-      const completion = await this.client.chat.completions.create({
+      const completion = await this.client!.chat.completions.create({
         model: request.model.model || "deepseek/deepseek-coder",
         messages,
         max_tokens: request.model.maxTokens || 2048,
@@ -105,23 +93,123 @@ export class DeepSeekProvider implements ILLMProvider {
         finishReason: completion.choices[0]?.finish_reason || undefined,
       };
     } catch (error: any) {
-      const status = error?.response?.status || error?.status;
-      const message =
-        error?.response?.data?.error?.message || error.message || "Unknown error";
-
-      logger.error("DeepSeek (OpenRouter) error", {
-        status,
-        message,
-        retryable: this.isRetryableError(status),
-      });
+      this.handleError(error);
+    }
+  }
 
+  async generateCompletionStream(
+    request: LLMRequest,
+    onToken: (token: string) => void
+  ): Promise<LLMResponse> {
+    if (!this.isConfigured()) {
       throw new LLMError(
-        `DeepSeek (OpenRouter) API error: ${status} ${message}`,
+        "DeepSeek (OpenRouter) API key not configured",
         "deepseek",
-        status,
-        this.isRetryableError(status)
+        undefined,
+        false
       );
     }
+
+    try {
+      const stream = await this.client!.chat.completions.create({
+        model: request.model.model || "deepseek/deepseek-coder",
+        messages: this.buildMessages(request),
+        max_tokens: request.model.maxTokens || 2048,
+        temperature: request.model.temperature || 0.7,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      let content = "";
+      let model = request.model.model;
+      let finishReason: string | undefined;
+      let usage: OpenAI.Completions.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+        model = chunk.model || model;
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+        usage = chunk.usage || usage;
+      }
+
+      if (!content) {
+        throw new LLMError(
+          "No content returned from DeepSeek (OpenRouter) stream",
+          "deepseek",
+          undefined,
+          true
+        );
+      }
+
+      logger.debug("DeepSeek (OpenRouter) stream finished", {
+        model,
+        finishReason,
+        tokensUsed: usage,
+      });
+
+      return {
+        content,
+        provider: "deepseek",
+        model,
+        tokensUsed: usage
+          ? {
+              prompt: usage.prompt_tokens,
+              completion: usage.completion_tokens,
+              total: usage.total_tokens,
+            }
+          : undefined,
+        finishReason,
+      };
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
+  private buildMessages(
+    request: LLMRequest
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+
+    if (request.systemPrompt) {
+      messages.push({
+        role: "system",
+        content: request.systemPrompt,
+      });
+    }
+
+    messages.push({
+      role: "user",
+      content: request.prompt,
+    });
+
+    return messages;
+  }
+
+  private handleError(error: any): never {
+    if (error instanceof LLMError) {
+      throw error;
+    }
+
+    const status = error?.response?.status || error?.status;
+    const message =
+      error?.response?.data?.error?.message || error.message || "Unknown error";
+
+    logger.error("DeepSeek (OpenRouter) error", {
+      status,
+      message,
+      retryable: this.isRetryableError(status),
+    });
+
+    throw new LLMError(
+      `DeepSeek (OpenRouter) API error: ${status} ${message}`,
+      "deepseek",
+      status,
+      this.isRetryableError(status)
+    );
   }
 
   private isRetryableError(status: number): boolean {
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { LLMError, LLMRequest } from "../types";
+import type { LocalProvider } from "./local.provider";
+
+describe("LocalProvider streaming", () => {
+  let server: Server;
+  let provider: LocalProvider;
+  // Chunks the fake server streams for the next completion request
+  let chunks: object[] = [];
+  let requestBody: any;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (data) => (body += data));
+      req.on("end", () => {
+        requestBody = JSON.parse(body);
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        for (const chunk of chunks) {
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+        res.end("data: [DONE]\n\n");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    // Config is read on import
+    const { port } = server.address() as AddressInfo;
+    process.env.PORT = "0";
+    process.env.LOCAL_LLM_BASE_URL = `http://127.0.0.1:${port}/v1`;
+    const { LocalProvider } = await import("./local.provider");
+    provider = new LocalProvider();
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const buildChunk = (delta: { content?: string }) => ({
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "llama3:8b",
+    choices: [{ index: 0, delta, finish_reason: null }],
+  });
+
+  const request: LLMRequest = {
+    prompt: "Plan a login page",
+    systemPrompt: "You are a planner",
+    model: {
+      provider: "local",
+      model: "llama3",
+      maxTokens: 100,
+      temperature: 0,
+    },
+  };
+
+  it("passes each streamed token on and returns the full completion", async () => {
+    chunks = [
+      buildChunk({ content: "Phase: " }),
+      buildChunk({ content: "Build" }),
+      buildChunk({ content: " the form" }),
+      {
+        ...buildChunk({}),
+        choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+        usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+      },
+    ];
+    const tokens: string[] = [];
+
+    const response = await provider.generateCompletionStream(request, (token) =>
+      tokens.push(token)
+    );
+
+    assert.equal(requestBody.stream, true);
+    assert.deepEqual(tokens, ["Phase: ", "Build", " the form"]);
+    assert.deepEqual(response, {
+      content: "Phase: Build the form",
+      provider: "local",
+      model: "llama3:8b",
+      tokensUsed: { prompt: 12, completion: 4, total: 16 },
+      finishReason: "stop",
+    });
+  });
+
+  it("fails with a retryable error when the stream has no content", async () => {
+    chunks = [buildChunk({})];
+
+    await assert.rejects(
+      provider.generateCompletionStream(request, () => undefined),
+      (error: unknown) => error instanceof LLMError && error.retryable
+    );
+  });
+});
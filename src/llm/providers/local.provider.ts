@@ -0,0 +1,234 @@
+import OpenAI from "openai";
+import config from "../../config";
+import logger from "../../utils/logger";
+import { ILLMProvider, LLMError, LLMRequest, LLMResponse } from "../types";
+
+// Self-hosted servers usually ignore the key, but the SDK requires a value
+const PLACEHOLDER_API_KEY = "not-needed";
+
+/**
+ * Provider for any server exposing an OpenAI-compatible /v1/chat/completions
+ * endpoint, such as Ollama, llama.cpp or vLLM
+ */
+export class LocalProvider implements ILLMProvider {
+  private client: OpenAI | null = null;
+
+  constructor() {
+    if (this.isConfigured()) {
+      this.client = new OpenAI({
+        apiKey: config.localLlmApiKey || PLACEHOLDER_API_KEY,
+        baseURL: config.localLlmBaseUrl,
+        dangerouslyAllowBrowser: false,
+      });
+      logger.info("Local provider initialized successfully", {
+        baseUrl: config.localLlmBaseUrl,
+        model: config.localLlmModel,
+      });
+    } else {
+      logger.warn("Local provider initialized but base URL not configured");
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!config.localLlmBaseUrl;
+  }
+
+  getProviderName(): "local" {
+    return "local";
+  }
+
+  async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+    const client = this.getClient();
+
+    try {
+      const completion = await client.chat.completions.create({
+        model: request.model.model,
+        messages: this.buildMessages(request),
+        max_tokens: request.model.maxTokens,
+        temperature: request.model.temperature,
+        stream: false,
+      });
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        throw new LLMError(
+          "No content returned from local model server",
+          "local",
+          undefined,
+          true
+        );
+      }
+
+      const llmResponse: LLMResponse = {
+        content,
+        provider: "local",
+        model: completion.model || request.model.model,
+        tokensUsed: completion.usage
+          ? {
+              prompt: completion.usage.prompt_tokens,
+              completion: completion.usage.completion_tokens,
+              total: completion.usage.total_tokens,
+            }
+          : undefined,
+        finishReason: completion.choices[0]?.finish_reason || undefined,
+      };
+
+      logger.info("Local completion successful", {
+        model: llmResponse.model,
+        tokensUsed: llmResponse.tokensUsed,
+        finishReason: llmResponse.finishReason,
+      });
+
+      return llmResponse;
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
+  async generateCompletionStream(
+    request: LLMRequest,
+    onToken: (token: string) => void
+  ): Promise<LLMResponse> {
+    const client = this.getClient();
+
+    try {
+      const stream = await client.chat.completions.create({
+        model: request.model.model,
+        messages: this.buildMessages(request),
+        max_tokens: request.model.maxTokens,
+        temperature: request.model.temperature,
+        stream: true,
+      });
+
+      let content = "";
+      let model = request.model.model;
+      let finishReason: string | undefined;
+      let usage: OpenAI.Completions.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+        model = chunk.model || model;
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+        usage = chunk.usage || usage;
+      }
+
+      if (!content) {
+        throw new LLMError(
+          "No content returned from local model server stream",
+          "local",
+          undefined,
+          true
+        );
+      }
+
+      logger.info("Local streaming completion successful", {
+        model,
+        finishReason,
+      });
+
+      return {
+        content,
+        provider: "local",
+        model,
+        tokensUsed: usage
+          ? {
+              prompt: usage.prompt_tokens,
+              completion: usage.completion_tokens,
+              total: usage.total_tokens,
+            }
+          : undefined,
+        finishReason,
+      };
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new LLMError(
+        "Local model server base URL not configured",
+        "local",
+        undefined,
+        false
+      );
+    }
+    return this.client;
+  }
+
+  private buildMessages(
+    request: LLMRequest
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+
+    if (request.systemPrompt) {
+      messages.push({
+        role: "system",
+        content: request.systemPrompt,
+      });
+    }
+
+    messages.push({
+      role: "user",
+      content: request.prompt,
+    });
+
+    return messages;
+  }
+
+  private handleError(error: any): never {
+    if (error instanceof LLMError) {
+      throw error;
+    }
+
+    // Server reachable and answered with an error status
+    if (error instanceof OpenAI.APIError && error.status) {
+      const statusCode = error.status;
+      const retryable =
+        statusCode === 408 || statusCode === 429 || statusCode >= 500;
+
+      logger.error("Local model server error", {
+        status: statusCode,
+        message: error.message,
+        retryable,
+      });
+
+      throw new LLMError(
+        `Local model server error: ${error.message}`,
+        "local",
+        statusCode,
+        retryable
+      );
+    }
+
+    // Connection refused/reset or timeouts: the server may still be starting
+    if (error instanceof OpenAI.APIConnectionError) {
+      logger.error("Local model server unreachable", {
+        baseUrl: config.localLlmBaseUrl,
+        message: error.message,
+      });
+
+      throw new LLMError(
+        `Local model server unreachable at ${config.localLlmBaseUrl}: ${error.message}`,
+        "local",
+        undefined,
+        true
+      );
+    }
+
+    logger.error("Unexpected error in local provider", error);
+    throw new LLMError(
+      `Unexpected error: ${error.message}`,
+      "local",
+      undefined,
+      false
+    );
+  }
+}
+
+// Export singleton
+export default new LocalProvider();
@@ -0,0 +1,297 @@
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import config from "../../config";
+import logger from "../../utils/logger";
+import {
+  ILLMProvider,
+  LLMError,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+} from "../types";
+
+/**
+ * Outcomes the mock can simulate, consumed one per completion call
+ */
+export type MockOutcome =
+  | "success"
+  | "rate_limit" // 429, retryable
+  | "server_error" // 500, retryable
+  | "overloaded" // 503, retryable
+  | "auth_error" // 401, not retryable
+  | "truncated"; // success with finish_reason "length"
+
+const MOCK_OUTCOMES: MockOutcome[] = [
+  "success",
+  "rate_limit",
+  "server_error",
+  "overloaded",
+  "auth_error",
+  "truncated",
+];
+
+/**
+ * Deterministic offline provider that returns canned or fixture-driven plans.
+ * It can stand in for any provider name so that retry and fallback between
+ * providers can be exercised without network access.
+ */
+export class MockProvider implements ILLMProvider {
+  private name: LLMProvider;
+  private scenario: MockOutcome[];
+  private callCount = 0;
+  private fixtures: string[];
+
+  constructor(name: LLMProvider = "mock") {
+    this.name = name;
+    this.scenario = this.loadScenario();
+    this.fixtures = this.loadFixtures();
+
+    if (this.isConfigured()) {
+      logger.info(`Mock provider initialized as "${name}"`, {
+        scenario: this.scenario,
+        fixtures: this.fixtures.length,
+        latency: config.mockLlmLatency,
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return config.mockLlmEnabled && config.mockLlmProviders.includes(this.name);
+  }
+
+  getProviderName(): LLMProvider {
+    return this.name;
+  }
+
+  async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+    const { content, finishReason } = await this.resolveCompletion(request);
+    return this.buildResponse(request, content, finishReason);
+  }
+
+  async generateCompletionStream(
+    request: LLMRequest,
+    onToken: (token: string) => void
+  ): Promise<LLMResponse> {
+    const { content, finishReason } = await this.resolveCompletion(request, {
+      streaming: true,
+    });
+
+    // Emit word-sized chunks, spreading the configured latency across them
+    const tokens = content.match(/\S+\s*|\s+/g) || [];
+    const tokenDelay = request.isHealthCheck
+      ? 0
+      : Math.floor(config.mockLlmLatency / Math.max(tokens.length, 1));
+
+    for (const token of tokens) {
+      if (tokenDelay > 0) {
+        await this.sleep(tokenDelay);
+      }
+      onToken(token);
+    }
+
+    return this.buildResponse(request, content, finishReason);
+  }
+
+  /**
+   * Apply the next scenario outcome: throw a simulated error or return content
+   */
+  private async resolveCompletion(
+    request: LLMRequest,
+    options: { streaming?: boolean } = {}
+  ): Promise<{ content: string; finishReason: string }> {
+    if (!this.isConfigured()) {
+      throw new LLMError(
+        "Mock provider is not enabled",
+        this.name,
+        undefined,
+        false
+      );
+    }
+
+    // Health checks never consume scenario outcomes or wait
+    if (request.isHealthCheck) {
+      return { content: "OK", finishReason: "stop" };
+    }
+
+    const outcome = this.nextOutcome();
+
+    logger.debug("Mock completion", {
+      provider: this.name,
+      call: this.callCount,
+      outcome,
+    });
+
+    // Streaming spreads the latency across tokens instead
+    if (!options.streaming && config.mockLlmLatency > 0) {
+      await this.sleep(config.mockLlmLatency);
+    }
+
+    switch (outcome) {
+      case "rate_limit":
+        throw new LLMError(
+          "Mock API error: 429 Rate limit exceeded",
+          this.name,
+          429,
+          true
+        );
+      case "server_error":
+        throw new LLMError(
+          "Mock API error: 500 Internal server error",
+          this.name,
+          500,
+          true
+        );
+      case "overloaded":
+        throw new LLMError(
+          "Mock API error: 503 Service unavailable",
+          this.name,
+          503,
+          true
+        );
+      case "auth_error":
+        throw new LLMError(
+          "Mock API error: 401 Invalid API key (authentication failed)",
+          this.name,
+          401,
+          false
+        );
+      case "truncated": {
+        const content = this.selectPlan(request);
+        return {
+          content: content.slice(0, Math.ceil(content.length / 2)),
+          finishReason: "length",
+        };
+      }
+      default:
+        return { content: this.selectPlan(request), finishReason: "stop" };
+    }
+  }
+
+  private nextOutcome(): MockOutcome {
+    const outcome = this.scenario[this.callCount] || "success";
+    this.callCount++;
+    return outcome;
+  }
+
+  private buildResponse(
+    request: LLMRequest,
+    content: string,
+    finishReason: string
+  ): LLMResponse {
+    // Rough token estimate (~4 characters per token) keeps usage deterministic
+    const promptTokens = Math.ceil(
+      ((request.systemPrompt || "").length + request.prompt.length) / 4
+    );
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model.model,
+      tokensUsed: {
+        prompt: promptTokens,
+        completion: completionTokens,
+        total: promptTokens + completionTokens,
+      },
+      finishReason,
+    };
+  }
+
+  /**
+   * Pick a fixture by hashing the prompt, or build the canned plan
+   */
+  private selectPlan(request: LLMRequest): string {
+    if (this.fixtures.length > 0) {
+      const hash = createHash("sha256").update(request.prompt).digest();
+      return this.fixtures[hash.readUInt32BE(0) % this.fixtures.length];
+    }
+
+    return buildCannedPlan(extractTaskDescription(request.prompt));
+  }
+
+  private loadScenario(): MockOutcome[] {
+    const rawScenario =
+      config.mockLlmScenarios[this.name] ||
+      config.mockLlmScenarios.default ||
+      [];
+
+    return rawScenario.filter((outcome): outcome is MockOutcome => {
+      const known = MOCK_OUTCOMES.includes(outcome as MockOutcome);
+      if (!known) {
+        logger.warn(`Ignoring unknown mock outcome "${outcome}"`, {
+          provider: this.name,
+          known: MOCK_OUTCOMES,
+        });
+      }
+      return known;
+    });
+  }
+
+  private loadFixtures(): string[] {
+    const fixturesDir = config.mockLlmFixturesDir;
+    if (!fixturesDir || !this.isConfigured()) {
+      return [];
+    }
+
+    try {
+      return readdirSync(fixturesDir)
+        .filter((file) => /\.(md|txt)$/i.test(file))
+        .sort()
+        .map((file) => readFileSync(path.join(fixturesDir, file), "utf-8"));
+    } catch (error) {
+      logger.warn("Failed to load mock plan fixtures, using canned plan", {
+        fixturesDir,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Pull the task text out of the plan generation prompt
+ */
+function extractTaskDescription(prompt: string): string {
+  const match = prompt.match(/## Task Description\s+([\s\S]*?)(?:\n## |$)/);
+  const task = (match ? match[1] : prompt).trim().split("\n")[0];
+  return task.length > 80 ? `${task.slice(0, 77)}...` : task;
+}
+
+/**
+ * Canned plan in the format the prompts ask for; passes structure validation
+ */
+function buildCannedPlan(task: string): string {
+  return `Phase: Analyze requirements
+
+- Review the task: ${task}
+- Identify affected modules under \`src/\`
+- Document open questions and assumptions
+
+Acceptance criteria:
+- Scope and affected files are listed
+
+Phase: Implement changes
+
+- Create or update the core logic in \`src/index.ts\` (depends on 1.2)
+- Add configuration options in \`src/config/index.ts\`
+- Integrate the change with existing routes and services
+
+Acceptance criteria:
+- Feature works end to end in development
+
+Phase: Verify and document
+
+- Add tests covering the new behaviour (depends on 2.1)
+- Update \`README.md\` with usage notes
+
+Acceptance criteria:
+- Tests pass and documentation is updated`;
+}
+
+// Default mock instance registered under the "mock" provider name
+export default new MockProvider("mock");
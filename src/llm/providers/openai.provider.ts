@@ -4,15 +4,15 @@ import logger from "../../utils/logger";
 import { ILLMProvider, LLMError, LLMRequest, LLMResponse } from "../types";
 
 export class OpenAIProvider implements ILLMProvider {
-  private client: OpenAI;
+  private client: OpenAI | null = null;
 
   constructor() {
-    this.client = new OpenAI({
-      apiKey: config.openaiApiKey,
-      dangerouslyAllowBrowser: false,
-    });
-
+    // The SDK throws without a key, so the client is only created when configured
     if (this.isConfigured()) {
+      this.client = new OpenAI({
+        apiKey: config.openaiApiKey,
+        dangerouslyAllowBrowser: false,
+      });
       logger.info("OpenAI provider initialized successfully");
     } else {
       logger.warn("OpenAI provider initialized but API key not configured");
@@ -38,25 +38,10 @@ export class OpenAIProvider implements ILLMProvider {
     }
 
     try {
-      // Build messages array
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-
-      if (request.systemPrompt) {
-        messages.push({
-          role: "system",
-          content: request.systemPrompt,
-        });
-      }
-
-      messages.push({
-        role: "user",
-        content: request.prompt,
-      });
-
       // Call OpenAI API
-      const response = await this.client.chat.completions.create({
+      const response = await this.client!.chat.completions.create({
         model: request.model.model,
-        messages,
+        messages: this.buildMessages(request),
         max_tokens: request.model.maxTokens,
         temperature: request.model.temperature,
       });
@@ -95,44 +80,144 @@ export class OpenAIProvider implements ILLMProvider {
 
       return llmResponse;
     } catch (error: any) {
-      // Handle OpenAI API errors
-      if (error instanceof OpenAI.APIError) {
-        const statusCode = error.status;
-        let retryable = false;
-
-        // Determine if error is retryable
-        if (
-          statusCode === 429 ||
-          statusCode === 500 ||
-          statusCode === 502 ||
-          statusCode === 503
-        ) {
-          retryable = true;
-        }
+      this.handleError(error);
+    }
+  }
 
-        logger.error("OpenAI API error", {
-          status: statusCode,
-          message: error.message,
-          retryable,
-        });
+  async generateCompletionStream(
+    request: LLMRequest,
+    onToken: (token: string) => void
+  ): Promise<LLMResponse> {
+    if (!this.isConfigured()) {
+      throw new LLMError(
+        "OpenAI API key not configured",
+        "openai",
+        undefined,
+        false
+      );
+    }
 
+    try {
+      const stream = await this.client!.chat.completions.create({
+        model: request.model.model,
+        messages: this.buildMessages(request),
+        max_tokens: request.model.maxTokens,
+        temperature: request.model.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      let content = "";
+      let finishReason: string | undefined;
+      let usage: OpenAI.Completions.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+        usage = chunk.usage || usage;
+      }
+
+      if (!content) {
         throw new LLMError(
-          `OpenAI API error: ${error.message}`,
+          "No content received from OpenAI API stream",
           "openai",
-          statusCode,
-          retryable
+          undefined,
+          true
         );
       }
 
-      // Handle other errors
-      logger.error("Unexpected error in OpenAI provider", error);
+      const llmResponse: LLMResponse = {
+        content,
+        provider: "openai",
+        model: request.model.model,
+        tokensUsed: usage
+          ? {
+              prompt: usage.prompt_tokens,
+              completion: usage.completion_tokens,
+              total: usage.total_tokens,
+            }
+          : undefined,
+        finishReason,
+      };
+
+      logger.info("OpenAI streaming completion successful", {
+        model: request.model.model,
+        tokensUsed: llmResponse.tokensUsed,
+        finishReason: llmResponse.finishReason,
+      });
+
+      return llmResponse;
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
+  private buildMessages(
+    request: LLMRequest
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+
+    if (request.systemPrompt) {
+      messages.push({
+        role: "system",
+        content: request.systemPrompt,
+      });
+    }
+
+    messages.push({
+      role: "user",
+      content: request.prompt,
+    });
+
+    return messages;
+  }
+
+  private handleError(error: any): never {
+    if (error instanceof LLMError) {
+      throw error;
+    }
+
+    // Handle OpenAI API errors
+    if (error instanceof OpenAI.APIError) {
+      const statusCode = error.status;
+      let retryable = false;
+
+      // Determine if error is retryable
+      if (
+        statusCode === 429 ||
+        statusCode === 500 ||
+        statusCode === 502 ||
+        statusCode === 503
+      ) {
+        retryable = true;
+      }
+
+      logger.error("OpenAI API error", {
+        status: statusCode,
+        message: error.message,
+        retryable,
+      });
+
       throw new LLMError(
-        `Unexpected error: ${error.message}`,
+        `OpenAI API error: ${error.message}`,
         "openai",
-        undefined,
-        false
+        statusCode,
+        retryable
       );
     }
+
+    // Handle other errors
+    logger.error("Unexpected error in OpenAI provider", error);
+    throw new LLMError(
+      `Unexpected error: ${error.message}`,
+      "openai",
+      undefined,
+      false
+    );
   }
 }
 
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { PlanTemplateRegistry } from "./templates";
+
+describe("PlanTemplateRegistry", () => {
+  let templatesDir: string;
+
+  before(async () => {
+    templatesDir = await fs.mkdtemp(path.join(os.tmpdir(), "plan-templates-"));
+  });
+
+  after(async () => {
+    await fs.rm(templatesDir, { recursive: true, force: true });
+  });
+
+  const writeTemplate = (file: string, template: unknown) =>
+    fs.writeFile(path.join(templatesDir, file), JSON.stringify(template));
+
+  it("serves the built-in templates and the default one when unnamed", () => {
+    const registry = new PlanTemplateRegistry(undefined);
+
+    assert.deepEqual(registry.names(), [
+      "default",
+      "bugfix",
+      "feature",
+      "refactor",
+    ]);
+    assert.equal(registry.get().name, "default");
+    assert.throws(() => registry.get("missing"), /Unknown plan template/);
+  });
+
+  it("loads template files, replacing built-ins and skipping invalid ones", async () => {
+    await writeTemplate("bugfix.json", {
+      name: "bugfix",
+      description: "Team bugfix style",
+      systemPrompt: "You fix bugs",
+      instructions: ["Reproduce the bug first"],
+      outputFormat: "Phase: Reproduce",
+      validation: { minPhases: 1, requiredPhases: ["reproduce"] },
+    });
+    await writeTemplate("spike.json", {
+      name: "spike",
+      systemPrompt: "You explore options",
+      instructions: ["List the options"],
+      outputFormat: "Phase: Explore",
+    });
+    await writeTemplate("broken.json", { name: "Not Valid" });
+    await fs.writeFile(path.join(templatesDir, "notes.txt"), "ignored");
+
+    const registry = new PlanTemplateRegistry(templatesDir);
+
+    assert.deepEqual(registry.names().sort(), [
+      "bugfix",
+      "default",
+      "feature",
+      "refactor",
+      "spike",
+    ]);
+    const bugfix = registry.list().find(({ name }) => name === "bugfix");
+    assert.equal(bugfix?.source, "file");
+    assert.deepEqual(bugfix?.validation.requiredPhases, ["reproduce"]);
+    // Rules missing from the file take their defaults
+    assert.equal(registry.get("spike").validation.minPhases, 2);
+  });
+});
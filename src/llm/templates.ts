@@ -0,0 +1,120 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import config from "../config";
+import { PlanTemplate, PlanTemplateSchema } from "../schemas/template.schema";
+import logger from "../utils/logger";
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_NAME,
+} from "./prompts/planTemplates";
+
+export type PlanTemplateSource = "built-in" | "file";
+
+/**
+ * Template details exposed over the API, without the prompt text
+ */
+export interface PlanTemplateSummary {
+  name: string;
+  description: string;
+  source: PlanTemplateSource;
+  validation: PlanTemplate["validation"];
+}
+
+/**
+ * Named planning styles: the built-in templates plus JSON template files read
+ * from PLAN_TEMPLATES_DIR at startup. A file template replaces a built-in one
+ * with the same name.
+ */
+export class PlanTemplateRegistry {
+  private templates = new Map<
+    string,
+    { template: PlanTemplate; source: PlanTemplateSource }
+  >();
+
+  constructor(templatesDir: string | undefined = config.planTemplatesDir) {
+    for (const template of BUILT_IN_TEMPLATES) {
+      this.templates.set(template.name, { template, source: "built-in" });
+    }
+
+    if (templatesDir) {
+      this.loadDirectory(templatesDir);
+    }
+
+    logger.info("Plan templates loaded", {
+      templates: Array.from(this.templates.keys()),
+    });
+  }
+
+  has(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  /**
+   * Look up a template; falls back to the default template when no name is given
+   * @throws Error when a name is given that is not registered
+   */
+  get(name: string = DEFAULT_TEMPLATE_NAME): PlanTemplate {
+    const entry = this.templates.get(name);
+    if (!entry) {
+      throw new Error(`Unknown plan template: ${name}`);
+    }
+    return entry.template;
+  }
+
+  list(): PlanTemplateSummary[] {
+    return Array.from(this.templates.values()).map(({ template, source }) => ({
+      name: template.name,
+      description: template.description,
+      source,
+      validation: template.validation,
+    }));
+  }
+
+  names(): string[] {
+    return Array.from(this.templates.keys());
+  }
+
+  private loadDirectory(templatesDir: string): void {
+    let files: string[];
+    try {
+      files = readdirSync(templatesDir)
+        .filter((file) => /\.json$/i.test(file))
+        .sort();
+    } catch (error) {
+      logger.warn("Failed to read plan templates directory", {
+        templatesDir,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    // Invalid files are skipped so one bad template does not stop the server
+    for (const file of files) {
+      try {
+        const raw = JSON.parse(
+          readFileSync(path.join(templatesDir, file), "utf-8")
+        );
+        const template = PlanTemplateSchema.parse(raw);
+
+        if (this.templates.get(template.name)?.source === "built-in") {
+          logger.info(`Template file ${file} overrides built-in template`, {
+            name: template.name,
+          });
+        }
+
+        this.templates.set(template.name, { template, source: "file" });
+      } catch (error) {
+        logger.warn(`Skipping invalid plan template ${file}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+// Shared registry used by the LLM client, request validation and the API
+export const templateRegistry = new PlanTemplateRegistry();
+
+export { DEFAULT_TEMPLATE_NAME };
+
+export default templateRegistry;
@@ -1,6 +1,11 @@
 // Type definitions for the LLM module
 
-export type LLMProvider = "openai" | "anthropic" | "deepseek";
+export type LLMProvider =
+  | "openai"
+  | "anthropic"
+  | "deepseek"
+  | "local"
+  | "mock";
 
 export interface LLMModel {
   provider: LLMProvider;
@@ -16,6 +21,68 @@ export interface LLMRequest {
   maxRetries?: number;
   retryDelay?: number;
   isFallbackAttempt?: boolean;
+  allowFallback?: boolean; // false keeps the request on the chosen provider
+  isHealthCheck?: boolean; // connection tests, not plan generation
+  onToken?: (token: string) => void; // when set, the completion is streamed
+  onRetry?: (info: LLMRetryInfo) => void; // tokens streamed so far are discarded
+}
+
+export interface LLMRetryInfo {
+  provider: LLMProvider;
+  attempt: number;
+  reason: string;
+  isFallback: boolean;
+}
+
+export interface LLMRepairInfo {
+  round: number; // 1 for the first repair attempt
+  issues: string[]; // problems the repair prompt asks the model to fix
+}
+
+export interface PlanValidationResult {
+  isValid: boolean;
+  issues: string[];
+}
+
+export interface GeneratePlanOptions {
+  provider?: LLMProvider;
+  model?: Partial<LLMModel>;
+  template?: string; // plan template name, default template when unset
+  onToken?: (token: string) => void;
+  onRetry?: (info: LLMRetryInfo) => void;
+  onRepair?: (info: LLMRepairInfo) => void; // tokens streamed so far are discarded
+}
+
+export interface ModelSelection {
+  provider?: LLMProvider;
+  model?: string;
+  maxTokens?: number;
+}
+
+export interface ProviderModelOptions {
+  provider: LLMProvider;
+  isDefault: boolean;
+  defaultModel: string;
+  allowedModels: string[]; // "*" means any model name is accepted
+}
+
+/**
+ * Outcome of a single provider connection test
+ */
+export interface ProviderCheckResult {
+  working: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Connection tests over all configured providers
+ */
+export interface ProviderValidation {
+  configured: LLMProvider[];
+  working: LLMProvider[];
+  errors: Record<LLMProvider, string>;
+  latencyMs: Partial<Record<LLMProvider, number>>;
 }
 
 export interface LLMResponse {
@@ -30,8 +97,25 @@ export interface LLMResponse {
   finishReason?: string; // 'stop', 'length', 'content_filter'
 }
 
+export interface GeneratedPlan {
+  plan: string; // the parsed Markdown plan
+  provider: LLMProvider; // provider that produced it (may be a fallback)
+  model: string;
+  tokensUsed?: LLMResponse["tokensUsed"];
+  finishReason?: string;
+  fallbackUsed: boolean; // true when the primary provider failed
+  retries: number; // attempts after the first (not in repair), incl. fallbacks
+  estimatedCost?: number; // USD, from the configured price table
+  validation: PlanValidationResult; // structure check of the returned plan
+  repairRounds: number; // re-prompts after failed validation or truncation
+}
+
 export interface ILLMProvider {
   generateCompletion(request: LLMRequest): Promise<LLMResponse>;
+  generateCompletionStream(
+    request: LLMRequest,
+    onToken: (token: string) => void
+  ): Promise<LLMResponse>; // resolves with the full content once the stream ends
   isConfigured(): boolean; // checks if API key is available
   getProviderName(): LLMProvider;
 }
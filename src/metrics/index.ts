@@ -0,0 +1,73 @@
+import { MetricsRegistry } from "./registry";
+
+// Shared registry rendered by GET /metrics
+export const registry = new MetricsRegistry();
+
+// HTTP
+export const httpRequestsTotal = registry.counter({
+  name: "http_requests_total",
+  help: "HTTP requests by method, route and status code",
+  labelNames: ["method", "route", "status"],
+});
+
+export const httpRequestDuration = registry.histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request latency by method, route and status code",
+  labelNames: ["method", "route", "status"],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+});
+
+// LLM calls (one per provider attempt, so retries count separately)
+export const llmRequestsTotal = registry.counter({
+  name: "llm_requests_total",
+  help: "LLM provider calls by provider, model and outcome",
+  labelNames: ["provider", "model", "outcome"],
+});
+
+export const llmRequestDuration = registry.histogram({
+  name: "llm_request_duration_seconds",
+  help: "LLM provider call latency by provider, model and outcome",
+  labelNames: ["provider", "model", "outcome"],
+  buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300],
+});
+
+export const llmTokens = registry.histogram({
+  name: "llm_tokens",
+  help: "Tokens per LLM provider call by provider, model, outcome and type (prompt or completion)",
+  labelNames: ["provider", "model", "outcome", "type"],
+  buckets: [100, 250, 500, 1000, 2000, 4000, 8000, 16000, 32000],
+});
+
+export const llmRetriesTotal = registry.counter({
+  name: "llm_retries_total",
+  help: "Retries of failed LLM calls by provider",
+  labelNames: ["provider"],
+});
+
+export const llmFallbacksTotal = registry.counter({
+  name: "llm_fallbacks_total",
+  help: "Switches from a failed provider to a fallback provider",
+  labelNames: ["from", "to"],
+});
+
+// Storage
+export const storageOperationDuration = registry.histogram({
+  name: "storage_operation_duration_seconds",
+  help: "Plan storage operation latency by backend, operation and outcome",
+  labelNames: ["backend", "operation", "outcome"],
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+});
+
+export const storedPlans = registry.gauge({
+  name: "stored_plans",
+  help: "Stored plans by status, updated on each scrape",
+  labelNames: ["status"],
+});
+
+/**
+ * Seconds elapsed since a Date.now() timestamp
+ */
+export const secondsSince = (startedAt: number) =>
+  (Date.now() - startedAt) / 1000;
+
+export default registry;
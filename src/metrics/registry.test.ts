@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MetricsRegistry } from "./registry";
+
+describe("MetricsRegistry", () => {
+  it("renders counters and gauges per label set in declared label order", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter({
+      name: "requests_total",
+      help: "Requests served",
+      labelNames: ["method", "status"],
+    });
+    const queued = registry.gauge({ name: "queued", help: "Queued jobs" });
+
+    requests.inc({ status: "200", method: "GET" });
+    requests.inc({ method: "GET", status: "200" }, 2);
+    requests.inc({ method: 'P"OST\n' });
+    queued.set({}, 3);
+
+    assert.equal(
+      registry.render(),
+      [
+        "# HELP requests_total Requests served",
+        "# TYPE requests_total counter",
+        'requests_total{method="GET",status="200"} 3',
+        'requests_total{method="P\\"OST\\n",status=""} 1',
+        "# HELP queued Queued jobs",
+        "# TYPE queued gauge",
+        "queued 3",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("renders histogram buckets cumulatively with sum and count", () => {
+    const registry = new MetricsRegistry();
+    const duration = registry.histogram({
+      name: "duration_seconds",
+      help: "Call duration",
+      labelNames: ["provider"],
+      buckets: [5, 1],
+    });
+
+    for (const value of [0.5, 2, 30]) {
+      duration.observe({ provider: "mock" }, value);
+    }
+
+    assert.deepEqual(registry.render().split("\n").slice(2, -1), [
+      'duration_seconds_bucket{provider="mock",le="1"} 1',
+      'duration_seconds_bucket{provider="mock",le="5"} 2',
+      'duration_seconds_bucket{provider="mock",le="+Inf"} 3',
+      'duration_seconds_sum{provider="mock"} 32.5',
+      'duration_seconds_count{provider="mock"} 3',
+    ]);
+  });
+});
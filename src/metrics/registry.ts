@@ -0,0 +1,200 @@
+/**
+ * Minimal Prometheus metric types and text exposition format (version 0.0.4)
+ */
+
+export type Labels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatValue = (value: number) =>
+  Number.isFinite(value) ? String(value) : value > 0 ? "+Inf" : "-Inf";
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  protected readonly labelNames: string[];
+
+  constructor(options: MetricOptions) {
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames || [];
+  }
+
+  abstract readonly type: MetricType;
+
+  abstract render(): string[];
+
+  /**
+   * Series key; labels are kept in the declared order, missing ones empty
+   */
+  protected key(labels: Labels): string {
+    return JSON.stringify(this.labelNames.map((name) => labels[name] ?? ""));
+  }
+
+  protected formatLabels(key: string, extra: Labels = {}): string {
+    const values = JSON.parse(key) as string[];
+    const pairs = [
+      ...this.labelNames.map((name, i) => [name, values[i]]),
+      ...Object.entries(extra),
+    ].map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends Metric {
+  readonly type = "counter";
+  private values = new Map<string, number>();
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  render(): string[] {
+    return Array.from(this.values.entries()).map(
+      ([key, value]) =>
+        `${this.name}${this.formatLabels(key)} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric {
+  readonly type = "gauge";
+  private values = new Map<string, number>();
+
+  set(labels: Labels, value: number): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  render(): string[] {
+    return Array.from(this.values.entries()).map(
+      ([key, value]) =>
+        `${this.name}${this.formatLabels(key)} ${formatValue(value)}`
+    );
+  }
+}
+
+interface HistogramSeries {
+  bucketCounts: number[]; // per upper bound, not cumulative
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values over fixed buckets
+ */
+export class Histogram extends Metric {
+  readonly type = "histogram";
+  private readonly buckets: number[];
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(options: MetricOptions & { buckets: number[] }) {
+    super(options);
+    this.buckets = [...options.buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        bucketCounts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) {
+      series.bucketCounts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+
+    for (const [key, series] of Array.from(this.series.entries())) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.bucketCounts[i];
+        lines.push(
+          `${this.name}_bucket${this.formatLabels(key, {
+            le: formatValue(bound),
+          })} ${cumulative}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${this.formatLabels(key, { le: "+Inf" })} ${
+          series.count
+        }`,
+        `${this.name}_sum${this.formatLabels(key)} ${formatValue(series.sum)}`,
+        `${this.name}_count${this.formatLabels(key)} ${series.count}`
+      );
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Set of metrics rendered together for a scrape
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(options: MetricOptions): Counter {
+    return this.register(new Counter(options));
+  }
+
+  gauge(options: MetricOptions): Gauge {
+    return this.register(new Gauge(options));
+  }
+
+  histogram(options: MetricOptions & { buckets: number[] }): Histogram {
+    return this.register(new Histogram(options));
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    return this.metrics
+      .map((metric) =>
+        [
+          `# HELP ${metric.name} ${metric.help}`,
+          `# TYPE ${metric.name} ${metric.type}`,
+          ...metric.render(),
+        ].join("\n")
+      )
+      .join("\n")
+      .concat("\n");
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+// Content type of the text exposition format
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
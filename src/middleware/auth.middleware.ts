@@ -0,0 +1,140 @@
+import { NextFunction, Request, Response } from "express";
+import { AuthContext, authenticateApiKey, reservePlanQuota } from "../auth";
+import config from "../config";
+import { ApiResponse } from "../types";
+import logger from "../utils/logger";
+
+// Extend Express Request type with the authenticated caller
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext; // unset when authentication is disabled
+    }
+  }
+}
+
+/**
+ * Read the key from the X-API-Key header or an "Authorization: Bearer" header
+ */
+function getPresentedKey(req: Request): string | undefined {
+  const header = req.header("x-api-key");
+  if (header) {
+    return header.trim();
+  }
+
+  const authorization = req.header("authorization");
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Require a valid, unrevoked API key when AUTH_ENABLED is set
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!config.authEnabled) {
+    return next();
+  }
+
+  const key = getPresentedKey(req);
+  if (!key) {
+    const response: ApiResponse = {
+      success: false,
+      message: "Authentication required",
+      error: "Provide an API key in the X-API-Key header",
+    };
+    return res.status(401).json(response);
+  }
+
+  try {
+    const auth = await authenticateApiKey(key);
+    if (!auth) {
+      logger.warn("Rejected invalid or revoked API key", {
+        path: req.originalUrl,
+      });
+
+      const response: ApiResponse = {
+        success: false,
+        message: "Invalid API key",
+        error: "The API key is unknown or has been revoked",
+      };
+      return res.status(401).json(response);
+    }
+
+    req.auth = auth;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Only let admin keys through; runs after authenticate
+ */
+export const requireAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (config.authEnabled && req.auth?.role !== "admin") {
+    const response: ApiResponse = {
+      success: false,
+      message: "Forbidden",
+      error: "This endpoint requires an admin API key",
+    };
+    return res.status(403).json(response);
+  }
+
+  next();
+};
+
+/**
+ * Count the request as one plan against the caller's daily quota, answering
+ * 429 instead when it would exceed the plan or token quota
+ * @returns Whether the request may go on
+ */
+export async function reserveQuota(
+  req: Request,
+  res: Response
+): Promise<boolean> {
+  const quota = await reservePlanQuota(req.auth?.keyId);
+
+  if (!quota.allowed) {
+    logger.warn("API key quota exceeded", {
+      keyId: req.auth?.keyId,
+      reason: quota.reason,
+      usage: quota.usage,
+    });
+
+    const response: ApiResponse = {
+      success: false,
+      message: "Quota exceeded",
+      error: `${quota.reason}; quotas reset at 00:00 UTC`,
+    };
+    res.status(429).json(response);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Reject requests that would exceed the caller's daily plan or token quota,
+ * counting the request as one plan otherwise. Runs before any LLM call.
+ */
+export const enforceQuota = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (await reserveQuota(req, res)) {
+      next();
+    }
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,36 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  httpRequestDuration,
+  httpRequestsTotal,
+  secondsSince,
+} from "../metrics";
+
+/**
+ * Count requests and their latency per route. Routes are labelled by their
+ * pattern (e.g. /api/plans/:id) so plan IDs do not create new series.
+ */
+export const recordRequestMetrics = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const startedAt = Date.now();
+
+  res.on("finish", () => {
+    const route = req.route
+      ? `${req.baseUrl}${req.route.path}`.replace(/(.)\/$/, "$1")
+      : "unmatched";
+    const labels = {
+      method: req.method,
+      route,
+      status: String(res.statusCode),
+    };
+
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, secondsSince(startedAt));
+  });
+
+  next();
+};
+
+export default recordRequestMetrics;
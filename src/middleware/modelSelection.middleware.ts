@@ -0,0 +1,44 @@
+import { NextFunction, Request, Response } from "express";
+import llmClient from "../llm";
+import { CreatePlanRequest } from "../schemas/plan.schema";
+import { ErrorResponse } from "../types";
+import logger from "../utils/logger";
+
+/**
+ * Reject plan requests that select an unconfigured provider, a model outside
+ * the provider's allow-list or more output tokens than allowed.
+ * Runs after validateRequest(CreatePlanRequestSchema, "body").
+ */
+export const validateModelSelection = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { provider, model, maxTokens } = req.validated
+    ?.body as CreatePlanRequest;
+
+  const problems = llmClient.checkModelSelection({
+    provider,
+    model,
+    maxTokens,
+  });
+
+  if (problems.length === 0) {
+    return next();
+  }
+
+  logger.warn("Invalid model selection", { provider, model, problems });
+
+  const errorResponse: ErrorResponse = {
+    statusCode: 400,
+    message: "Validation failed",
+    validationErrors: problems.map((problem) => ({
+      ...problem,
+      code: "invalid_selection",
+    })),
+  };
+
+  return res.status(400).json(errorResponse);
+};
+
+export default validateModelSelection;
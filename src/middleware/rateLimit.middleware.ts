@@ -0,0 +1,48 @@
+import { NextFunction, Request, Response } from "express";
+import config from "../config";
+import { ApiResponse } from "../types";
+import logger from "../utils/logger";
+import TokenBucketRateLimiter from "../utils/rateLimiter";
+
+// Shared by every route that starts an LLM run
+const planRateLimiter = new TokenBucketRateLimiter(
+  config.rateLimitBurst,
+  config.rateLimitPerMinute
+);
+
+/**
+ * Limit how fast each client may request plans. Clients are identified by
+ * their API key when authenticated, otherwise by IP address.
+ */
+export const rateLimitPlanRequests = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (config.rateLimitPerMinute <= 0) {
+    return next();
+  }
+
+  const client = req.auth?.keyId ? `key:${req.auth.keyId}` : `ip:${req.ip}`;
+  const result = planRateLimiter.consume(client);
+
+  res.setHeader("X-RateLimit-Limit", planRateLimiter.limit);
+  res.setHeader("X-RateLimit-Remaining", result.remaining);
+
+  if (!result.allowed) {
+    const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+
+    logger.warn("Plan request rate limited", { client, retryAfter });
+
+    const response: ApiResponse = {
+      success: false,
+      message: "Too many requests",
+      error: `Plan request rate limit exceeded; retry in ${retryAfter}s`,
+    };
+    return res.status(429).setHeader("Retry-After", retryAfter).json(response);
+  }
+
+  next();
+};
+
+export default rateLimitPlanRequests;
@@ -0,0 +1,57 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { getLogContext, runWithLogContext } from "../utils/logContext";
+import logger from "../utils/logger";
+
+// Extend Express Request type with the correlation ID
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Accept caller IDs that are safe to echo into headers and logs
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Use the caller's X-Request-Id or generate one, return it in the response
+ * and attach it to every log line written while handling the request
+ */
+export const assignRequestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const incoming = req.header(REQUEST_ID_HEADER);
+  const requestId =
+    incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+  req.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  runWithLogContext({ requestId }, () => {
+    const context = getLogContext()!;
+    const startedAt = Date.now();
+
+    // Access log, written with the context as it ended up (e.g. with planId)
+    res.on("finish", () => {
+      runWithLogContext(context, () =>
+        logger.info("Request completed", {
+          method: req.method,
+          url: req.originalUrl,
+          status: res.statusCode,
+          durationMs: Date.now() - startedAt,
+          ip: req.ip,
+        })
+      );
+    });
+
+    next();
+  });
+};
+
+export default assignRequestId;
@@ -1,18 +1,53 @@
 import { randomUUID } from "crypto";
-import llmClient from "../llm/index";
-import { CreatePlanRequest, PlanResponse } from "../schemas/plan.schema";
+import { AnalysisError, analyzeCodebase } from "../analysis";
+import llmClient, {
+  GeneratedPlan,
+  GeneratePlanOptions,
+  parseStructuredPlan,
+} from "../llm/index";
+import templateRegistry, { DEFAULT_TEMPLATE_NAME } from "../llm/templates";
+import {
+  CreatePlanRequest,
+  PlanResponse,
+  StoredPlan,
+} from "../schemas/plan.schema";
+import { PlanFormat } from "../schemas/structuredPlan.schema";
+import { AnalysisResponse } from "../types";
+import { setLogContext } from "../utils/logContext";
 import logger from "../utils/logger";
 
+/**
+ * Callbacks that receive LLM tokens, retries and repair rounds as they happen
+ */
+export type PlanStreamHandlers = Pick<
+  GeneratePlanOptions,
+  "onToken" | "onRetry" | "onRepair"
+>;
+
+/**
+ * Options for a single plan generation run
+ */
+export interface GeneratePlanRunOptions extends PlanStreamHandlers {
+  // Reuse an existing plan ID, e.g. for a queued async job
+  planId?: string;
+  // API key that requested the plan; unset when authentication is disabled
+  ownerKeyId?: string;
+}
+
 /**
  * Main planning orchestration function that coordinates codebase analysis and LLM plan generation
- * @param request - The plan generation request containing task description
+ * @param request - The plan generation request containing task description and optional codebase path
+ * @param options - Optional plan ID and callbacks that receive LLM tokens and retries as they happen
  * @returns Promise<PlanResponse> - Complete plan response with metadata and timing information
  */
 export async function generatePlan(
-  request: CreatePlanRequest
+  request: CreatePlanRequest,
+  options: GeneratePlanRunOptions = {}
 ): Promise<PlanResponse> {
+  const { planId = randomUUID(), ownerKeyId, ...streamHandlers } = options;
+  setLogContext({ planId });
+
   // Initialize tracking
-  const planId = randomUUID();
   const startTime = Date.now();
 
   logger.info("Plan generation started", {
@@ -20,23 +55,55 @@ export async function generatePlan(
     taskDescription:
       request.taskDescription.substring(0, 100) +
       (request.taskDescription.length > 100 ? "..." : ""),
+    codebasePath: request.codebasePath || "no-codebase",
   });
 
   try {
-    // Phase 1: Plan Generation via LLM (no codebase analysis needed)
+    // Phase 1: Codebase analysis (only when a codebase path is provided)
+    let analysisResult: AnalysisResponse | null = null;
+
+    if (request.codebasePath) {
+      logger.info("Starting codebase analysis", {
+        planId,
+        codebasePath: request.codebasePath,
+      });
+
+      analysisResult = await analyzeCodebase(request.codebasePath);
+    }
+
+    // Phase 2: Plan Generation via LLM
     const planningStartTime = Date.now();
 
-    logger.info("Starting LLM plan generation", { planId });
+    logger.info("Starting LLM plan generation", {
+      planId,
+      hasAnalysis: !!analysisResult,
+      streaming: !!streamHandlers.onToken,
+    });
 
-    const planContent = await llmClient.generatePlan(request.taskDescription);
+    const llmOptions: GeneratePlanOptions = {
+      ...getRequestedModel(request),
+      template: request.template,
+      ...streamHandlers,
+    };
+    const generatedPlan = analysisResult
+      ? await llmClient.generatePlan(
+          request.taskDescription,
+          analysisResult,
+          llmOptions
+        )
+      : await llmClient.generatePlan(request.taskDescription, llmOptions);
+    const planContent = generatedPlan.plan;
 
     const planningEndTime = Date.now();
     const planningTime = planningEndTime - planningStartTime;
 
+    const structuredPlan = parseStructuredPlan(planContent);
+
     logger.info("LLM plan generation completed", {
       planId,
       planningTime,
       planLength: planContent.length,
+      phaseCount: structuredPlan.phases.length,
     });
 
     // Build PlanResponse
@@ -44,8 +111,17 @@ export async function generatePlan(
       id: planId,
       taskDescription: request.taskDescription,
       plan: planContent,
+      structuredPlan,
+      codebasePath: request.codebasePath,
       createdAt: new Date().toISOString(),
       planningTime,
+      revision: 1,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      template: request.template || DEFAULT_TEMPLATE_NAME,
+      tags: request.tags,
+      ownerKeyId,
+      ...getGenerationMetadata(generatedPlan),
     };
 
     const totalTime = Date.now() - startTime;
@@ -68,6 +144,11 @@ export async function generatePlan(
     });
 
     // Determine which phase failed and provide descriptive error
+    // Kept as is so routes can answer 400: the codebase path is the caller's
+    if (error instanceof AnalysisError) {
+      throw error;
+    }
+
     if (error instanceof Error) {
       const errorMessage = error.message.toLowerCase();
 
@@ -80,7 +161,7 @@ export async function generatePlan(
         errorMessage.includes("401")
       ) {
         throw new Error(
-          "Authentication failed: Please check your LLM provider API keys in the environment configuration. Ensure at least one provider (OpenAI, Anthropic, or DeepSeek) has a valid API key."
+          "Authentication failed: Please check your LLM provider API keys in the environment configuration. Ensure at least one provider (OpenAI, Anthropic, DeepSeek, or a local model server) has a valid API key."
         );
       }
 
@@ -103,7 +184,7 @@ export async function generatePlan(
         errorMessage.includes("all configured llm providers failed")
       ) {
         throw new Error(
-          "LLM configuration error: No properly configured LLM providers found. Please ensure at least one provider (OpenAI, Anthropic, or DeepSeek) is configured with a valid API key."
+          "LLM configuration error: No properly configured LLM providers found. Please ensure at least one provider (OpenAI, Anthropic, or DeepSeek) is configured with a valid API key, or set LOCAL_LLM_BASE_URL for a local model server."
         );
       }
 
@@ -121,6 +202,148 @@ export async function generatePlan(
   }
 }
 
+/**
+ * Provider and model settings requested for a plan; unset fields keep the
+ * provider defaults
+ */
+function getRequestedModel(
+  request: CreatePlanRequest
+): Pick<GeneratePlanOptions, "provider" | "model"> {
+  return {
+    provider: request.provider,
+    model: {
+      ...(request.model !== undefined && { model: request.model }),
+      ...(request.temperature !== undefined && {
+        temperature: request.temperature,
+      }),
+      ...(request.maxTokens !== undefined && { maxTokens: request.maxTokens }),
+    },
+  };
+}
+
+/**
+ * Produce the next revision of a stored plan by applying reviewer feedback
+ * @param storedPlan - The current revision of the plan
+ * @param feedback - Follow-up instructions such as "split phase 2"
+ * @param streamHandlers - Optional callbacks that receive LLM tokens and retries as they happen
+ * @returns Promise<PlanResponse> - The plan with the same ID and the revised content
+ */
+export async function refinePlan(
+  storedPlan: StoredPlan,
+  feedback: string,
+  streamHandlers: PlanStreamHandlers = {}
+): Promise<PlanResponse> {
+  const planningStartTime = Date.now();
+  const revision = (storedPlan.revision || 1) + 1;
+  setLogContext({ planId: storedPlan.id });
+
+  logger.info("Plan refinement started", {
+    planId: storedPlan.id,
+    revision,
+    feedbackLength: feedback.length,
+  });
+
+  try {
+    const generatedPlan = await llmClient.refinePlan(
+      storedPlan.taskDescription,
+      storedPlan.plan,
+      feedback,
+      {
+        // Keep validating against the plan's template while it is registered
+        template:
+          storedPlan.template && templateRegistry.has(storedPlan.template)
+            ? storedPlan.template
+            : undefined,
+        ...streamHandlers,
+      }
+    );
+    const planContent = generatedPlan.plan;
+
+    const planningTime = Date.now() - planningStartTime;
+    const structuredPlan = parseStructuredPlan(planContent);
+
+    logger.info("Plan refinement successful", {
+      planId: storedPlan.id,
+      revision,
+      planningTime,
+      phaseCount: structuredPlan.phases.length,
+    });
+
+    return {
+      id: storedPlan.id,
+      taskDescription: storedPlan.taskDescription,
+      plan: planContent,
+      structuredPlan,
+      codebasePath: storedPlan.codebasePath,
+      createdAt: storedPlan.createdAt,
+      updatedAt: new Date().toISOString(),
+      planningTime,
+      revision,
+      temperature: storedPlan.temperature,
+      maxTokens: storedPlan.maxTokens,
+      template: storedPlan.template,
+      tags: storedPlan.tags,
+      ownerKeyId: storedPlan.ownerKeyId,
+      ...getGenerationMetadata(generatedPlan),
+    };
+  } catch (error) {
+    logger.error("Plan refinement failed", {
+      planId: storedPlan.id,
+      revision,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Provider, usage and cost details of an LLM run, as stored on the plan
+ */
+function getGenerationMetadata(
+  generatedPlan: GeneratedPlan
+): Pick<
+  PlanResponse,
+  | "provider"
+  | "model"
+  | "tokensUsed"
+  | "finishReason"
+  | "fallbackUsed"
+  | "retries"
+  | "estimatedCost"
+  | "validation"
+  | "repairRounds"
+> {
+  const { plan: _plan, ...metadata } = generatedPlan;
+  return metadata;
+}
+
+/**
+ * Shape a plan for an API response according to the requested representation
+ * @param plan - Plan as generated or loaded from storage
+ * @param format - "markdown" drops the structured plan, "structured" drops the Markdown body
+ * @returns The plan with only the requested representation(s)
+ */
+export function formatPlanResponse<T extends PlanResponse>(
+  plan: T,
+  format: PlanFormat
+): T | Omit<T, "plan"> | Omit<T, "structuredPlan"> {
+  if (format === "markdown") {
+    const { structuredPlan: _structuredPlan, ...markdownOnly } = plan;
+    return markdownOnly;
+  }
+
+  // Plans stored before structured output existed are parsed on demand
+  const structuredPlan = plan.structuredPlan || parseStructuredPlan(plan.plan);
+
+  if (format === "structured") {
+    const { plan: _markdown, ...structuredOnly } = plan;
+    return { ...structuredOnly, structuredPlan };
+  }
+
+  return { ...plan, structuredPlan };
+}
+
 // Export as default for convenience
 export default generatePlan;
 
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { PlanResponse, PlanStatus } from "../schemas/plan.schema";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("retention", () => {
+  let storageDir: string;
+  let retention: typeof import(".");
+  let storage: typeof import("../storage");
+
+  before(async () => {
+    // The plan store is created from the environment on import
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "retention-"));
+    process.env.PORT = "0";
+    process.env.STORAGE_DIR = storageDir;
+    process.env.STORAGE_BACKEND = "file";
+    retention = await import(".");
+    storage = await import("../storage");
+  });
+
+  after(async () => {
+    await storage.flushStorage();
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  async function savePlanAged(
+    daysOld: number,
+    status: PlanStatus = "completed",
+    overrides: Partial<PlanResponse> = {}
+  ): Promise<string> {
+    const id = randomUUID();
+    await storage.savePlan(
+      {
+        id,
+        taskDescription: `Plan from ${daysOld} days ago`,
+        plan: "## Phase 1\n- Do it",
+        createdAt: new Date(Date.now() - daysOld * ONE_DAY_MS).toISOString(),
+        planningTime: 10,
+        revision: 1,
+        ...overrides,
+      },
+      status
+    );
+    return id;
+  }
+
+  it("applies the age and count rules, never to pinned or unfinished plans", async () => {
+    const recent = await savePlanAged(1);
+    const second = await savePlanAged(2);
+    const failed = await savePlanAged(5, "failed");
+    const old = await savePlanAged(40);
+    const pinned = await savePlanAged(50, "completed", { pinned: true });
+    const running = await savePlanAged(60, "running");
+
+    const expired = await retention.findExpiredPlans({
+      maxAgeDays: 30,
+      failedMaxAgeDays: 3,
+      maxPlans: 1,
+    });
+
+    assert.deepEqual(
+      expired.map((plan) => [plan.id, plan.rule]),
+      [
+        [second, "maxPlans"],
+        [failed, "failedMaxAge"],
+        [old, "maxAge"],
+      ]
+    );
+    for (const id of [recent, pinned, running]) {
+      assert.ok(!expired.some((plan) => plan.id === id));
+    }
+  });
+
+  it("only reports plans in a dry run and deletes them in a sweep", async () => {
+    const policy = { maxAgeDays: 30, failedMaxAgeDays: 0, maxPlans: 0 };
+    const old = await savePlanAged(45);
+
+    const dryRun = await retention.sweepExpiredPlans(true, policy);
+    assert.ok(dryRun.plans.some((plan) => plan.id === old));
+    assert.ok(await storage.getPlanById(old));
+
+    const sweep = await retention.sweepExpiredPlans(false, policy);
+    assert.ok(sweep.plans.some((plan) => plan.id === old));
+    assert.equal(await storage.getPlanById(old), null);
+    assert.deepEqual(await retention.findExpiredPlans(policy), []);
+  });
+
+  it("deletes nothing while every rule is off", async () => {
+    await savePlanAged(400);
+    const policy = { maxAgeDays: 0, failedMaxAgeDays: 0, maxPlans: 0 };
+
+    assert.equal(retention.isRetentionEnabled(policy), false);
+    assert.deepEqual(
+      (await retention.sweepExpiredPlans(false, policy)).plans,
+      []
+    );
+  });
+});
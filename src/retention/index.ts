@@ -0,0 +1,225 @@
+import config from "../config";
+import { PlanStatus } from "../schemas/plan.schema";
+import { DELETABLE_STATUSES, deletePlansByIds, findPlans } from "../storage";
+import logger from "../utils/logger";
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rules deciding which stored plans are removed; 0 turns a rule off
+ */
+export interface RetentionPolicy {
+  maxAgeDays: number;
+  failedMaxAgeDays: number;
+  maxPlans: number; // newest plans kept, not counting pinned ones
+}
+
+export type RetentionRule = "failedMaxAge" | "maxAge" | "maxPlans";
+
+/**
+ * A plan the policy removes, with the first rule that applies to it
+ */
+export interface ExpiredPlan {
+  id: string;
+  taskDescription: string;
+  status: PlanStatus;
+  createdAt: string;
+  archivedAt?: string;
+  rule: RetentionRule;
+}
+
+/**
+ * Outcome of a sweep, or of a dry run that removes nothing
+ */
+export interface RetentionReport {
+  policy: RetentionPolicy;
+  dryRun: boolean;
+  evaluatedAt: string;
+  plans: ExpiredPlan[]; // removed, or that would be removed in a dry run
+}
+
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    maxAgeDays: Math.max(0, config.retentionMaxAgeDays),
+    failedMaxAgeDays: Math.max(0, config.retentionFailedMaxAgeDays),
+    maxPlans: Math.max(0, config.retentionMaxPlans),
+  };
+}
+
+export function isRetentionEnabled(policy: RetentionPolicy): boolean {
+  return (
+    policy.maxAgeDays > 0 || policy.failedMaxAgeDays > 0 || policy.maxPlans > 0
+  );
+}
+
+/**
+ * Plans the policy removes. Archived plans count like any other; pinned plans
+ * and plans still being generated are never removed and do not count towards
+ * maxPlans.
+ */
+export async function findExpiredPlans(
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): Promise<ExpiredPlan[]> {
+  if (!isRetentionEnabled(policy)) {
+    return [];
+  }
+
+  const cutoff = (days: number) =>
+    days > 0 ? now.getTime() - days * ONE_DAY_MS : -Infinity;
+  const maxAgeCutoff = cutoff(policy.maxAgeDays);
+  const failedCutoff = cutoff(policy.failedMaxAgeDays);
+
+  const plans = await findPlans({
+    status: DELETABLE_STATUSES,
+    archived: "include",
+  });
+
+  // Newest first, so the plans past maxPlans are the oldest ones
+  const expired: ExpiredPlan[] = [];
+  let kept = 0;
+  for (const plan of plans) {
+    if (plan.pinned) {
+      continue;
+    }
+
+    const createdAt = new Date(plan.createdAt).getTime();
+    let rule: RetentionRule | undefined;
+    if (plan.status === "failed" && createdAt < failedCutoff) {
+      rule = "failedMaxAge";
+    } else if (createdAt < maxAgeCutoff) {
+      rule = "maxAge";
+    } else if (policy.maxPlans > 0 && kept >= policy.maxPlans) {
+      rule = "maxPlans";
+    } else {
+      kept++;
+    }
+
+    if (rule) {
+      expired.push({
+        id: plan.id,
+        taskDescription: plan.taskDescription,
+        status: plan.status,
+        createdAt: plan.createdAt,
+        archivedAt: plan.archivedAt,
+        rule,
+      });
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Remove every plan the policy expires, plan files and index entries in one
+ * pass, or only report them in a dry run. Plans pinned or back in generation
+ * by the time they are deleted are kept and left out of the report.
+ */
+export async function sweepExpiredPlans(
+  dryRun = false,
+  policy: RetentionPolicy = getRetentionPolicy()
+): Promise<RetentionReport> {
+  const evaluatedAt = new Date();
+  const expired = await findExpiredPlans(policy, evaluatedAt);
+  let plans = expired;
+
+  if (!dryRun && expired.length > 0) {
+    // Pinning a plan or running it again since it was read still saves it
+    const deleted = new Set(
+      await deletePlansByIds(
+        expired.map((plan) => plan.id),
+        { status: DELETABLE_STATUSES, unpinned: true }
+      )
+    );
+    plans = expired.filter((plan) => deleted.has(plan.id));
+
+    logger.info("Retention sweep removed plans", {
+      count: plans.length,
+      byRule: countByRule(plans),
+    });
+  }
+
+  return {
+    policy,
+    dryRun,
+    evaluatedAt: evaluatedAt.toISOString(),
+    plans,
+  };
+}
+
+function countByRule(
+  plans: ExpiredPlan[]
+): Partial<Record<RetentionRule, number>> {
+  const counts: Partial<Record<RetentionRule, number>> = {};
+  for (const plan of plans) {
+    counts[plan.rule] = (counts[plan.rule] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Applies the retention policy at startup and every RETENTION_SWEEP_INTERVAL
+ */
+export class RetentionSweeper {
+  private inFlight: Promise<RetentionReport> | null = null;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly intervalMs: number = config.retentionSweepInterval
+  ) {}
+
+  /**
+   * Sweep now; concurrent calls share one run
+   */
+  sweep(): Promise<RetentionReport> {
+    if (!this.inFlight) {
+      this.inFlight = sweepExpiredPlans().finally(() => {
+        this.inFlight = null;
+      });
+    }
+
+    return this.inFlight;
+  }
+
+  /**
+   * Schedule sweeps when a rule is set and the interval is not 0
+   */
+  start(): void {
+    if (
+      this.intervalMs <= 0 ||
+      this.timer ||
+      !isRetentionEnabled(getRetentionPolicy())
+    ) {
+      return;
+    }
+
+    const run = () => {
+      this.sweep().catch((error) => {
+        logger.error("Retention sweep failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    };
+
+    run();
+    this.timer = setInterval(run, this.intervalMs);
+    this.timer.unref();
+
+    logger.info("Retention sweeper started", {
+      ...getRetentionPolicy(),
+      intervalMs: this.intervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+// Shared sweeper started by the server
+export const retentionSweeper = new RetentionSweeper();
+
+export default retentionSweeper;
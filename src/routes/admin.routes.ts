@@ -0,0 +1,107 @@
+import { Router } from "express";
+import { createApiKey, listApiKeys, revokeApiKey } from "../auth";
+import asyncHandler from "../middleware/asyncHandler.middleware";
+import { requireAdmin } from "../middleware/auth.middleware";
+import validateRequest from "../middleware/validate.middleware";
+import {
+  ApiKeyParams,
+  ApiKeyParamsSchema,
+  CreateApiKeyRequest,
+  CreateApiKeyRequestSchema,
+} from "../schemas/apiKey.schema";
+import { sweepExpiredPlans } from "../retention";
+import { ApiResponse } from "../types";
+import logger from "../utils/logger";
+
+const adminRouter = Router();
+
+// Every admin endpoint needs an admin key when authentication is enabled
+adminRouter.use(requireAdmin);
+
+// POST /keys - Create an API key; the key is only ever returned here
+adminRouter.post(
+  "/keys",
+  validateRequest(CreateApiKeyRequestSchema, "body"),
+  asyncHandler(async (req, res) => {
+    const request = req.validated?.body as CreateApiKeyRequest;
+
+    logger.info("Create API key request received", {
+      name: request.name,
+      role: request.role,
+    });
+
+    const { key, apiKey } = await createApiKey(request);
+
+    const response: ApiResponse = {
+      success: true,
+      message: "API key created successfully",
+      data: { key, apiKey },
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+// GET /keys - List API keys with today's usage
+adminRouter.get(
+  "/keys",
+  asyncHandler(async (req, res) => {
+    const apiKeys = await listApiKeys();
+
+    const response: ApiResponse = {
+      success: true,
+      message: "API keys retrieved successfully",
+      data: { apiKeys },
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /keys/:id - Revoke an API key
+adminRouter.delete(
+  "/keys/:id",
+  validateRequest(ApiKeyParamsSchema, "params"),
+  asyncHandler(async (req, res) => {
+    const { id } = req.validated?.params as ApiKeyParams;
+
+    logger.info("Revoke API key request received", { keyId: id });
+
+    const apiKey = await revokeApiKey(id);
+
+    if (!apiKey) {
+      const response: ApiResponse = {
+        success: false,
+        message: "API key not found",
+        error: "No API key exists with the provided ID",
+      };
+      return res.status(404).json(response);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: "API key revoked successfully",
+      data: apiKey,
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /retention - Dry run of the retention policy: the plans a sweep would remove
+adminRouter.get(
+  "/retention",
+  asyncHandler(async (req, res) => {
+    const report = await sweepExpiredPlans(true);
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Retention dry run completed",
+      data: report,
+    };
+
+    res.json(response);
+  })
+);
+
+export default adminRouter;
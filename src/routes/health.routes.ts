@@ -0,0 +1,63 @@
+import { Router } from "express";
+import config from "../config";
+import { APP_VERSION, getReadiness } from "../health";
+import llmClient from "../llm/client";
+import asyncHandler from "../middleware/asyncHandler.middleware";
+import { ApiResponse } from "../types";
+
+const healthRouter = Router();
+
+// GET / - Overall status with each provider's circuit breaker
+healthRouter.get("/", (req, res) => {
+  const providers = llmClient.getProviderHealth();
+
+  const response: ApiResponse = {
+    success: true,
+    message: "Planning Layer API is running",
+    data: {
+      // Degraded while any provider's circuit breaker is not closed
+      status: providers.every((provider) => provider.state === "closed")
+        ? "healthy"
+        : "degraded",
+      timestamp: new Date().toISOString(),
+      environment: config.nodeEnv,
+      version: APP_VERSION,
+      providers,
+    },
+  };
+  res.json(response);
+});
+
+// GET /live - Liveness: the process is up and serving requests
+healthRouter.get("/live", (req, res) => {
+  const response: ApiResponse = {
+    success: true,
+    message: "Planning Layer API is alive",
+    data: {
+      status: "alive",
+      timestamp: new Date().toISOString(),
+      uptime: Math.round(process.uptime()),
+    },
+  };
+  res.json(response);
+});
+
+// GET /ready - Readiness: storage writable and a provider answering; 503 if not
+healthRouter.get(
+  "/ready",
+  asyncHandler(async (req, res) => {
+    const report = await getReadiness();
+
+    const response: ApiResponse = {
+      success: report.ready,
+      message: report.ready
+        ? "Planning Layer API is ready"
+        : "Planning Layer API is not ready",
+      data: report,
+    };
+
+    res.status(report.ready ? 200 : 503).json(response);
+  })
+);
+
+export default healthRouter;
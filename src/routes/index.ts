@@ -1,10 +1,18 @@
 import { Router } from "express";
+import adminRouter from "./admin.routes";
 import plansRouter from "./plans.routes";
+import providersRouter from "./providers.routes";
+import statsRouter from "./stats.routes";
+import templatesRouter from "./templates.routes";
 
 const router = Router();
 
-// Mount sub-router
+// Mount sub-routers
+router.use("/admin", adminRouter);
 router.use("/plans", plansRouter);
+router.use("/providers", providersRouter);
+router.use("/stats", statsRouter);
+router.use("/templates", templatesRouter);
 
 export default router;
 
@@ -0,0 +1,22 @@
+import { Router } from "express";
+import registry, { storedPlans } from "../metrics";
+import { PROMETHEUS_CONTENT_TYPE } from "../metrics/registry";
+import asyncHandler from "../middleware/asyncHandler.middleware";
+import { countPlansByStatus } from "../storage";
+
+const metricsRouter = Router();
+
+// GET / - All metrics in the Prometheus text format
+metricsRouter.get(
+  "/",
+  asyncHandler(async (req, res) => {
+    const counts = await countPlansByStatus();
+    for (const [status, count] of Object.entries(counts)) {
+      storedPlans.set({ status }, count);
+    }
+
+    res.set("Content-Type", PROMETHEUS_CONTENT_TYPE).send(registry.render());
+  })
+);
+
+export default metricsRouter;
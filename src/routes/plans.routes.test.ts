@@ -0,0 +1,224 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { PlanResponse } from "../schemas/plan.schema";
+
+describe("plan routes", () => {
+  let storageDir: string;
+  let server: Server;
+  let baseUrl: string;
+  let auth: typeof import("../auth");
+  let storage: typeof import("../storage");
+
+  before(async () => {
+    // Config, stores and providers are created from the environment on import
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "plan-routes-"));
+    process.env.PORT = "0";
+    process.env.STORAGE_DIR = storageDir;
+    process.env.STORAGE_BACKEND = "file";
+    process.env.AUTH_ENABLED = "true";
+    process.env.MOCK_LLM_ENABLED = "true";
+    process.env.DEFAULT_LLM_PROVIDER = "mock";
+    // Streamed tokens are spread over the latency, leaving time to disconnect
+    process.env.MOCK_LLM_LATENCY = "300";
+
+    const express = (await import("express")).default;
+    const { authenticate } = await import("../middleware/auth.middleware");
+    const plansRouter = (await import("./plans.routes")).default;
+    auth = await import("../auth");
+    storage = await import("../storage");
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api/plans", authenticate, plansRouter);
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.close();
+    await storage.flushStorage();
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  function buildPlan(overrides: Partial<PlanResponse> = {}): PlanResponse {
+    return {
+      id: randomUUID(),
+      taskDescription: "Add a login page",
+      plan: "## Phase 1\n- Build the form",
+      createdAt: new Date().toISOString(),
+      planningTime: 10,
+      revision: 1,
+      ...overrides,
+    };
+  }
+
+  interface StreamEvent {
+    event: string;
+    data: any;
+  }
+
+  function parseEvents(text: string): StreamEvent[] {
+    return text
+      .split("\n\n")
+      .filter((block) => block.startsWith("event: "))
+      .map((block) => {
+        const [eventLine, dataLine] = block.split("\n");
+        return {
+          event: eventLine.slice("event: ".length),
+          data: JSON.parse(dataLine.slice("data: ".length)),
+        };
+      });
+  }
+
+  function streamPlan(key: string, signal?: AbortSignal): Promise<Response> {
+    return fetch(`${baseUrl}/api/plans/stream`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-api-key": key },
+      body: JSON.stringify({
+        taskDescription: "Add a password reset flow",
+        format: "markdown",
+      }),
+      signal,
+    });
+  }
+
+  async function refine(key: string, id: string): Promise<number> {
+    const response = await fetch(`${baseUrl}/api/plans/${id}/refine`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-api-key": key },
+      body: JSON.stringify({ feedback: "Add a phase for tests" }),
+    });
+    await response.arrayBuffer();
+    return response.status;
+  }
+
+  it("only counts refinements that go ahead towards the plan quota", async () => {
+    const { key, apiKey } = await auth.createApiKey({
+      name: "refiner",
+      role: "user",
+      dailyPlanQuota: 1,
+    });
+    const { apiKey: otherKey } = await auth.createApiKey({
+      name: "other",
+      role: "user",
+    });
+
+    const queued = buildPlan({ ownerKeyId: apiKey.id });
+    await storage.savePlan(queued, "queued");
+    const foreign = buildPlan({ ownerKeyId: otherKey.id });
+    await storage.savePlan(foreign);
+    const own = buildPlan({ ownerKeyId: apiKey.id });
+    await storage.savePlan(own);
+
+    assert.equal(await refine(key, randomUUID()), 404);
+    assert.equal(await refine(key, foreign.id), 404);
+    assert.equal(await refine(key, queued.id), 409);
+
+    const usage = async () =>
+      (await auth.listApiKeys()).find((summary) => summary.id === apiKey.id)
+        ?.usageToday.plans;
+    assert.equal(await usage(), 0);
+
+    assert.equal(await refine(key, own.id), 200);
+    assert.equal(await usage(), 1);
+    assert.equal(await refine(key, own.id), 429);
+  });
+
+  it("streams a plan as start, token and complete events", async () => {
+    const { key } = await auth.createApiKey({ name: "streamer", role: "user" });
+
+    const response = await streamPlan(key);
+
+    assert.equal(response.status, 200);
+    assert.match(
+      response.headers.get("content-type") || "",
+      /^text\/event-stream/
+    );
+    const events = parseEvents(await response.text());
+    assert.equal(events[0].event, "start");
+    assert.equal(events[events.length - 1].event, "complete");
+
+    const tokens = events.filter((event) => event.event === "token");
+    assert.ok(tokens.length > 1);
+    const complete = events[events.length - 1].data;
+    // The stored plan is the streamed text with its blank lines normalized
+    const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+    assert.equal(
+      collapse(tokens.map((event) => event.data.content).join("")),
+      collapse(complete.plan)
+    );
+    assert.equal((await storage.getPlanById(complete.id))?.plan, complete.plan);
+  });
+
+  it("keeps generating and stores the plan after the client disconnects", async () => {
+    const { key, apiKey } = await auth.createApiKey({
+      name: "disconnecting",
+      role: "user",
+    });
+    const controller = new AbortController();
+
+    const response = await streamPlan(key, controller.signal);
+    const reader = response.body!.getReader();
+    let received = "";
+    while (!received.includes("event: token")) {
+      const { value, done } = await reader.read();
+      assert.ok(!done, "stream ended before the first token");
+      received += new TextDecoder().decode(value);
+    }
+    controller.abort();
+
+    let stored;
+    for (let attempt = 0; attempt < 50 && !stored; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      [stored] = await storage.findPlans({ ownerKeyId: apiKey.id });
+    }
+    assert.equal(stored?.status, "completed");
+
+    // The server is still serving requests
+    const health = await fetch(`${baseUrl}/api/plans/${stored!.id}`, {
+      headers: { "x-api-key": key },
+    });
+    assert.equal(health.status, 200);
+    await health.arrayBuffer();
+  });
+
+  it("archives, restores, pins and deletes plans that are not running", async () => {
+    const { key, apiKey } = await auth.createApiKey({
+      name: "curator",
+      role: "user",
+    });
+    const plan = buildPlan({ ownerKeyId: apiKey.id });
+    await storage.savePlan(plan);
+    const running = buildPlan({ ownerKeyId: apiKey.id });
+    await storage.savePlan(running, "running");
+
+    const send = async (method: string, url: string) => {
+      const response = await fetch(`${baseUrl}/api/plans/${url}`, {
+        method,
+        headers: { "x-api-key": key },
+      });
+      await response.arrayBuffer();
+      return response.status;
+    };
+
+    assert.equal(await send("DELETE", plan.id), 200);
+    assert.ok((await storage.getPlanById(plan.id))?.archivedAt);
+    assert.equal(await send("POST", `${plan.id}/restore`), 200);
+    assert.equal((await storage.getPlanById(plan.id))?.archivedAt, undefined);
+    assert.equal(await send("POST", `${plan.id}/restore`), 409);
+
+    assert.equal(await send("PUT", `${plan.id}/pin`), 200);
+    assert.equal((await storage.getPlanById(plan.id))?.pinned, true);
+
+    assert.equal(await send("DELETE", `${running.id}?permanent=true`), 409);
+    assert.equal(await send("DELETE", `${plan.id}?permanent=true`), 200);
+    assert.equal(await storage.getPlanById(plan.id), null);
+    assert.equal(await send("DELETE", plan.id), 404);
+  });
+});
@@ -1,24 +1,65 @@
 import { Router } from "express";
+import { AnalysisError } from "../analysis";
+import { canAccessPlan, getOwnerFilter, recordTokenUsage } from "../auth";
+import planJobRunner from "../jobs";
 import asyncHandler from "../middleware/asyncHandler.middleware";
+import { enforceQuota, reserveQuota } from "../middleware/auth.middleware";
+import validateModelSelection from "../middleware/modelSelection.middleware";
+import rateLimitPlanRequests from "../middleware/rateLimit.middleware";
 import validateRequest from "../middleware/validate.middleware";
-import { generatePlan } from "../planning";
+import { formatPlanResponse, generatePlan, refinePlan } from "../planning";
 import {
     CreatePlanRequest,
     CreatePlanRequestSchema,
+    DeletePlanQuery,
+    DeletePlanQuerySchema,
+    DeletePlansQuery,
+    DeletePlansQuerySchema,
     GetPlanParamsSchema,
+    GetPlanQuery,
+    GetPlanRevisionParams,
+    GetPlanRevisionParamsSchema,
+    GetPlanQuerySchema,
     ListPlansQuery,
     ListPlansQuerySchema,
+    PlanResponse,
+    PlanRevisionDiffQuery,
+    PlanRevisionDiffQuerySchema,
+    RefinePlanRequest,
+    RefinePlanRequestSchema,
 } from "../schemas/plan.schema";
-import { getPlanById, listPlans, savePlan } from "../storage";
+import {
+    archivePlan,
+    DELETABLE_STATUSES,
+    deletePlan,
+    deletePlans,
+    getPlanById,
+    getPlanRevision,
+    listPlanRevisions,
+    listPlans,
+    restorePlan,
+    savePlan,
+    setPlanPinned,
+} from "../storage";
+import { RevisionConflictError } from "../storage/revisions";
+import { StoredPlan } from "../storage/types";
 import { ApiResponse, PaginatedResponse } from "../types";
+import { diffLines } from "../utils/diff";
 import logger from "../utils/logger";
+import { initSSE, sendSSEEvent } from "../utils/sse";
+
+// Interval between SSE keep-alive comments while waiting on the LLM
+const SSE_HEARTBEAT_INTERVAL = 15000;
 
 const plansRouter = Router();
 
 // POST / - Create plan
 plansRouter.post(
   "/",
+  rateLimitPlanRequests,
   validateRequest(CreatePlanRequestSchema, "body"),
+  validateModelSelection,
+  enforceQuota,
   asyncHandler(async (req, res) => {
     logger.info("Plan creation request received", {
       requestData: req.validated?.body,
@@ -27,8 +68,48 @@ plansRouter.post(
     // Extract validated request data
     const requestData = req.validated?.body as CreatePlanRequest;
 
+    // Async mode: queue the job and let the client poll GET /:id for the result
+    if (requestData.async) {
+      const queuedPlan = await planJobRunner.enqueue(
+        requestData,
+        req.auth?.keyId
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Plan generation queued",
+        data: {
+          id: queuedPlan.id,
+          status: queuedPlan.status,
+          createdAt: queuedPlan.createdAt,
+        },
+      };
+
+      return res
+        .status(202)
+        .location(`${req.baseUrl}/${queuedPlan.id}`)
+        .json(response);
+    }
+
     // Call the planning module to generate the plan
-    const planResponse = await generatePlan(requestData);
+    let planResponse: PlanResponse;
+    try {
+      planResponse = await generatePlan(requestData, {
+        ownerKeyId: req.auth?.keyId,
+      });
+    } catch (error) {
+      // The codebase path is missing, not a directory or outside the root
+      if (error instanceof AnalysisError) {
+        const response: ApiResponse = {
+          success: false,
+          message: "Codebase analysis failed",
+          error: error.message,
+        };
+        return res.status(400).json(response);
+      }
+      throw error;
+    }
+    await recordTokenUsage(req.auth?.keyId, planResponse);
 
     // Persist the plan to storage
     try {
@@ -46,7 +127,292 @@ plansRouter.post(
     const response: ApiResponse = {
       success: true,
       message: "Plan generated successfully",
-      data: planResponse,
+      data: formatPlanResponse(planResponse, requestData.format),
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /stream - Create plan, streaming tokens as Server-Sent Events
+plansRouter.post(
+  "/stream",
+  rateLimitPlanRequests,
+  validateRequest(CreatePlanRequestSchema, "body"),
+  validateModelSelection,
+  enforceQuota,
+  asyncHandler(async (req, res) => {
+    logger.info("Streaming plan creation request received", {
+      requestData: req.validated?.body,
+    });
+
+    const requestData = req.validated?.body as CreatePlanRequest;
+
+    initSSE(res);
+    sendSSEEvent(res, "start", { startedAt: new Date().toISOString() });
+
+    const heartbeat = setInterval(() => {
+      if (!res.writableEnded) {
+        res.write(": keep-alive\n\n");
+      }
+    }, SSE_HEARTBEAT_INTERVAL);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+    });
+
+    try {
+      const planResponse = await generatePlan(requestData, {
+        ownerKeyId: req.auth?.keyId,
+        onToken: (token) => {
+          sendSSEEvent(res, "token", { content: token });
+        },
+        onRetry: (info) => {
+          sendSSEEvent(res, "retry", info);
+        },
+        onRepair: (info) => {
+          sendSSEEvent(res, "repair", info);
+        },
+      });
+      await recordTokenUsage(req.auth?.keyId, planResponse);
+
+      let storedPlan;
+      try {
+        storedPlan = await savePlan(planResponse, "completed");
+        logger.info("Plan persisted to storage", { planId: planResponse.id });
+      } catch (error) {
+        // Log error but still deliver the generated plan
+        logger.error("Failed to persist plan to storage", {
+          planId: planResponse.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      sendSSEEvent(
+        res,
+        "complete",
+        formatPlanResponse(storedPlan || planResponse, requestData.format)
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      logger.error("Streaming plan generation failed", { error: message });
+      sendSSEEvent(res, "error", { message });
+    } finally {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  })
+);
+
+// POST /:id/refine - Refine a stored plan with follow-up instructions
+plansRouter.post(
+  "/:id/refine",
+  rateLimitPlanRequests,
+  validateRequest(GetPlanParamsSchema, "params"),
+  validateRequest(RefinePlanRequestSchema, "body"),
+  asyncHandler(async (req, res) => {
+    const planId = req.validated?.params?.id;
+    const { feedback, format } = req.validated?.body as RefinePlanRequest;
+
+    logger.info("Plan refinement request received", {
+      planId,
+      feedbackLength: feedback.length,
+    });
+
+    const storedPlan = await getPlanById(planId!);
+
+    if (!storedPlan || !canAccessPlan(req.auth, storedPlan)) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan not found",
+        error: "No plan exists with the provided ID",
+      };
+      return res.status(404).json(response);
+    }
+
+    // Only finished plans have content to refine
+    if (storedPlan.status !== "completed") {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan cannot be refined",
+        error: `Only completed plans can be refined (current status: ${storedPlan.status})`,
+      };
+      return res.status(409).json(response);
+    }
+
+    if (storedPlan.archivedAt) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan cannot be refined",
+        error: "Archived plans must be restored before they can be refined",
+      };
+      return res.status(409).json(response);
+    }
+
+    // Only a refinement that can go ahead counts towards the quota
+    if (!(await reserveQuota(req, res))) {
+      return;
+    }
+
+    const refinedPlan = await refinePlan(storedPlan, feedback);
+    await recordTokenUsage(req.auth?.keyId, refinedPlan);
+
+    let savedPlan: StoredPlan;
+    try {
+      savedPlan = await savePlan(refinedPlan, "completed", {
+        reason: "refined",
+        feedback,
+      });
+    } catch (error) {
+      // Another refinement of the same revision was saved first
+      if (error instanceof RevisionConflictError) {
+        const response: ApiResponse = {
+          success: false,
+          message: "Plan was changed meanwhile",
+          error: `${error.message}; refine the latest revision instead`,
+        };
+        return res.status(409).json(response);
+      }
+      throw error;
+    }
+
+    logger.info("Refined plan persisted to storage", {
+      planId,
+      revision: savedPlan.revision,
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Plan refined successfully",
+      data: formatPlanResponse(savedPlan, format),
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /:id/revisions - List revisions of a plan, oldest first
+plansRouter.get(
+  "/:id/revisions",
+  validateRequest(GetPlanParamsSchema, "params"),
+  asyncHandler(async (req, res) => {
+    const planId = req.validated?.params?.id;
+
+    const storedPlan = await getPlanById(planId!);
+
+    if (!storedPlan || !canAccessPlan(req.auth, storedPlan)) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan not found",
+        error: "No plan exists with the provided ID",
+      };
+      return res.status(404).json(response);
+    }
+
+    // Summaries only; fetch a single revision for its content
+    const revisions = (await listPlanRevisions(storedPlan)).map(
+      ({ plan: _plan, structuredPlan: _structuredPlan, ...summary }) => summary
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Plan revisions retrieved successfully",
+      data: revisions,
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /:id/revisions/diff - Line-level diff of the Markdown between two revisions
+plansRouter.get(
+  "/:id/revisions/diff",
+  validateRequest(GetPlanParamsSchema, "params"),
+  validateRequest(PlanRevisionDiffQuerySchema, "query"),
+  asyncHandler(async (req, res) => {
+    const planId = req.validated?.params?.id;
+    const query = req.validated?.query as PlanRevisionDiffQuery;
+
+    const storedPlan = await getPlanById(planId!);
+
+    if (!storedPlan || !canAccessPlan(req.auth, storedPlan)) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan not found",
+        error: "No plan exists with the provided ID",
+      };
+      return res.status(404).json(response);
+    }
+
+    // Default to the latest revision compared with the one before it
+    const to = query.to ?? storedPlan.revision ?? 1;
+    const from = query.from ?? to - 1;
+
+    if (from < 1) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Nothing to compare",
+        error: "Revision 1 has no earlier revision; pass `from` explicitly",
+      };
+      return res.status(400).json(response);
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      getPlanRevision(storedPlan, from),
+      getPlanRevision(storedPlan, to),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Revision not found",
+        error: `Plan has no revision ${!fromRevision ? from : to}`,
+      };
+      return res.status(404).json(response);
+    }
+
+    const diff = diffLines(fromRevision.plan, toRevision.plan);
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Plan revision diff computed successfully",
+      data: { from, to, ...diff },
+    };
+
+    res.json(response);
+  })
+);
+
+// GET /:id/revisions/:revision - Get a specific revision of a plan
+plansRouter.get(
+  "/:id/revisions/:revision",
+  validateRequest(GetPlanRevisionParamsSchema, "params"),
+  asyncHandler(async (req, res) => {
+    const { id: planId, revision } = req.validated
+      ?.params as GetPlanRevisionParams;
+
+    const plan = await getPlanById(planId);
+    const storedPlan = plan && canAccessPlan(req.auth, plan) ? plan : null;
+    const planRevision = storedPlan
+      ? await getPlanRevision(storedPlan, revision)
+      : null;
+
+    if (!planRevision) {
+      const response: ApiResponse = {
+        success: false,
+        message: storedPlan ? "Revision not found" : "Plan not found",
+        error: storedPlan
+          ? `Plan has no revision ${revision}`
+          : "No plan exists with the provided ID",
+      };
+      return res.status(404).json(response);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Plan revision retrieved successfully",
+      data: planRevision,
     };
 
     res.json(response);
@@ -57,8 +423,10 @@ plansRouter.post(
 plansRouter.get(
   "/:id",
   validateRequest(GetPlanParamsSchema, "params"),
+  validateRequest(GetPlanQuerySchema, "query"),
   asyncHandler(async (req, res) => {
     const planId = req.validated?.params?.id;
+    const { format } = req.validated?.query as GetPlanQuery;
 
     logger.info("Plan retrieval request received", {
       planId,
@@ -67,7 +435,8 @@ plansRouter.get(
     // Retrieve plan from storage
     const storedPlan = await getPlanById(planId!);
 
-    if (!storedPlan) {
+    // Plans owned by another key are reported as missing
+    if (!storedPlan || !canAccessPlan(req.auth, storedPlan)) {
       logger.info("Plan not found", { planId });
       const response: ApiResponse = {
         success: false,
@@ -81,7 +450,175 @@ plansRouter.get(
     const response: ApiResponse = {
       success: true,
       message: "Plan retrieved successfully",
-      data: storedPlan,
+      data: formatPlanResponse(storedPlan, format),
+    };
+
+    res.json(response);
+  })
+);
+
+// DELETE /:id - Archive a plan, or delete it for good with ?permanent=true
+plansRouter.delete(
+  "/:id",
+  validateRequest(GetPlanParamsSchema, "params"),
+  validateRequest(DeletePlanQuerySchema, "query"),
+  asyncHandler(async (req, res) => {
+    const planId = req.validated?.params?.id;
+    const { permanent } = req.validated?.query as DeletePlanQuery;
+
+    logger.info("Plan deletion request received", { planId, permanent });
+
+    const storedPlan = await getPlanById(planId!);
+
+    if (!storedPlan || !canAccessPlan(req.auth, storedPlan)) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan not found",
+        error: "No plan exists with the provided ID",
+      };
+      return res.status(404).json(response);
+    }
+
+    if (!DELETABLE_STATUSES.includes(storedPlan.status)) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan cannot be deleted",
+        error: `Plans still being generated cannot be deleted (current status: ${storedPlan.status})`,
+      };
+      return res.status(409).json(response);
+    }
+
+    if (permanent) {
+      await deletePlan(storedPlan.id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: "Plan deleted permanently",
+        data: { id: storedPlan.id },
+      };
+      return res.json(response);
+    }
+
+    // Archiving twice keeps the first archive time
+    const archivedPlan = storedPlan.archivedAt
+      ? storedPlan
+      : await archivePlan(storedPlan.id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Plan archived",
+      data: { id: storedPlan.id, archivedAt: archivedPlan?.archivedAt },
+    };
+
+    res.json(response);
+  })
+);
+
+// POST /:id/restore - Bring an archived plan back into listings
+plansRouter.post(
+  "/:id/restore",
+  validateRequest(GetPlanParamsSchema, "params"),
+  asyncHandler(async (req, res) => {
+    const planId = req.validated?.params?.id;
+
+    logger.info("Plan restore request received", { planId });
+
+    const storedPlan = await getPlanById(planId!);
+
+    if (!storedPlan || !canAccessPlan(req.auth, storedPlan)) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan not found",
+        error: "No plan exists with the provided ID",
+      };
+      return res.status(404).json(response);
+    }
+
+    if (!storedPlan.archivedAt) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan cannot be restored",
+        error: "The plan is not archived",
+      };
+      return res.status(409).json(response);
+    }
+
+    await restorePlan(storedPlan.id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Plan restored",
+      data: { id: storedPlan.id },
+    };
+
+    res.json(response);
+  })
+);
+
+/**
+ * Pin or unpin a plan; pinned plans are never removed by the retention policy
+ */
+const updatePinned = (pinned: boolean) =>
+  asyncHandler(async (req, res) => {
+    const planId = req.validated?.params?.id;
+
+    logger.info("Plan pin request received", { planId, pinned });
+
+    const storedPlan = await getPlanById(planId!);
+
+    if (!storedPlan || !canAccessPlan(req.auth, storedPlan)) {
+      const response: ApiResponse = {
+        success: false,
+        message: "Plan not found",
+        error: "No plan exists with the provided ID",
+      };
+      return res.status(404).json(response);
+    }
+
+    await setPlanPinned(storedPlan.id, pinned);
+
+    const response: ApiResponse = {
+      success: true,
+      message: pinned ? "Plan pinned" : "Plan unpinned",
+      data: { id: storedPlan.id, pinned },
+    };
+
+    res.json(response);
+  });
+
+// PUT /:id/pin - Keep a plan whatever the retention policy
+plansRouter.put(
+  "/:id/pin",
+  validateRequest(GetPlanParamsSchema, "params"),
+  updatePinned(true)
+);
+
+// DELETE /:id/pin - Let the retention policy remove the plan again
+plansRouter.delete(
+  "/:id/pin",
+  validateRequest(GetPlanParamsSchema, "params"),
+  updatePinned(false)
+);
+
+// DELETE / - Archive, or with ?permanent=true delete, every matching plan
+plansRouter.delete(
+  "/",
+  validateRequest(DeletePlansQuerySchema, "query"),
+  asyncHandler(async (req, res) => {
+    const { permanent, ...filters } = req.validated?.query as DeletePlansQuery;
+
+    logger.info("Bulk plan deletion request received", { filters, permanent });
+
+    // Non-admin keys only delete their own plans
+    const ids = await deletePlans(
+      { ...filters, ownerKeyId: getOwnerFilter(req.auth) },
+      permanent
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: permanent ? "Plans deleted permanently" : "Plans archived",
+      data: { count: ids.length, ids },
     };
 
     res.json(response);
@@ -100,10 +637,19 @@ plansRouter.get(
       limit: queryParams.limit,
       sortBy: queryParams.sortBy,
       sortOrder: queryParams.sortOrder,
+      q: queryParams.q,
+      cursor: queryParams.after
+        ? "after"
+        : queryParams.before
+        ? "before"
+        : undefined,
     });
 
-    // Retrieve plans from storage
-    const result = await listPlans(queryParams);
+    // Retrieve plans from storage; non-admin keys only see their own plans
+    const result = await listPlans({
+      ...queryParams,
+      ownerKeyId: getOwnerFilter(req.auth),
+    });
 
     logger.info("Plans retrieved successfully", {
       page: queryParams.page,
@@ -112,11 +658,22 @@ plansRouter.get(
       returned: result.plans.length,
     });
 
-    // Build paginated response
-    const response: PaginatedResponse<typeof result.plans> = {
+    // Summaries come from the index; full plans are loaded only on request
+    const plans =
+      queryParams.include === "plan"
+        ? (
+            await Promise.all(
+              result.plans.map((summary) => getPlanById(summary.id))
+            )
+          )
+            .filter((plan): plan is StoredPlan => plan !== null)
+            .map((plan) => formatPlanResponse(plan, queryParams.format))
+        : result.plans;
+
+    const response: PaginatedResponse<typeof plans> = {
       success: true,
       message: "Plans retrieved successfully",
-      data: result.plans,
+      data: plans,
       pagination: result.pagination,
     };
 
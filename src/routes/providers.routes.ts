@@ -0,0 +1,22 @@
+import { Router } from "express";
+import config from "../config";
+import llmClient from "../llm";
+import { ApiResponse } from "../types";
+
+const providersRouter = Router();
+
+// GET / - Configured LLM providers and the models a plan request may select
+providersRouter.get("/", (req, res) => {
+  const response: ApiResponse = {
+    success: true,
+    message: "Providers retrieved successfully",
+    data: {
+      providers: llmClient.getModelOptions(),
+      maxTokensLimit: config.llmMaxTokensLimit,
+    },
+  };
+
+  res.json(response);
+});
+
+export default providersRouter;
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { getOwnerFilter } from "../auth";
+import asyncHandler from "../middleware/asyncHandler.middleware";
+import validateRequest from "../middleware/validate.middleware";
+import { StatsQuery, StatsQuerySchema } from "../schemas/stats.schema";
+import { getPlanStats } from "../stats";
+import { ApiResponse } from "../types";
+import logger from "../utils/logger";
+
+const statsRouter = Router();
+
+// GET / - Usage and cost statistics over stored plans
+statsRouter.get(
+  "/",
+  validateRequest(StatsQuerySchema, "query"),
+  asyncHandler(async (req, res) => {
+    const { from, to } = req.validated?.query as StatsQuery;
+
+    logger.info("Stats request received", { from, to });
+
+    // Non-admin keys only see the usage of their own plans
+    const stats = await getPlanStats(from, to, getOwnerFilter(req.auth));
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Stats retrieved successfully",
+      data: stats,
+    };
+
+    res.json(response);
+  })
+);
+
+export default statsRouter;
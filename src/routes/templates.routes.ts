@@ -0,0 +1,21 @@
+import { Router } from "express";
+import templateRegistry, { DEFAULT_TEMPLATE_NAME } from "../llm/templates";
+import { ApiResponse } from "../types";
+
+const templatesRouter = Router();
+
+// GET / - Plan templates a plan request may select
+templatesRouter.get("/", (req, res) => {
+  const response: ApiResponse = {
+    success: true,
+    message: "Templates retrieved successfully",
+    data: {
+      templates: templateRegistry.list(),
+      defaultTemplate: DEFAULT_TEMPLATE_NAME,
+    },
+  };
+
+  res.json(response);
+});
+
+export default templatesRouter;
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+// Admin keys manage keys and see every plan; user keys only see their own plans
+export const ApiKeyRoleSchema = z.enum(["admin", "user"]);
+
+// Create API Key Request Schema
+export const CreateApiKeyRequestSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name cannot be empty")
+    .max(100, "Name cannot exceed 100 characters"),
+  role: ApiKeyRoleSchema.optional().default("user"),
+  // Per-key overrides of the configured daily quotas; 0 = unlimited
+  dailyPlanQuota: z.number().int().nonnegative().optional(),
+  dailyTokenQuota: z.number().int().nonnegative().optional(),
+});
+
+// API Key Parameters Schema
+export const ApiKeyParamsSchema = z.object({
+  id: z.string().uuid("Invalid API key ID format"),
+});
+
+// TypeScript types inferred from schemas
+export type ApiKeyRole = z.infer<typeof ApiKeyRoleSchema>;
+export type CreateApiKeyRequest = z.infer<typeof CreateApiKeyRequestSchema>;
+export type ApiKeyParams = z.infer<typeof ApiKeyParamsSchema>;
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { encodePlanCursor } from "../storage/cursor";
+import { ListPlansQuerySchema } from "./plan.schema";
+
+describe("ListPlansQuerySchema", () => {
+  const cursor = encodePlanCursor({
+    createdAt: "2026-01-01T00:00:00.000Z",
+    id: "5f0c6a0e-8a4f-4d6b-9f57-1c2d3e4f5a6b",
+  });
+
+  it("decodes a cursor when listing by creation time", () => {
+    const result = ListPlansQuerySchema.safeParse({ after: cursor });
+
+    assert.equal(result.success, true);
+    assert.equal(
+      result.success && result.data.after?.createdAt,
+      "2026-01-01T00:00:00.000Z"
+    );
+  });
+
+  it("rejects a cursor on a search sorted by relevance by default", () => {
+    const result = ListPlansQuerySchema.safeParse({
+      q: "login",
+      after: cursor,
+    });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(
+      !result.success && result.error.issues.map((issue) => issue.path),
+      [["sortBy"]]
+    );
+  });
+
+  it("accepts a cursor on a search sorted by creation time", () => {
+    const result = ListPlansQuerySchema.safeParse({
+      q: "login",
+      before: cursor,
+      sortBy: "createdAt",
+    });
+
+    assert.equal(result.success, true);
+  });
+
+  it("rejects a cursor with another sort key", () => {
+    const result = ListPlansQuerySchema.safeParse({
+      after: cursor,
+      sortBy: "planningTime",
+    });
+
+    assert.equal(result.success, false);
+  });
+});
@@ -1,4 +1,27 @@
 import { z } from "zod";
+import templateRegistry from "../llm/templates";
+import { decodePlanCursor } from "../storage/cursor";
+import {
+  PlanFormatSchema,
+  StructuredPlanSchema,
+} from "./structuredPlan.schema";
+
+// LLM providers a request may select
+export const LLMProviderSchema = z.enum([
+  "openai",
+  "anthropic",
+  "deepseek",
+  "local",
+  "mock",
+]);
+
+// Free-form labels for finding plans later; stored lower-cased
+export const PlanTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tags cannot be empty")
+  .max(50, "Tags cannot exceed 50 characters");
 
 // Create Plan Request Schema
 export const CreatePlanRequestSchema = z.object({
@@ -6,6 +29,63 @@ export const CreatePlanRequestSchema = z.object({
     .string()
     .min(10, "Task description must be at least 10 characters")
     .max(2000, "Task description cannot exceed 2000 characters"),
+  codebasePath: z
+    .string()
+    .min(1, "Codebase path cannot be empty")
+    .max(1024, "Codebase path cannot exceed 1024 characters")
+    .optional(),
+  format: PlanFormatSchema, // representation(s) returned in the response
+  async: z.boolean().optional().default(false), // queue and return 202 with the plan id
+  provider: LLMProviderSchema.optional(), // defaults to DEFAULT_LLM_PROVIDER
+  model: z
+    .string()
+    .min(1, "Model cannot be empty")
+    .max(200, "Model cannot exceed 200 characters")
+    .optional(), // must be in the provider's allow-list
+  temperature: z
+    .number()
+    .min(0, "Temperature must be at least 0")
+    .max(2, "Temperature cannot exceed 2")
+    .optional(),
+  maxTokens: z
+    .number()
+    .int("maxTokens must be an integer")
+    .positive("maxTokens must be positive")
+    .optional(),
+  template: z
+    .string()
+    .refine((name) => templateRegistry.has(name), {
+      message: `Unknown template. Available templates: ${templateRegistry
+        .names()
+        .join(", ")}`,
+    })
+    .optional(), // planning style, see GET /api/templates
+  tags: z
+    .array(PlanTagSchema)
+    .max(20, "A plan cannot have more than 20 tags")
+    .transform((tags) => Array.from(new Set(tags)))
+    .optional(),
+});
+
+// Plan lifecycle: queued -> running -> completed | failed
+export const PlanStatusSchema = z.enum([
+  "queued",
+  "running",
+  "completed",
+  "failed",
+]);
+
+// Token usage reported by the LLM provider
+export const TokenUsageSchema = z.object({
+  prompt: z.number().int().nonnegative(),
+  completion: z.number().int().nonnegative(),
+  total: z.number().int().nonnegative(),
+});
+
+// Result of checking a plan against its template's structure rules
+export const PlanValidationResultSchema = z.object({
+  isValid: z.boolean(),
+  issues: z.array(z.string()),
 });
 
 // Plan Response Schema
@@ -13,13 +93,51 @@ export const PlanResponseSchema = z.object({
   id: z.string().uuid("Invalid UUID format"),
   taskDescription: z.string(),
   plan: z.string(), // Markdown formatted plan
+  structuredPlan: StructuredPlanSchema.optional(), // Parsed phases/steps for agents
+  codebasePath: z.string().optional(), // Analyzed codebase, if any
   createdAt: z.string().datetime("Invalid ISO date format"),
   planningTime: z.number(), // in milliseconds
+  revision: z.number().int().positive().optional(), // 1 for the generated plan, +1 per refinement
+  updatedAt: z.string().datetime("Invalid ISO date format").optional(),
+  provider: z.string().optional(), // LLM provider that produced the current revision
+  model: z.string().optional(),
+  temperature: z.number().optional(), // requested sampling settings, if any
+  maxTokens: z.number().int().positive().optional(),
+  template: z.string().optional(), // plan template the plan was generated with
+  tags: z.array(z.string()).optional(),
+  tokensUsed: TokenUsageSchema.optional(),
+  finishReason: z.string().optional(), // 'stop', 'length', 'content_filter'
+  fallbackUsed: z.boolean().optional(), // primary provider failed, a fallback answered
+  retries: z.number().int().nonnegative().optional(), // attempts after the first
+  estimatedCost: z.number().nonnegative().optional(), // USD, from the price table
+  validation: PlanValidationResultSchema.optional(), // of the current revision
+  repairRounds: z.number().int().nonnegative().optional(), // re-prompts to fix validation issues
+  error: z.string().optional(), // failure reason for failed plans
+  ownerKeyId: z.string().optional(), // API key that created the plan
+  archivedAt: z.string().datetime("Invalid ISO date format").optional(), // soft-deleted, hidden from listings
+  pinned: z.boolean().optional(), // never removed by the retention policy
 });
 
 // Stored Plan Schema - extends PlanResponse with status
 export const StoredPlanSchema = PlanResponseSchema.extend({
-  status: z.enum(["completed", "failed"]),
+  status: PlanStatusSchema,
+});
+
+// Why a plan revision was created
+export const PlanRevisionReasonSchema = z.enum(["generated", "refined"]);
+
+// Plan Revision Schema - immutable snapshot of the plan content
+export const PlanRevisionSchema = z.object({
+  revision: z.number().int().positive(),
+  plan: z.string(), // Markdown formatted plan
+  structuredPlan: StructuredPlanSchema.optional(),
+  createdAt: z.string().datetime("Invalid ISO date format"),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  tokensUsed: TokenUsageSchema.optional(),
+  estimatedCost: z.number().nonnegative().optional(),
+  reason: PlanRevisionReasonSchema,
+  feedback: z.string().optional(), // refinement instructions that led to it
 });
 
 // Get Plan Parameters Schema
@@ -27,18 +145,163 @@ export const GetPlanParamsSchema = z.object({
   id: z.string().uuid("Invalid UUID format"),
 });
 
-// List Plans Query Schema for pagination
-export const ListPlansQuerySchema = z.object({
+// Refine Plan Request Schema
+export const RefinePlanRequestSchema = z.object({
+  feedback: z
+    .string()
+    .trim()
+    .min(3, "Feedback must be at least 3 characters")
+    .max(2000, "Feedback cannot exceed 2000 characters"),
+  format: PlanFormatSchema,
+});
+
+// Get Plan Revision Parameters Schema
+export const GetPlanRevisionParamsSchema = z.object({
+  id: z.string().uuid("Invalid UUID format"),
+  revision: z.coerce.number().int().positive("Revision must be positive"),
+});
+
+// Plan Revision Diff Query Schema - defaults to the latest revision vs. the one before
+export const PlanRevisionDiffQuerySchema = z.object({
+  from: z.coerce
+    .number()
+    .int()
+    .positive("Revision must be positive")
+    .optional(),
+  to: z.coerce.number().int().positive("Revision must be positive").optional(),
+});
+
+// Get Plan Query Schema
+export const GetPlanQuerySchema = z.object({
+  format: PlanFormatSchema,
+});
+
+// Query parameter given as a comma-separated list and/or repeated
+const commaSeparated = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .preprocess(
+      (value) =>
+        (Array.isArray(value) ? value : [value])
+          .flatMap((part) =>
+            typeof part === "string" ? part.split(",") : part
+          )
+          .map((part) => (typeof part === "string" ? part.trim() : part))
+          .filter((part) => part !== ""),
+      z.array(item).min(1)
+    )
+    .optional();
+
+// Opaque cursor from a previous page's nextCursor or prevCursor
+const PlanCursorSchema = z
+  .string()
+  .transform((cursor, ctx) => {
+    const decoded = decodePlanCursor(cursor);
+    if (!decoded) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return decoded;
+  })
+  .optional();
+
+// Search and filters selecting plans to list or delete
+const PlanFiltersSchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .max(200, "Search query cannot exceed 200 characters")
+    .optional()
+    .transform((q) => q || undefined), // over task description and plan content
+  status: commaSeparated(PlanStatusSchema), // any of
+  provider: commaSeparated(z.string()), // any of
+  template: commaSeparated(z.string()), // any of
+  tags: commaSeparated(PlanTagSchema), // all of
+  from: z.coerce.date().optional(), // createdAt >= from
+  to: z.coerce.date().optional(), // createdAt < to
+  // Archived plans are hidden unless included or asked for alone
+  archived: z
+    .enum(["exclude", "include", "only"])
+    .optional()
+    .default("exclude"),
+});
+
+const isDateRangeOrdered = (filters: { from?: Date; to?: Date }) =>
+  !filters.from || !filters.to || filters.from < filters.to;
+
+const DATE_RANGE_ERROR = {
+  message: "`from` must be before `to`",
+  path: ["from"],
+};
+
+// List Plans Query Schema for pagination, search and filters
+export const ListPlansQuerySchema = PlanFiltersSchema.extend({
   page: z.coerce.number().int().min(1).optional().default(1),
+  after: PlanCursorSchema, // instead of page: plans after this cursor
+  before: PlanCursorSchema, // instead of page: plans before this cursor
   limit: z.coerce.number().int().min(1).max(100).optional().default(10),
-  sortBy: z.enum(["createdAt"]).optional().default("createdAt"),
+  // Defaults to relevance when searching, createdAt otherwise
+  sortBy: z
+    .enum(["createdAt", "updatedAt", "planningTime", "relevance"])
+    .optional(),
   sortOrder: z.enum(["asc", "desc"]).optional().default("desc"),
+  include: z.enum(["plan"]).optional(), // full plans instead of summaries
+  format: PlanFormatSchema, // with include=plan
+})
+  .refine(isDateRangeOrdered, DATE_RANGE_ERROR)
+  .refine((query) => !query.after || !query.before, {
+    message: "Only one of `after` and `before` can be given",
+    path: ["before"],
+  })
+  // Searches sort by relevance unless told otherwise, which cursors cannot follow
+  .refine(
+    (query) =>
+      (!query.after && !query.before) ||
+      (query.sortBy || (query.q ? "relevance" : "createdAt")) === "createdAt",
+    {
+      message:
+        "Cursors can only be used when sorting by createdAt; searches need sortBy=createdAt",
+      path: ["sortBy"],
+    }
+  );
+
+// Query parameter given as "true" or "false"
+const booleanFlag = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((value) => value === "true");
+
+// Delete Plan Query Schema - archive unless the plan is purged
+export const DeletePlanQuerySchema = z.object({
+  permanent: booleanFlag,
 });
 
+// Delete Plans Query Schema - bulk delete of the plans matching the filters
+export const DeletePlansQuerySchema = PlanFiltersSchema.extend({
+  permanent: booleanFlag,
+})
+  .refine(isDateRangeOrdered, DATE_RANGE_ERROR)
+  .refine(
+    ({ permanent: _permanent, archived, ...filters }) =>
+      archived === "only" ||
+      Object.values(filters).some((value) => value !== undefined),
+    { message: "At least one filter is required to delete plans" }
+  );
+
 // TypeScript types inferred from schemas
 export type CreatePlanRequest = z.infer<typeof CreatePlanRequestSchema>;
+export type PlanStatus = z.infer<typeof PlanStatusSchema>;
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+export type PlanValidationResult = z.infer<typeof PlanValidationResultSchema>;
 export type PlanResponse = z.infer<typeof PlanResponseSchema>;
 export type StoredPlan = z.infer<typeof StoredPlanSchema>;
+export type RefinePlanRequest = z.infer<typeof RefinePlanRequestSchema>;
+export type PlanRevisionReason = z.infer<typeof PlanRevisionReasonSchema>;
+export type PlanRevision = z.infer<typeof PlanRevisionSchema>;
+export type GetPlanRevisionParams = z.infer<typeof GetPlanRevisionParamsSchema>;
+export type PlanRevisionDiffQuery = z.infer<typeof PlanRevisionDiffQuerySchema>;
 export type GetPlanParams = z.infer<typeof GetPlanParamsSchema>;
+export type GetPlanQuery = z.infer<typeof GetPlanQuerySchema>;
 export type ListPlansQuery = z.infer<typeof ListPlansQuerySchema>;
+export type DeletePlanQuery = z.infer<typeof DeletePlanQuerySchema>;
+export type DeletePlansQuery = z.infer<typeof DeletePlansQuerySchema>;
 
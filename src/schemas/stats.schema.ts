@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+// Stats Query Schema - optional createdAt range, `to` is exclusive
+export const StatsQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from < query.to, {
+    message: "`from` must be before `to`",
+    path: ["from"],
+  });
+
+// TypeScript types inferred from schemas
+export type StatsQuery = z.infer<typeof StatsQuerySchema>;
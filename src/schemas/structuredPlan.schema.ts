@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+// A single actionable step inside a phase
+export const PlanStepSchema = z.object({
+  id: z.string(), // e.g. "2.1" (phase 2, step 1)
+  order: z.number().int().min(1),
+  description: z.string(),
+  files: z.array(z.string()), // file paths referenced by the step
+  dependsOn: z.array(z.string()), // ids of steps that must be completed first
+});
+
+// A phase groups ordered steps with the criteria that mark it as done
+export const PlanPhaseSchema = z.object({
+  id: z.string(), // e.g. "2"
+  order: z.number().int().min(1),
+  title: z.string(),
+  steps: z.array(PlanStepSchema),
+  dependsOn: z.array(z.string()), // ids of phases that must be completed first
+  acceptanceCriteria: z.array(z.string()),
+});
+
+// Machine-readable representation of a generated plan
+export const StructuredPlanSchema = z.object({
+  version: z.literal(1),
+  phases: z.array(PlanPhaseSchema),
+  files: z.array(z.string()), // every file referenced anywhere in the plan
+});
+
+// Which representation(s) of a plan an API response should carry
+export const PlanFormatSchema = z
+  .enum(["markdown", "structured", "both"])
+  .optional()
+  .default("both");
+
+// TypeScript types inferred from schemas
+export type PlanStep = z.infer<typeof PlanStepSchema>;
+export type PlanPhase = z.infer<typeof PlanPhaseSchema>;
+export type StructuredPlan = z.infer<typeof StructuredPlanSchema>;
+export type PlanFormat = z.infer<typeof PlanFormatSchema>;
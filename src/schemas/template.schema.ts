@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+// Structural checks applied to a generated plan
+export const PlanValidationRulesSchema = z.object({
+  minLength: z.number().int().nonnegative().default(50), // characters
+  maxLength: z.number().int().positive().default(10000),
+  minPhases: z.number().int().nonnegative().default(2),
+  maxPhases: z.number().int().positive().optional(),
+  minBullets: z.number().int().nonnegative().default(4),
+  minBulletsPerPhase: z.number().nonnegative().default(2), // on average
+  requireActionWords: z.boolean().default(true),
+  // Keywords that must appear in some phase title; "a|b" accepts either
+  requiredPhases: z.array(z.string().min(1)).default([]),
+});
+
+// Plan template as written in a template file
+export const PlanTemplateSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9-]*$/,
+      "Template name must be lowercase letters, digits and dashes"
+    )
+    .max(50, "Template name cannot exceed 50 characters"),
+  description: z.string().max(500).default(""),
+  systemPrompt: z.string().min(1, "System prompt cannot be empty"),
+  instructions: z
+    .array(z.string().min(1))
+    .min(1, "At least one instruction is required"), // numbered in the prompt
+  outputFormat: z.string().min(1, "Output format cannot be empty"), // example Markdown
+  validation: PlanValidationRulesSchema.default({}),
+});
+
+// TypeScript types inferred from schemas
+export type PlanValidationRules = z.infer<typeof PlanValidationRulesSchema>;
+export type PlanTemplate = z.infer<typeof PlanTemplateSchema>;
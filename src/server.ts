@@ -1,39 +1,38 @@
 import cors from "cors";
 import express from "express";
-import morgan from "morgan";
 import config from "./config";
-import llmClient from "./llm/client";
+import { providerHealthMonitor } from "./health";
+import planJobRunner from "./jobs";
+import { authenticate } from "./middleware/auth.middleware";
+import recordRequestMetrics from "./middleware/metrics.middleware";
+import assignRequestId from "./middleware/requestContext.middleware";
+import { retentionSweeper } from "./retention";
 import router from "./routes";
+import healthRouter from "./routes/health.routes";
+import metricsRouter from "./routes/metrics.routes";
+import { flushStorage } from "./storage";
 import { ApiResponse, ErrorResponse } from "./types";
 import logger from "./utils/logger";
 
 const app = express();
 
 // Middleware
+app.use(assignRequestId);
+app.use(recordRequestMetrics);
 app.use(cors());
-app.use(morgan("combined"));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // API routes
 
 const API_PREFIX = config.apiPrefix;
-app.use(API_PREFIX, router);
+app.use(API_PREFIX, authenticate, router);
 
-// Health check endpoint
-app.get("/health", (req, res) => {
-  const response: ApiResponse = {
-    success: true,
-    message: "Planning Layer API is running",
-    data: {
-      status: "healthy",
-      timestamp: new Date().toISOString(),
-      environment: config.nodeEnv,
-      version: "1.0.0",
-    },
-  };
-  res.json(response);
-});
+// Health check endpoints
+app.use("/health", healthRouter);
+
+// Prometheus scrape endpoint
+app.use("/metrics", metricsRouter);
 
 // Root endpoint
 app.get("/", (req, res) => {
@@ -45,10 +44,29 @@ app.get("/", (req, res) => {
         "REST API service that generates planning layer for coding agents",
       endpoints: {
         health: "/health",
+        liveness: "/health/live",
+        readiness: "/health/ready",
+        metrics: "/metrics",
         plans: "/api/plans",
         createPlan: "POST /api/plans",
+        createPlanStream: "POST /api/plans/stream",
+        refinePlan: "POST /api/plans/:id/refine",
+        listRevisions: "GET /api/plans/:id/revisions",
+        diffRevisions: "GET /api/plans/:id/revisions/diff",
         getPlan: "GET /api/plans/:id",
         listPlans: "GET /api/plans",
+        deletePlan: "DELETE /api/plans/:id",
+        restorePlan: "POST /api/plans/:id/restore",
+        pinPlan: "PUT /api/plans/:id/pin",
+        unpinPlan: "DELETE /api/plans/:id/pin",
+        deletePlans: "DELETE /api/plans",
+        providers: "GET /api/providers",
+        stats: "GET /api/stats",
+        templates: "GET /api/templates",
+        createApiKey: "POST /api/admin/keys",
+        listApiKeys: "GET /api/admin/keys",
+        revokeApiKey: "DELETE /api/admin/keys/:id",
+        retentionDryRun: "GET /api/admin/retention",
       },
     },
   };
@@ -90,10 +108,10 @@ const server = app.listen(config.port, async () => {
   logger.info(` Environment: ${config.nodeEnv}`);
   logger.info(` Health check: http://localhost:${config.port}/health`);
 
-  // Validate LLM providers on startup
+  // Validate LLM providers on startup; re-checked periodically for /health/ready
   try {
     logger.info("Validating LLM provider configurations...");
-    const validation = await llmClient.validateProviders();
+    const validation = await providerHealthMonitor.start();
 
     if (validation.working.length === 0) {
       logger.warn("⚠️  No working LLM providers found!");
@@ -116,6 +134,8 @@ const server = app.listen(config.port, async () => {
         logger.info("  - OPENAI_API_KEY for OpenAI");
         logger.info("  - ANTHROPIC_API_KEY for Anthropic");
         logger.info("  - DEEPSEEK_API_KEY for DeepSeek");
+        logger.info("  - LOCAL_LLM_BASE_URL for a local OpenAI-compatible server");
+        logger.info("  - or MOCK_LLM_ENABLED=true for offline development");
       }
     } else {
       logger.info(
@@ -134,24 +154,34 @@ const server = app.listen(config.port, async () => {
   } catch (error) {
     logger.error("Failed to validate LLM providers:", error);
   }
-});
 
-// Graceful shutdown
-process.on("SIGTERM", () => {
-  logger.info("SIGTERM received, shutting down gracefully");
-  server.close(() => {
-    logger.info("Server closed");
-    process.exit(0);
-  });
+  // Resume or fail async plan jobs interrupted by the last shutdown
+  try {
+    await planJobRunner.recover();
+  } catch (error) {
+    logger.error("Failed to recover plan jobs:", error);
+  }
+
+  // Prune plans past the retention policy, if any rule is set
+  retentionSweeper.start();
 });
 
-process.on("SIGINT", () => {
-  logger.info("SIGINT received, shutting down gracefully");
-  server.close(() => {
+// Graceful shutdown: stop accepting requests, then write out buffered storage
+const shutdown = (signal: NodeJS.Signals) => {
+  logger.info(`${signal} received, shutting down gracefully`);
+  server.close(async () => {
     logger.info("Server closed");
+    try {
+      await flushStorage();
+    } catch (error) {
+      logger.error("Failed to flush storage:", error);
+    }
     process.exit(0);
   });
-});
+};
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
 
 export default app;
 
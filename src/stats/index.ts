@@ -0,0 +1,202 @@
+import { PlanStatus, TokenUsage } from "../schemas/plan.schema";
+import { findPlansByDateRange, listPlanRevisions } from "../storage";
+import { StoredPlan } from "../storage/types";
+import logger from "../utils/logger";
+
+/**
+ * Tokens and estimated spend of all LLM runs for one provider and model
+ */
+export interface ProviderUsage {
+  provider: string;
+  model: string;
+  runs: number; // generations and refinements
+  tokens: TokenUsage;
+  estimatedCost: number; // USD; runs without a known price count as 0
+}
+
+/**
+ * Usage details recorded for a single LLM run on a plan or revision
+ */
+type UsageRun = Pick<
+  StoredPlan,
+  "provider" | "model" | "tokensUsed" | "estimatedCost"
+>;
+
+/**
+ * Aggregated usage and cost statistics over stored plans
+ */
+export interface PlanStats {
+  range: { from?: string; to?: string };
+  totalPlans: number;
+  byStatus: Record<PlanStatus, number>;
+  plansPerDay: { date: string; count: number }[]; // UTC days, oldest first
+  planningTime: { average: number; p95: number }; // ms, completed plans only
+  byProvider: ProviderUsage[]; // most expensive first
+  totals: { tokens: TokenUsage; estimatedCost: number };
+  fallbackRate: number; // share of completed plans answered by a fallback provider
+  failureReasons: { reason: string; count: number }[]; // most frequent first
+}
+
+/**
+ * Nearest-rank percentile of an ascending list of numbers
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+const roundCost = (cost: number) => Math.round(cost * 1_000_000) / 1_000_000;
+
+/**
+ * Aggregate statistics over plans created in [from, to), optionally only the
+ * plans owned by one API key
+ */
+export async function getPlanStats(
+  from?: Date,
+  to?: Date,
+  ownerKeyId?: string
+): Promise<PlanStats> {
+  const range = {
+    from: from?.toISOString(),
+    to: to?.toISOString(),
+  };
+  const plans = (await findPlansByDateRange(range.from, range.to)).filter(
+    (plan) => !ownerKeyId || plan.ownerKeyId === ownerKeyId
+  );
+
+  const byStatus: Record<PlanStatus, number> = {
+    queued: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+  };
+  const plansPerDay = new Map<string, number>();
+  const planningTimes: number[] = [];
+  const usage = new Map<string, ProviderUsage>();
+  const failureReasons = new Map<string, number>();
+  let fallbackCount = 0;
+
+  const addUsage = (run: UsageRun) => {
+    const provider = run.provider || "unknown";
+    const model = run.model || "unknown";
+    const key = `${provider}\u0000${model}`;
+
+    const entry = usage.get(key) || {
+      provider,
+      model,
+      runs: 0,
+      tokens: { prompt: 0, completion: 0, total: 0 },
+      estimatedCost: 0,
+    };
+
+    entry.runs++;
+    entry.tokens.prompt += run.tokensUsed?.prompt || 0;
+    entry.tokens.completion += run.tokensUsed?.completion || 0;
+    entry.tokens.total += run.tokensUsed?.total || 0;
+    entry.estimatedCost += run.estimatedCost || 0;
+    usage.set(key, entry);
+  };
+
+  for (const plan of plans) {
+    byStatus[plan.status] = (byStatus[plan.status] || 0) + 1;
+
+    const day = plan.createdAt.slice(0, 10);
+    plansPerDay.set(day, (plansPerDay.get(day) || 0) + 1);
+
+    if (plan.status === "failed") {
+      const reason = plan.error || "Unknown error";
+      failureReasons.set(reason, (failureReasons.get(reason) || 0) + 1);
+      continue;
+    }
+
+    if (plan.status !== "completed") {
+      continue;
+    }
+
+    planningTimes.push(plan.planningTime);
+    if (plan.fallbackUsed) {
+      fallbackCount++;
+    }
+
+    await addPlanUsage(plan, addUsage);
+  }
+
+  const byProvider = Array.from(usage.values())
+    .map((entry) => ({
+      ...entry,
+      estimatedCost: roundCost(entry.estimatedCost),
+    }))
+    .sort((a, b) => b.estimatedCost - a.estimatedCost || b.runs - a.runs);
+
+  const totals = byProvider.reduce(
+    (sum, entry) => ({
+      tokens: {
+        prompt: sum.tokens.prompt + entry.tokens.prompt,
+        completion: sum.tokens.completion + entry.tokens.completion,
+        total: sum.tokens.total + entry.tokens.total,
+      },
+      estimatedCost: roundCost(sum.estimatedCost + entry.estimatedCost),
+    }),
+    { tokens: { prompt: 0, completion: 0, total: 0 }, estimatedCost: 0 }
+  );
+
+  const sortedTimes = [...planningTimes].sort((a, b) => a - b);
+  const averageTime =
+    sortedTimes.length > 0
+      ? Math.round(
+          sortedTimes.reduce((sum, time) => sum + time, 0) / sortedTimes.length
+        )
+      : 0;
+
+  const stats: PlanStats = {
+    range,
+    totalPlans: plans.length,
+    byStatus,
+    plansPerDay: Array.from(plansPerDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, count]) => ({ date, count })),
+    planningTime: {
+      average: averageTime,
+      p95: percentile(sortedTimes, 95),
+    },
+    byProvider,
+    totals,
+    fallbackRate:
+      byStatus.completed > 0 ? fallbackCount / byStatus.completed : 0,
+    failureReasons: Array.from(failureReasons.entries())
+      .map(([reason, count]) => ({ reason, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+
+  logger.info("Plan stats computed", {
+    from: range.from,
+    to: range.to,
+    totalPlans: stats.totalPlans,
+  });
+
+  return stats;
+}
+
+/**
+ * Count the usage of every LLM run that produced a plan. Refined plans only
+ * carry the usage of their latest revision, so their revisions are read.
+ */
+async function addPlanUsage(
+  plan: StoredPlan,
+  addUsage: (run: UsageRun) => void
+): Promise<void> {
+  if ((plan.revision || 1) > 1) {
+    const revisions = await listPlanRevisions(plan);
+    if (revisions.length > 0) {
+      revisions.forEach(addUsage);
+      return;
+    }
+  }
+
+  addUsage(plan);
+}
+
+export default getPlanStats;
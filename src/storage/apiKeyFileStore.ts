@@ -0,0 +1,188 @@
+import { promises as fs } from "fs";
+import path from "path";
+import logger from "../utils/logger";
+import {
+  ApiKeyQuotas,
+  ApiKeyRecord,
+  ApiKeyStore,
+  ApiKeyUsage,
+  PlanReservation,
+} from "./types";
+
+// Days of usage history kept per key
+const USAGE_RETENTION_DAYS = 31;
+
+/**
+ * Contents of the API keys file
+ */
+interface ApiKeyFile {
+  keys: ApiKeyRecord[];
+  usage: Record<string, Record<string, Omit<ApiKeyUsage, "day">>>; // keyId -> day -> totals
+}
+
+/**
+ * API key store that keeps all keys and their daily usage in api-keys.json
+ * inside the storage directory
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private storageDir: string;
+  private keysFile: string;
+  // Serializes read-modify-write cycles on the file within this process
+  private fileLock: Promise<void> = Promise.resolve();
+
+  constructor(storageDir: string) {
+    this.storageDir = storageDir;
+    this.keysFile = path.join(storageDir, "api-keys.json");
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.storageDir, { recursive: true });
+  }
+
+  private async readFile(): Promise<ApiKeyFile> {
+    try {
+      const data = await fs.readFile(this.keysFile, "utf-8");
+      return JSON.parse(data) as ApiKeyFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error("Failed to read API keys file", {
+          error: error instanceof Error ? error.message : String(error),
+          keysFile: this.keysFile,
+        });
+        throw error;
+      }
+      return { keys: [], usage: {} };
+    }
+  }
+
+  private async writeFile(contents: ApiKeyFile): Promise<void> {
+    await this.init();
+
+    // Atomic write: write to a temp file, then rename
+    const tempFile = `${this.keysFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(contents, null, 2));
+    await fs.rename(tempFile, this.keysFile);
+  }
+
+  /**
+   * Run a read-modify-write cycle after any cycle already in flight
+   */
+  private async withFileLock<T>(
+    operation: (contents: ApiKeyFile) => Promise<T> | T
+  ): Promise<T> {
+    const previous = this.fileLock;
+    let release!: () => void;
+    this.fileLock = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    try {
+      await previous;
+      const contents = await this.readFile();
+      const result = await operation(contents);
+      await this.writeFile(contents);
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  async saveApiKey(record: ApiKeyRecord): Promise<void> {
+    await this.withFileLock((contents) => {
+      const existing = contents.keys.findIndex((key) => key.id === record.id);
+      if (existing >= 0) {
+        contents.keys[existing] = record;
+      } else {
+        contents.keys.push(record);
+      }
+    });
+
+    logger.info("API key saved", { keyId: record.id });
+  }
+
+  async getApiKeyById(id: string): Promise<ApiKeyRecord | null> {
+    const { keys } = await this.readFile();
+    return keys.find((key) => key.id === id) || null;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const { keys } = await this.readFile();
+    return keys.find((key) => key.keyHash === keyHash) || null;
+  }
+
+  async listApiKeys(): Promise<ApiKeyRecord[]> {
+    const { keys } = await this.readFile();
+    return [...keys].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getUsage(keyId: string, day: string): Promise<ApiKeyUsage> {
+    const { usage } = await this.readFile();
+    const totals = usage[keyId]?.[day];
+    return { day, plans: totals?.plans || 0, tokens: totals?.tokens || 0 };
+  }
+
+  async addUsage(
+    keyId: string,
+    day: string,
+    usage: Partial<Omit<ApiKeyUsage, "day">>
+  ): Promise<ApiKeyUsage> {
+    return this.withFileLock((contents) =>
+      this.applyUsage(contents, keyId, day, usage)
+    );
+  }
+
+  async reservePlan(
+    keyId: string,
+    day: string,
+    quotas: ApiKeyQuotas
+  ): Promise<PlanReservation> {
+    return this.withFileLock((contents) => {
+      const current = contents.usage[keyId]?.[day] || { plans: 0, tokens: 0 };
+
+      if (
+        (quotas.dailyPlans > 0 && current.plans >= quotas.dailyPlans) ||
+        (quotas.dailyTokens > 0 && current.tokens >= quotas.dailyTokens)
+      ) {
+        return { reserved: false, usage: { day, ...current } };
+      }
+
+      return {
+        reserved: true,
+        usage: this.applyUsage(contents, keyId, day, { plans: 1 }),
+      };
+    });
+  }
+
+  /**
+   * Add usage to the file contents, dropping days older than the history kept
+   */
+  private applyUsage(
+    contents: ApiKeyFile,
+    keyId: string,
+    day: string,
+    usage: Partial<Omit<ApiKeyUsage, "day">>
+  ): ApiKeyUsage {
+    const days = contents.usage[keyId] || {};
+    const current = days[day] || { plans: 0, tokens: 0 };
+
+    days[day] = {
+      plans: current.plans + (usage.plans || 0),
+      tokens: current.tokens + (usage.tokens || 0),
+    };
+
+    // Drop days that can no longer affect a quota
+    const cutoff = new Date(Date.now() - USAGE_RETENTION_DAYS * 86400000)
+      .toISOString()
+      .slice(0, 10);
+    for (const storedDay of Object.keys(days)) {
+      if (storedDay < cutoff) {
+        delete days[storedDay];
+      }
+    }
+
+    contents.usage[keyId] = days;
+    return { day, ...days[day] };
+  }
+}
+
+export default FileApiKeyStore;
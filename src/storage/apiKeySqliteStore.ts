@@ -0,0 +1,201 @@
+import Database from "better-sqlite3";
+import { promises as fs } from "fs";
+import path from "path";
+import logger from "../utils/logger";
+import {
+  ApiKeyQuotas,
+  ApiKeyRecord,
+  ApiKeyStore,
+  ApiKeyUsage,
+  PlanReservation,
+} from "./types";
+
+interface ApiKeyRow {
+  data: string;
+}
+
+/**
+ * API key store backed by the SQLite database that also holds the plans
+ */
+export class SqliteApiKeyStore implements ApiKeyStore {
+  private dbPath: string;
+  private db: Database.Database | null = null;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  /**
+   * Open the database and create the schema if needed
+   */
+  async init(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+
+      const db = new Database(this.dbPath);
+      db.pragma("journal_mode = WAL");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id TEXT PRIMARY KEY,
+          key_hash TEXT NOT NULL UNIQUE,
+          created_at TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS api_key_usage (
+          key_id TEXT NOT NULL,
+          day TEXT NOT NULL,
+          plans INTEGER NOT NULL DEFAULT 0,
+          tokens INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (key_id, day)
+        );
+      `);
+
+      this.db = db;
+      logger.info("SQLite API key storage initialized", {
+        dbPath: this.dbPath,
+      });
+    } catch (error) {
+      logger.error("Failed to initialize SQLite API key storage", {
+        error: error instanceof Error ? error.message : String(error),
+        dbPath: this.dbPath,
+      });
+      throw error;
+    }
+  }
+
+  private async getDb(): Promise<Database.Database> {
+    await this.init();
+    return this.db!;
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  async saveApiKey(record: ApiKeyRecord): Promise<void> {
+    const db = await this.getDb();
+    db.prepare(
+      `INSERT INTO api_keys (id, key_hash, created_at, data)
+       VALUES (@id, @keyHash, @createdAt, @data)
+       ON CONFLICT(id) DO UPDATE SET
+         key_hash = excluded.key_hash,
+         data = excluded.data`
+    ).run({
+      id: record.id,
+      keyHash: record.keyHash,
+      createdAt: record.createdAt,
+      data: JSON.stringify(record),
+    });
+
+    logger.info("API key saved", { keyId: record.id });
+  }
+
+  async getApiKeyById(id: string): Promise<ApiKeyRecord | null> {
+    const db = await this.getDb();
+    const row = db.prepare("SELECT data FROM api_keys WHERE id = ?").get(id) as
+      | ApiKeyRow
+      | undefined;
+
+    return row ? (JSON.parse(row.data) as ApiKeyRecord) : null;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const db = await this.getDb();
+    const row = db
+      .prepare("SELECT data FROM api_keys WHERE key_hash = ?")
+      .get(keyHash) as ApiKeyRow | undefined;
+
+    return row ? (JSON.parse(row.data) as ApiKeyRecord) : null;
+  }
+
+  async listApiKeys(): Promise<ApiKeyRecord[]> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare("SELECT data FROM api_keys ORDER BY created_at ASC, id ASC")
+      .all() as ApiKeyRow[];
+
+    return rows.map((row) => JSON.parse(row.data) as ApiKeyRecord);
+  }
+
+  async getUsage(keyId: string, day: string): Promise<ApiKeyUsage> {
+    const db = await this.getDb();
+    const row = db
+      .prepare(
+        "SELECT plans, tokens FROM api_key_usage WHERE key_id = ? AND day = ?"
+      )
+      .get(keyId, day) as Omit<ApiKeyUsage, "day"> | undefined;
+
+    return { day, plans: row?.plans || 0, tokens: row?.tokens || 0 };
+  }
+
+  async addUsage(
+    keyId: string,
+    day: string,
+    usage: Partial<Omit<ApiKeyUsage, "day">>
+  ): Promise<ApiKeyUsage> {
+    const db = await this.getDb();
+    const row = db
+      .prepare(
+        `INSERT INTO api_key_usage (key_id, day, plans, tokens)
+         VALUES (@keyId, @day, @plans, @tokens)
+         ON CONFLICT(key_id, day) DO UPDATE SET
+           plans = plans + excluded.plans,
+           tokens = tokens + excluded.tokens
+         RETURNING plans, tokens`
+      )
+      .get({
+        keyId,
+        day,
+        plans: usage.plans || 0,
+        tokens: usage.tokens || 0,
+      }) as Omit<ApiKeyUsage, "day">;
+
+    return { day, ...row };
+  }
+
+  async reservePlan(
+    keyId: string,
+    day: string,
+    quotas: ApiKeyQuotas
+  ): Promise<PlanReservation> {
+    const db = await this.getDb();
+
+    // The quota check is part of the UPDATE, so it cannot be overtaken
+    return db.transaction(() => {
+      db.prepare(
+        `INSERT INTO api_key_usage (key_id, day) VALUES (?, ?)
+         ON CONFLICT(key_id, day) DO NOTHING`
+      ).run(keyId, day);
+
+      const reserved = db
+        .prepare(
+          `UPDATE api_key_usage SET plans = plans + 1
+           WHERE key_id = @keyId AND day = @day
+             AND (@dailyPlans = 0 OR plans < @dailyPlans)
+             AND (@dailyTokens = 0 OR tokens < @dailyTokens)
+           RETURNING plans, tokens`
+        )
+        .get({ keyId, day, ...quotas }) as Omit<ApiKeyUsage, "day"> | undefined;
+      if (reserved) {
+        return { reserved: true, usage: { day, ...reserved } };
+      }
+
+      const current = db
+        .prepare(
+          "SELECT plans, tokens FROM api_key_usage WHERE key_id = ? AND day = ?"
+        )
+        .get(keyId, day) as Omit<ApiKeyUsage, "day">;
+      return { reserved: false, usage: { day, ...current } };
+    })();
+  }
+}
+
+export default SqliteApiKeyStore;
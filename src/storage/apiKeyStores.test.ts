@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import FileApiKeyStore from "./apiKeyFileStore";
+import SqliteApiKeyStore from "./apiKeySqliteStore";
+import { ApiKeyStore } from "./types";
+
+// Usage older than the history kept is dropped, so count against today
+const day = new Date().toISOString().slice(0, 10);
+
+const backends: [name: string, create: (dir: string) => ApiKeyStore][] = [
+  ["file", (dir) => new FileApiKeyStore(dir)],
+  ["sqlite", (dir) => new SqliteApiKeyStore(path.join(dir, "plans.db"))],
+];
+
+for (const [name, createStore] of backends) {
+  describe(`${name} API key store`, () => {
+    let dir: string;
+    let store: ApiKeyStore;
+
+    before(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "api-key-store-"));
+      store = createStore(dir);
+      await store.init();
+    });
+
+    after(async () => {
+      (store as { close?: () => void }).close?.();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("reserves plans up to the daily plan quota", async () => {
+      const quotas = { dailyPlans: 3, dailyTokens: 0 };
+      const reservations = await Promise.all(
+        Array.from({ length: 10 }, () =>
+          store.reservePlan("key-1", day, quotas)
+        )
+      );
+
+      assert.equal(
+        reservations.filter((reservation) => reservation.reserved).length,
+        3
+      );
+      assert.deepEqual(await store.getUsage("key-1", day), {
+        day,
+        plans: 3,
+        tokens: 0,
+      });
+    });
+
+    it("refuses plans once the token quota is used up", async () => {
+      await store.addUsage("key-2", day, { tokens: 500 });
+
+      const reservation = await store.reservePlan("key-2", day, {
+        dailyPlans: 0,
+        dailyTokens: 500,
+      });
+
+      assert.equal(reservation.reserved, false);
+      assert.equal(reservation.usage.plans, 0);
+    });
+  });
+}
@@ -0,0 +1,58 @@
+import { PlanCursor } from "./types";
+
+/**
+ * Opaque cursor for a plan's position in a createdAt listing
+ */
+export function encodePlanCursor(plan: PlanCursor): string {
+  return Buffer.from(`${plan.createdAt}|${plan.id}`).toString("base64url");
+}
+
+/**
+ * Position encoded in a cursor, or null when it is not a valid cursor
+ */
+export function decodePlanCursor(cursor: string): PlanCursor | null {
+  const [createdAt, id, ...rest] = Buffer.from(cursor, "base64url")
+    .toString("utf-8")
+    .split("|");
+
+  if (
+    !createdAt ||
+    !id ||
+    rest.length > 0 ||
+    Number.isNaN(Date.parse(createdAt))
+  ) {
+    return null;
+  }
+
+  return { createdAt, id };
+}
+
+/**
+ * Ascending comparison of two listing positions by createdAt, then id
+ */
+export function comparePlanPositions(a: PlanCursor, b: PlanCursor): number {
+  const createdAt =
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+  if (createdAt !== 0) {
+    return createdAt;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Cursors for the pages around a page of a createdAt listing, set only when
+ * plans follow or precede it
+ */
+export function getPageCursors(
+  plans: PlanCursor[],
+  hasPrevious: boolean,
+  hasNext: boolean
+): { nextCursor?: string; prevCursor?: string } {
+  const first = plans[0];
+  const last = plans[plans.length - 1];
+
+  return {
+    nextCursor: hasNext && last ? encodePlanCursor(last) : undefined,
+    prevCursor: hasPrevious && first ? encodePlanCursor(first) : undefined,
+  };
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import FilePlanStore from "./fileStore";
+
+describe("file plan store search index", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "file-plan-store-"));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("rebuilds a search index that missed saves before a restart", async () => {
+    const store = new FilePlanStore(dir);
+    await store.init();
+    const id = randomUUID();
+    await store.savePlan({
+      id,
+      taskDescription: "Reconcile quarterly ledgers",
+      plan: "## Phase 1\n- Match entries",
+      createdAt: new Date().toISOString(),
+      planningTime: 10,
+      revision: 1,
+    });
+
+    // Searchable at once, while the file still waits for its write
+    const search = { page: 1, limit: 10, q: "ledgers" };
+    const { plans } = await store.listPlans(search);
+    assert.deepEqual(
+      plans.map((plan) => plan.id),
+      [id]
+    );
+    const written = await fs.readFile(
+      path.join(dir, "search-index.json"),
+      "utf-8"
+    );
+    assert.ok(!written.includes(id));
+
+    const restarted = new FilePlanStore(dir);
+    await restarted.init();
+    const { plans: found } = await restarted.listPlans(search);
+    assert.deepEqual(
+      found.map((plan) => plan.id),
+      [id]
+    );
+
+    await store.flush();
+    await restarted.flush();
+  });
+});
@@ -0,0 +1,957 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { PlanResponse, PlanRevision, PlanStatus } from "../schemas/plan.schema";
+import logger from "../utils/logger";
+import { comparePlanPositions, getPageCursors } from "./cursor";
+import { applyMetadataUpdate, keepStoredMetadata } from "./metadata";
+import {
+  assertNewerRevision,
+  buildPlanRevision,
+  RevisionConflictError,
+} from "./revisions";
+import {
+  getSearchFields,
+  resolveSortKey,
+  SearchIndex,
+  SerializedSearchIndex,
+} from "./search";
+import { countPhases, toPlanSummary } from "./summaries";
+import {
+  ListPlansOptions,
+  ListPlansResult,
+  PlanIndex,
+  PlanDeleteConditions,
+  PlanIndexEntry,
+  PlanMetadataUpdate,
+  PlanRevisionNote,
+  PlanSortKey,
+  PlanStore,
+  StorageHealth,
+  StoredPlan,
+} from "./types";
+
+// Constants
+const MAX_PAGE_LIMIT = 100;
+const INDEX_VERSION = 2; // 2: entries carry summary and filter fields
+const SEARCH_INDEX_WRITE_DELAY_MS = 1000;
+
+/**
+ * Index entry with the listing fields of a plan
+ */
+function toIndexEntry(plan: StoredPlan): PlanIndexEntry {
+  return {
+    id: plan.id,
+    taskDescription: plan.taskDescription,
+    createdAt: plan.createdAt,
+    status: plan.status,
+    ownerKeyId: plan.ownerKeyId,
+    updatedAt: plan.updatedAt,
+    planningTime: plan.planningTime,
+    provider: plan.provider,
+    model: plan.model,
+    template: plan.template,
+    tags: plan.tags,
+    phaseCount: countPhases(plan),
+    archivedAt: plan.archivedAt,
+    pinned: plan.pinned,
+  };
+}
+
+/**
+ * Whether an index entry passes the owner, status, provider, template, tag,
+ * date and archive filters of a listing
+ */
+function matchesListFilters(
+  entry: PlanIndexEntry,
+  options: ListPlansOptions
+): boolean {
+  const createdAt = new Date(entry.createdAt).getTime();
+
+  return (
+    (!options.ownerKeyId || entry.ownerKeyId === options.ownerKeyId) &&
+    (!options.status || options.status.includes(entry.status)) &&
+    (!options.provider ||
+      (!!entry.provider && options.provider.includes(entry.provider))) &&
+    (!options.template ||
+      (!!entry.template && options.template.includes(entry.template))) &&
+    (!options.tags ||
+      options.tags.every((tag) => entry.tags?.includes(tag) ?? false)) &&
+    (!options.from || createdAt >= options.from.getTime()) &&
+    (!options.to || createdAt < options.to.getTime()) &&
+    (options.archived === "include" ||
+      !!entry.archivedAt === (options.archived === "only"))
+  );
+}
+
+/**
+ * Ascending comparison of two index entries by a sort key, ties broken by
+ * creation time and then ID
+ */
+function compareEntries(
+  a: PlanIndexEntry,
+  b: PlanIndexEntry,
+  sortBy: PlanSortKey,
+  scores: Map<string, number> | null
+): number {
+  const createdAt = comparePlanPositions(a, b);
+
+  switch (sortBy) {
+    case "relevance":
+      return (scores?.get(a.id) || 0) - (scores?.get(b.id) || 0) || createdAt;
+    case "planningTime":
+      return (a.planningTime || 0) - (b.planningTime || 0) || createdAt;
+    case "updatedAt":
+      return (
+        new Date(a.updatedAt || a.createdAt).getTime() -
+          new Date(b.updatedAt || b.createdAt).getTime() || createdAt
+      );
+    default:
+      return createdAt;
+  }
+}
+
+/**
+ * Plan store that keeps one JSON file per plan plus an index.json for listing
+ * and a search-index.json for full-text search.
+ * Revisions are kept as revisions/<id>/<revision>.json next to the plans.
+ */
+export class FilePlanStore implements PlanStore {
+  private storageDir: string;
+  private indexFile: string;
+  private searchIndexFile: string;
+  private revisionsDir: string;
+  // Serializes read-modify-write cycles on the index within this process
+  private indexLock: Promise<void> = Promise.resolve();
+  private indexUpToDate = false;
+  // Search index kept in memory once loaded, written out after index changes
+  private searchIndex: SearchIndex | null = null;
+  private searchIndexLoad: Promise<SearchIndex> | null = null;
+  private searchIndexWrite: NodeJS.Timeout | undefined;
+  private indexGeneration = 0; // generation of the last index.json written
+
+  constructor(storageDir: string) {
+    this.storageDir = storageDir;
+    this.indexFile = path.join(storageDir, "index.json");
+    this.searchIndexFile = path.join(storageDir, "search-index.json");
+    this.revisionsDir = path.join(storageDir, "revisions");
+  }
+
+  /**
+   * Ensure storage directories exist and initialize index file if needed
+   */
+  async init(): Promise<void> {
+    try {
+      // Create directories recursively
+      await fs.mkdir(this.storageDir, { recursive: true });
+
+      // Check if index file exists, create if not
+      try {
+        await fs.access(this.indexFile);
+      } catch {
+        const emptyIndex: PlanIndex = {
+          plans: [],
+          lastUpdated: new Date().toISOString(),
+          totalCount: 0,
+          version: INDEX_VERSION,
+        };
+        await fs.writeFile(this.indexFile, JSON.stringify(emptyIndex, null, 2));
+        logger.info("Initialized storage index file", {
+          indexFile: this.indexFile,
+        });
+      }
+
+      // Indexes written by older versions are rebuilt once, as is a search
+      // index that missed changes because the process stopped before writing
+      if (!this.indexUpToDate) {
+        const { version, generation } = await this.readIndex();
+        const searchIndexData = await this.readSearchIndex();
+
+        if (
+          !searchIndexData ||
+          searchIndexData.indexGeneration !== generation ||
+          version !== INDEX_VERSION
+        ) {
+          await this.rebuildIndex();
+        } else if (!this.searchIndexLoad) {
+          this.searchIndexLoad = Promise.resolve(
+            SearchIndex.fromJSON(searchIndexData)
+          );
+        }
+        this.indexUpToDate = true;
+      }
+
+      logger.info("Storage directory ensured", { storageDir: this.storageDir });
+    } catch (error) {
+      logger.error("Failed to ensure storage directory", {
+        error: error instanceof Error ? error.message : String(error),
+        storageDir: this.storageDir,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Read the index file
+   */
+  async readIndex(): Promise<PlanIndex> {
+    try {
+      const indexData = await fs.readFile(this.indexFile, "utf-8");
+      return JSON.parse(indexData) as PlanIndex;
+    } catch (error) {
+      logger.warn("Failed to read index file, returning empty index", {
+        error: error instanceof Error ? error.message : String(error),
+        indexFile: this.indexFile,
+      });
+      return {
+        plans: [],
+        lastUpdated: new Date().toISOString(),
+        totalCount: 0,
+      };
+    }
+  }
+
+  /**
+   * Write the index file
+   */
+  async writeIndex(index: PlanIndex): Promise<void> {
+    try {
+      // Update timestamp and generation
+      index.lastUpdated = new Date().toISOString();
+      index.generation = (index.generation || 0) + 1;
+
+      // Use atomic write pattern: write to temp file, then rename
+      const tempFile = `${this.indexFile}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(index, null, 2));
+      await fs.rename(tempFile, this.indexFile);
+      this.indexGeneration = index.generation;
+      this.scheduleSearchIndexWrite();
+
+      logger.info("Index file updated", {
+        indexFile: this.indexFile,
+        totalCount: index.totalCount,
+      });
+    } catch (error) {
+      logger.error("Failed to write index file", {
+        error: error instanceof Error ? error.message : String(error),
+        indexFile: this.indexFile,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Read the search index file
+   */
+  private async readSearchIndex(): Promise<SerializedSearchIndex | null> {
+    try {
+      const data = await fs.readFile(this.searchIndexFile, "utf-8");
+      return JSON.parse(data) as SerializedSearchIndex;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn("Failed to read search index file", {
+          error: error instanceof Error ? error.message : String(error),
+          searchIndexFile: this.searchIndexFile,
+        });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * The in-memory search index, read from its file on first use
+   */
+  private async getSearchIndex(): Promise<SearchIndex> {
+    if (!this.searchIndex) {
+      if (!this.searchIndexLoad) {
+        this.searchIndexLoad = this.readSearchIndex().then((data) =>
+          data ? SearchIndex.fromJSON(data) : new SearchIndex()
+        );
+      }
+      this.searchIndex = await this.searchIndexLoad;
+    }
+    return this.searchIndex;
+  }
+
+  /**
+   * The search index as written to its file, tagged with the index.json
+   * generation it reflects
+   */
+  private serializeSearchIndex(searchIndex: SearchIndex): string {
+    return JSON.stringify({
+      ...searchIndex.toJSON(),
+      indexGeneration: this.indexGeneration,
+    });
+  }
+
+  /**
+   * Write the search index file. Call with the index lock held.
+   */
+  private async writeSearchIndex(): Promise<void> {
+    clearTimeout(this.searchIndexWrite);
+    this.searchIndexWrite = undefined;
+
+    const searchIndex = await this.getSearchIndex();
+    const tempFile = `${this.searchIndexFile}.tmp`;
+    await fs.writeFile(tempFile, this.serializeSearchIndex(searchIndex));
+    await fs.rename(tempFile, this.searchIndexFile);
+  }
+
+  /**
+   * Write the search index once changes settle, so bursts of saves share one
+   * write. Runs after every index write, so a search index file whose
+   * generation differs from index.json missed changes.
+   */
+  private scheduleSearchIndexWrite(): void {
+    if (this.searchIndexWrite) {
+      return;
+    }
+
+    this.searchIndexWrite = setTimeout(() => {
+      this.withIndexLock(() => this.writeSearchIndex()).catch((error) => {
+        logger.error("Failed to write search index file", {
+          error: error instanceof Error ? error.message : String(error),
+          searchIndexFile: this.searchIndexFile,
+        });
+      });
+    }, SEARCH_INDEX_WRITE_DELAY_MS);
+    this.searchIndexWrite.unref();
+  }
+
+  /**
+   * Write a search index still waiting for its scheduled write
+   */
+  async flush(): Promise<void> {
+    await this.withIndexLock(async () => {
+      if (this.searchIndexWrite) {
+        await this.writeSearchIndex();
+      }
+    });
+  }
+
+  /**
+   * Refresh every index entry and the search index from the plan files
+   */
+  async rebuildIndex(): Promise<void> {
+    await this.withIndexLock(async () => {
+      const index = await this.readIndex();
+      const searchIndex = new SearchIndex();
+
+      for (let i = 0; i < index.plans.length; i++) {
+        const plan = await this.getPlanById(index.plans[i].id);
+        if (plan) {
+          index.plans[i] = toIndexEntry(plan);
+          searchIndex.add(plan.id, getSearchFields(plan));
+        }
+      }
+
+      index.version = INDEX_VERSION;
+      await this.writeIndex(index);
+      this.searchIndex = searchIndex;
+      await this.writeSearchIndex();
+
+      logger.info("Plan index rebuilt", { planCount: index.plans.length });
+    });
+  }
+
+  /**
+   * Run an index read-modify-write cycle after any cycle already in flight
+   */
+  private async withIndexLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.indexLock;
+    let release!: () => void;
+    this.indexLock = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    try {
+      await previous;
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Save a plan to storage
+   */
+  async savePlan(
+    planResponse: PlanResponse,
+    status: PlanStatus = "completed",
+    note?: PlanRevisionNote
+  ): Promise<StoredPlan> {
+    try {
+      const planFile = path.join(this.storageDir, `${planResponse.id}.json`);
+      let storedPlan: StoredPlan = { ...planResponse, status };
+
+      // Write the plan file and update the index, with retry logic to handle
+      // transient filesystem errors
+      const maxRetries = 5;
+      let lastError: Error | null = null;
+      let revisionSaved = false;
+
+      for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        try {
+          await this.withIndexLock(async () => {
+            // Read fresh index right before writing to get latest data
+            const index = await this.readIndex();
+
+            // Check if entry already exists (idempotency)
+            const existingIndex = index.plans.findIndex(
+              (entry) => entry.id === planResponse.id
+            );
+
+            // Record the content as a revision before the plan file points
+            // at it, unless the stored plan already reached that revision
+            if (status === "completed" && !revisionSaved) {
+              assertNewerRevision(
+                existingIndex >= 0
+                  ? await this.getPlanById(planResponse.id)
+                  : null,
+                planResponse
+              );
+              await this.saveRevision(
+                planResponse.id,
+                buildPlanRevision(planResponse, note)
+              );
+              revisionSaved = true;
+            }
+
+            // Archive and pin state is only changed by updatePlanMetadata
+            storedPlan = keepStoredMetadata(
+              { ...planResponse, status },
+              index.plans[existingIndex]
+            );
+            await fs.writeFile(planFile, JSON.stringify(storedPlan, null, 2));
+
+            const indexEntry = toIndexEntry(storedPlan);
+            if (existingIndex >= 0) {
+              // Update existing entry
+              index.plans[existingIndex] = indexEntry;
+            } else {
+              // Add new entry
+              index.plans.push(indexEntry);
+            }
+
+            index.totalCount = index.plans.length;
+
+            // Write updated index
+            await this.writeIndex(index);
+
+            const searchIndex = await this.getSearchIndex();
+            searchIndex.add(planResponse.id, getSearchFields(planResponse));
+          });
+
+          // Success - break out of retry loop
+          break;
+        } catch (error) {
+          lastError = error instanceof Error ? error : new Error(String(error));
+
+          if (
+            attempt === maxRetries ||
+            error instanceof RevisionConflictError
+          ) {
+            // Final attempt failed, or a retry would conflict again
+            throw lastError;
+          }
+
+          // Wait with exponential backoff before retry
+          const delay = Math.min(100 * Math.pow(2, attempt - 1), 1000);
+          logger.warn(
+            `Index update attempt ${attempt} failed, retrying in ${delay}ms`,
+            {
+              planId: planResponse.id,
+              error: lastError.message,
+              attempt,
+              maxRetries,
+            }
+          );
+
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+
+      logger.info("Plan saved successfully", {
+        planId: planResponse.id,
+        status,
+      });
+
+      return storedPlan;
+    } catch (error) {
+      logger.error("Failed to save plan", {
+        planId: planResponse.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (error instanceof RevisionConflictError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to save plan: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Get a plan by ID
+   */
+  async getPlanById(id: string): Promise<StoredPlan | null> {
+    try {
+      // Basic UUID validation
+      if (!id || id.length !== 36 || !id.includes("-")) {
+        logger.warn("Invalid UUID format", { id });
+        return null;
+      }
+
+      // Construct file path
+      const planFile = path.join(this.storageDir, `${id}.json`);
+
+      // Check if file exists
+      try {
+        await fs.access(planFile);
+      } catch {
+        logger.info("Plan not found", { planId: id });
+        return null;
+      }
+
+      // Read and parse file
+      const planData = await fs.readFile(planFile, "utf-8");
+      const storedPlan = JSON.parse(planData) as StoredPlan;
+
+      logger.info("Plan retrieved successfully", { planId: id });
+      return storedPlan;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        logger.error("Failed to parse plan JSON", {
+          planId: id,
+          error: error.message,
+        });
+        return null;
+      }
+
+      logger.error("Failed to retrieve plan", {
+        planId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List plans with pagination, optionally searched and filtered
+   */
+  async listPlans(options: ListPlansOptions): Promise<ListPlansResult> {
+    try {
+      // Validate and normalize options
+      const page = Math.max(1, options.page);
+      const limit = Math.min(MAX_PAGE_LIMIT, Math.max(1, options.limit));
+      const sortOrder = options.sortOrder || "desc";
+      const sortBy = resolveSortKey(options);
+
+      // Read index, and search the search index for a query
+      const index = await this.readIndex();
+      const scores = options.q
+        ? (await this.getSearchIndex()).search(options.q)
+        : null;
+
+      // Filter and sort index entries
+      const entries = index.plans.filter(
+        (entry) =>
+          (!scores || scores.has(entry.id)) &&
+          matchesListFilters(entry, options)
+      );
+      const direction = sortOrder === "desc" ? -1 : 1;
+      const sortedEntries = [...entries].sort(
+        (a, b) => direction * compareEntries(a, b, sortBy, scores)
+      );
+
+      // Calculate pagination: a cursor's page starts right after it or ends
+      // right before it, in listing order
+      const total = entries.length;
+      const totalPages = Math.ceil(total / limit);
+      const { after, before } = options;
+      const findFrom = (matches: (entry: PlanIndexEntry) => boolean) => {
+        const found = sortedEntries.findIndex(matches);
+        return found === -1 ? total : found;
+      };
+      let start = (page - 1) * limit;
+      let end = start + limit;
+      if (after) {
+        start = findFrom(
+          (entry) => direction * comparePlanPositions(entry, after) > 0
+        );
+        end = start + limit;
+      } else if (before) {
+        end = findFrom(
+          (entry) => direction * comparePlanPositions(entry, before) >= 0
+        );
+        start = Math.max(0, end - limit);
+      }
+      const pageEntries = sortedEntries.slice(start, end);
+
+      const plans = pageEntries.map(toPlanSummary);
+      const cursors =
+        sortBy === "createdAt"
+          ? getPageCursors(plans, start > 0, end < total)
+          : {};
+
+      const result: ListPlansResult = {
+        plans,
+        pagination: {
+          page: after || before ? undefined : page,
+          limit,
+          total,
+          totalPages,
+          ...cursors,
+        },
+      };
+
+      logger.info("Plans listed successfully", {
+        page: result.pagination.page,
+        cursor: after ? "after" : before ? "before" : undefined,
+        limit,
+        total,
+        returned: plans.length,
+        searched: !!options.q,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error("Failed to list plans", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Return empty result on error
+      return {
+        plans: [],
+        pagination: {
+          page: options.page,
+          limit: options.limit,
+          total: 0,
+          totalPages: 0,
+        },
+      };
+    }
+  }
+
+  /**
+   * Find all plans in any of the given statuses, oldest first
+   */
+  async findPlansByStatus(statuses: PlanStatus[]): Promise<StoredPlan[]> {
+    const index = await this.readIndex();
+    const entries = index.plans
+      .filter((entry) => statuses.includes(entry.status))
+      .sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+
+    const plans: StoredPlan[] = [];
+    for (const entry of entries) {
+      const plan = await this.getPlanById(entry.id);
+      if (plan) {
+        plans.push(plan);
+      }
+    }
+
+    return plans;
+  }
+
+  /**
+   * Count plans per status from the index
+   */
+  async countPlansByStatus(): Promise<Record<PlanStatus, number>> {
+    const counts: Record<PlanStatus, number> = {
+      queued: 0,
+      running: 0,
+      completed: 0,
+      failed: 0,
+    };
+
+    for (const entry of (await this.readIndex()).plans) {
+      counts[entry.status] = (counts[entry.status] || 0) + 1;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Find all plans created in [from, to), oldest first; either bound may be omitted
+   */
+  async findPlansByDateRange(
+    from?: string,
+    to?: string
+  ): Promise<StoredPlan[]> {
+    const fromTime = from ? new Date(from).getTime() : -Infinity;
+    const toTime = to ? new Date(to).getTime() : Infinity;
+
+    const index = await this.readIndex();
+    const entries = index.plans
+      .filter((entry) => {
+        const createdAt = new Date(entry.createdAt).getTime();
+        return createdAt >= fromTime && createdAt < toTime;
+      })
+      .sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+
+    const plans: StoredPlan[] = [];
+    for (const entry of entries) {
+      const plan = await this.getPlanById(entry.id);
+      if (plan) {
+        plans.push(plan);
+      }
+    }
+
+    return plans;
+  }
+
+  /**
+   * Save a revision snapshot of a plan; an existing revision is never
+   * overwritten
+   */
+  async saveRevision(planId: string, revision: PlanRevision): Promise<void> {
+    const planRevisionsDir = path.join(this.revisionsDir, planId);
+    await fs.mkdir(planRevisionsDir, { recursive: true });
+    try {
+      await fs.writeFile(
+        path.join(planRevisionsDir, `${revision.revision}.json`),
+        JSON.stringify(revision, null, 2),
+        { flag: "wx" }
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        throw new RevisionConflictError(planId, revision.revision);
+      }
+      throw error;
+    }
+
+    logger.info("Plan revision saved", {
+      planId,
+      revision: revision.revision,
+    });
+  }
+
+  /**
+   * List all revisions of a plan, oldest first
+   */
+  async listRevisions(planId: string): Promise<PlanRevision[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(this.revisionsDir, planId));
+    } catch {
+      return [];
+    }
+
+    const revisions: PlanRevision[] = [];
+    for (const file of files) {
+      const revisionNumber = parseInt(path.basename(file, ".json"), 10);
+      if (!file.endsWith(".json") || Number.isNaN(revisionNumber)) {
+        continue;
+      }
+
+      const revision = await this.getRevision(planId, revisionNumber);
+      if (revision) {
+        revisions.push(revision);
+      }
+    }
+
+    return revisions.sort((a, b) => a.revision - b.revision);
+  }
+
+  /**
+   * Get a single revision of a plan
+   */
+  async getRevision(
+    planId: string,
+    revision: number
+  ): Promise<PlanRevision | null> {
+    const revisionFile = path.join(
+      this.revisionsDir,
+      planId,
+      `${revision}.json`
+    );
+
+    try {
+      const revisionData = await fs.readFile(revisionFile, "utf-8");
+      return JSON.parse(revisionData) as PlanRevision;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        logger.error("Failed to parse plan revision JSON", {
+          planId,
+          revision,
+          error: error.message,
+        });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Check that the storage directory accepts writes and report the index size
+   */
+  async checkHealth(): Promise<StorageHealth> {
+    const health: StorageHealth = {
+      backend: "file",
+      location: this.storageDir,
+      writable: false,
+      planCount: 0,
+      indexSizeBytes: 0,
+    };
+
+    try {
+      const probeFile = path.join(this.storageDir, ".health-check");
+      await fs.writeFile(probeFile, new Date().toISOString());
+      await fs.unlink(probeFile);
+      health.writable = true;
+
+      const [index, stats] = await Promise.all([
+        this.readIndex(),
+        fs.stat(this.indexFile),
+      ]);
+      health.planCount = index.plans.length;
+      health.indexSizeBytes = stats.size;
+    } catch (error) {
+      health.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return health;
+  }
+
+  /**
+   * Archive, restore, pin or unpin a plan, leaving its revisions untouched
+   */
+  async updatePlanMetadata(
+    id: string,
+    update: PlanMetadataUpdate
+  ): Promise<StoredPlan | null> {
+    // Read and rewritten under the lock, so a concurrent save or delete is
+    // never undone
+    const updatedPlan = await this.withIndexLock(async () => {
+      const plan = await this.getPlanById(id);
+      if (!plan) {
+        return null;
+      }
+
+      const updated = applyMetadataUpdate(plan, update);
+      const planFile = path.join(this.storageDir, `${id}.json`);
+      await fs.writeFile(planFile, JSON.stringify(updated, null, 2));
+
+      const index = await this.readIndex();
+      const position = index.plans.findIndex((entry) => entry.id === id);
+      if (position >= 0) {
+        index.plans[position] = toIndexEntry(updated);
+        await this.writeIndex(index);
+      }
+      return updated;
+    });
+
+    if (updatedPlan) {
+      logger.info("Plan metadata updated", { planId: id, ...update });
+    }
+    return updatedPlan;
+  }
+
+  /**
+   * Delete several plans with a single write of each index. Plan files are
+   * removed once the index no longer lists them, so an interrupted run only
+   * leaves unlisted files behind.
+   */
+  async deletePlansByIds(
+    ids: string[],
+    conditions: PlanDeleteConditions = {}
+  ): Promise<string[]> {
+    const requested = new Set(ids);
+
+    const deleted = await this.withIndexLock(async () => {
+      const index = await this.readIndex();
+      const removed = new Set(
+        index.plans
+          .filter(
+            (entry) =>
+              requested.has(entry.id) &&
+              (!conditions.status ||
+                conditions.status.includes(entry.status)) &&
+              !(conditions.unpinned && entry.pinned)
+          )
+          .map((entry) => entry.id)
+      );
+      if (removed.size === 0) {
+        return [];
+      }
+
+      index.plans = index.plans.filter((entry) => !removed.has(entry.id));
+      index.totalCount = index.plans.length;
+      await this.writeIndex(index);
+
+      const searchIndex = await this.getSearchIndex();
+      removed.forEach((id) => searchIndex.remove(id));
+
+      for (const id of Array.from(removed)) {
+        await this.removePlanFiles(id);
+      }
+      return Array.from(removed);
+    });
+
+    logger.info("Plans deleted successfully", { count: deleted.length });
+    return deleted;
+  }
+
+  /**
+   * Remove a plan file and its revisions; missing files are ignored
+   * @returns Whether the plan file existed
+   */
+  private async removePlanFiles(id: string): Promise<boolean> {
+    const existed = await fs
+      .unlink(path.join(this.storageDir, `${id}.json`))
+      .then(() => true)
+      .catch(() => false);
+    await fs.rm(path.join(this.revisionsDir, id), {
+      recursive: true,
+      force: true,
+    });
+    return existed;
+  }
+
+  /**
+   * Delete a plan. The index entry goes first, so a failed write leaves the
+   * plan intact and a failure after it only leaves unlisted files behind.
+   */
+  async deletePlan(id: string): Promise<boolean> {
+    try {
+      const removed = await this.withIndexLock(async () => {
+        const index = await this.readIndex();
+        const initialCount = index.plans.length;
+        index.plans = index.plans.filter((entry) => entry.id !== id);
+        const listed = index.plans.length !== initialCount;
+
+        if (listed) {
+          index.totalCount = index.plans.length;
+          await this.writeIndex(index);
+
+          (await this.getSearchIndex()).remove(id);
+        }
+
+        const hadFile = await this.removePlanFiles(id);
+        return listed || hadFile;
+      });
+
+      if (!removed) {
+        logger.info("Plan not found for deletion", { planId: id });
+        return false;
+      }
+
+      logger.info("Plan deleted successfully", { planId: id });
+      return true;
+    } catch (error) {
+      logger.error("Failed to delete plan", {
+        planId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
+
+export default FilePlanStore;
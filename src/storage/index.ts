@@ -1,95 +1,86 @@
-import { promises as fs } from "fs";
-import path from "path";
-import { PlanResponse } from "../schemas/plan.schema";
+import config from "../config";
+import { secondsSince, storageOperationDuration } from "../metrics";
+import { PlanResponse, PlanRevision, PlanStatus } from "../schemas/plan.schema";
 import logger from "../utils/logger";
+import { FileApiKeyStore } from "./apiKeyFileStore";
+import { SqliteApiKeyStore } from "./apiKeySqliteStore";
+import { FilePlanStore } from "./fileStore";
+import { buildPlanRevision } from "./revisions";
+import { SqlitePlanStore } from "./sqliteStore";
 import {
+  ApiKeyStore,
   ListPlansOptions,
   ListPlansResult,
-  PlanIndex,
-  PlanIndexEntry,
+  PlanDeleteConditions,
+  PlanFilters,
+  PlanRevisionNote,
+  PlanStore,
+  PlanSummary,
+  StorageBackend,
+  StorageHealth,
   StoredPlan,
 } from "./types";
 
-// Constants
-const STORAGE_DIR = "data/plans";
-const INDEX_FILE = "data/plans/index.json";
-const MAX_PAGE_LIMIT = 100;
-
 /**
- * Ensure storage directories exist and initialize index file if needed
+ * Create the plan store for the given backend
  */
-export async function ensureStorageDirectory(): Promise<void> {
-  try {
-    // Create directories recursively
-    await fs.mkdir("data", { recursive: true });
-    await fs.mkdir(STORAGE_DIR, { recursive: true });
-
-    // Check if index file exists, create if not
-    try {
-      await fs.access(INDEX_FILE);
-    } catch {
-      const emptyIndex: PlanIndex = {
-        plans: [],
-        lastUpdated: new Date().toISOString(),
-        totalCount: 0,
-      };
-      await fs.writeFile(INDEX_FILE, JSON.stringify(emptyIndex, null, 2));
-      logger.info("Initialized storage index file", { indexFile: INDEX_FILE });
-    }
-
-    logger.info("Storage directory ensured", { storageDir: STORAGE_DIR });
-  } catch (error) {
-    logger.error("Failed to ensure storage directory", {
-      error: error instanceof Error ? error.message : String(error),
-      storageDir: STORAGE_DIR,
-    });
-    throw error;
+export function createPlanStore(
+  backend: StorageBackend = config.storageBackend
+): PlanStore {
+  switch (backend) {
+    case "sqlite":
+      return new SqlitePlanStore(config.sqliteDbPath);
+    case "file":
+      return new FilePlanStore(config.storageDir);
+    default:
+      logger.warn(`Unknown storage backend "${backend}", using file storage`);
+      return new FilePlanStore(config.storageDir);
   }
 }
 
 /**
- * Read the index file
+ * Create the API key store for the given backend
  */
-export async function readIndex(): Promise<PlanIndex> {
-  try {
-    const indexData = await fs.readFile(INDEX_FILE, "utf-8");
-    return JSON.parse(indexData) as PlanIndex;
-  } catch (error) {
-    logger.warn("Failed to read index file, returning empty index", {
-      error: error instanceof Error ? error.message : String(error),
-      indexFile: INDEX_FILE,
-    });
-    return {
-      plans: [],
-      lastUpdated: new Date().toISOString(),
-      totalCount: 0,
-    };
-  }
+export function createApiKeyStore(
+  backend: StorageBackend = config.storageBackend
+): ApiKeyStore {
+  return backend === "sqlite"
+    ? new SqliteApiKeyStore(config.sqliteDbPath)
+    : new FileApiKeyStore(config.storageDir);
 }
 
+// Plans still being generated cannot be deleted; their job would save them again
+export const DELETABLE_STATUSES: PlanStatus[] = ["completed", "failed"];
+
+// Plans read per listing call while collecting every match of a filter
+const FIND_PLANS_BATCH_SIZE = 100;
+
+// Active stores selected through configuration
+export const planStore: PlanStore = createPlanStore();
+export const apiKeyStore: ApiKeyStore = createApiKeyStore();
+
 /**
- * Write the index file
+ * Run a plan store operation, recording its latency for /metrics
  */
-export async function writeIndex(index: PlanIndex): Promise<void> {
-  try {
-    // Update timestamp
-    index.lastUpdated = new Date().toISOString();
-
-    // Use atomic write pattern: write to temp file, then rename
-    const tempFile = `${INDEX_FILE}.tmp`;
-    await fs.writeFile(tempFile, JSON.stringify(index, null, 2));
-    await fs.rename(tempFile, INDEX_FILE);
+async function timed<T>(operation: string, run: () => Promise<T>): Promise<T> {
+  const startedAt = Date.now();
+  let outcome = "success";
 
-    logger.info("Index file updated", {
-      indexFile: INDEX_FILE,
-      totalCount: index.totalCount,
-    });
+  try {
+    return await run();
   } catch (error) {
-    logger.error("Failed to write index file", {
-      error: error instanceof Error ? error.message : String(error),
-      indexFile: INDEX_FILE,
-    });
+    outcome = "error";
     throw error;
+  } finally {
+    storageOperationDuration.observe(
+      { backend: config.storageBackend, operation, outcome },
+      secondsSince(startedAt)
+    );
+    logger.debug("Storage operation", {
+      operation,
+      outcome,
+      durationMs: Date.now() - startedAt,
+    });
   }
 }
 
@@ -98,144 +89,19 @@ export async function writeIndex(index: PlanIndex): Promise<void> {
  */
 export async function savePlan(
   planResponse: PlanResponse,
-  status: "completed" | "failed" = "completed"
+  status: PlanStatus = "completed",
+  note?: PlanRevisionNote
 ): Promise<StoredPlan> {
-  try {
-    // Ensure storage directory exists
-    await ensureStorageDirectory();
-
-    // Build StoredPlan object
-    const storedPlan: StoredPlan = {
-      ...planResponse,
-      status,
-    };
-
-    // Write plan to file
-    const planFile = path.join(STORAGE_DIR, `${planResponse.id}.json`);
-    await fs.writeFile(planFile, JSON.stringify(storedPlan, null, 2));
-
-    // Create new index entry
-    const indexEntry: PlanIndexEntry = {
-      id: planResponse.id,
-      taskDescription: planResponse.taskDescription,
-      createdAt: planResponse.createdAt,
-      status,
-    };
-
-    // Update index with retry logic to handle concurrent writes
-    const maxRetries = 5;
-    let lastError: Error | null = null;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        // Read fresh index right before writing to get latest data
-        const index = await readIndex();
-
-        // Check if entry already exists (idempotency)
-        const existingIndex = index.plans.findIndex(
-          (entry) => entry.id === planResponse.id
-        );
-        if (existingIndex >= 0) {
-          // Update existing entry
-          index.plans[existingIndex] = indexEntry;
-        } else {
-          // Add new entry
-          index.plans.push(indexEntry);
-        }
-
-        index.totalCount = index.plans.length;
-
-        // Write updated index
-        await writeIndex(index);
-
-        // Success - break out of retry loop
-        break;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        if (attempt === maxRetries) {
-          // Final attempt failed
-          throw lastError;
-        }
-
-        // Wait with exponential backoff before retry
-        const delay = Math.min(100 * Math.pow(2, attempt - 1), 1000);
-        logger.warn(
-          `Index update attempt ${attempt} failed, retrying in ${delay}ms`,
-          {
-            planId: planResponse.id,
-            error: lastError.message,
-            attempt,
-            maxRetries,
-          }
-        );
-
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
-
-    logger.info("Plan saved successfully", {
-      planId: planResponse.id,
-      status,
-    });
-
-    return storedPlan;
-  } catch (error) {
-    logger.error("Failed to save plan", {
-      planId: planResponse.id,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw new Error(
-      `Failed to save plan: ${
-        error instanceof Error ? error.message : String(error)
-      }`
-    );
-  }
+  return timed("savePlan", () =>
+    planStore.savePlan(planResponse, status, note)
+  );
 }
 
 /**
  * Get a plan by ID
  */
 export async function getPlanById(id: string): Promise<StoredPlan | null> {
-  try {
-    // Basic UUID validation
-    if (!id || id.length !== 36 || !id.includes("-")) {
-      logger.warn("Invalid UUID format", { id });
-      return null;
-    }
-
-    // Construct file path
-    const planFile = path.join(STORAGE_DIR, `${id}.json`);
-
-    // Check if file exists
-    try {
-      await fs.access(planFile);
-    } catch {
-      logger.info("Plan not found", { planId: id });
-      return null;
-    }
-
-    // Read and parse file
-    const planData = await fs.readFile(planFile, "utf-8");
-    const storedPlan = JSON.parse(planData) as StoredPlan;
-
-    logger.info("Plan retrieved successfully", { planId: id });
-    return storedPlan;
-  } catch (error) {
-    if (error instanceof SyntaxError) {
-      logger.error("Failed to parse plan JSON", {
-        planId: id,
-        error: error.message,
-      });
-      return null;
-    }
-
-    logger.error("Failed to retrieve plan", {
-      planId: id,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
-  }
+  return timed("getPlanById", () => planStore.getPlanById(id));
 }
 
 /**
@@ -244,127 +110,245 @@ export async function getPlanById(id: string): Promise<StoredPlan | null> {
 export async function listPlans(
   options: ListPlansOptions
 ): Promise<ListPlansResult> {
-  try {
-    // Validate and normalize options
-    const page = Math.max(1, options.page);
-    const limit = Math.min(MAX_PAGE_LIMIT, Math.max(1, options.limit));
-    const sortBy = options.sortBy || "createdAt";
-    const sortOrder = options.sortOrder || "desc";
-
-    // Read index
-    const index = await readIndex();
-
-    // Sort index entries
-    const sortedEntries = [...index.plans].sort((a, b) => {
-      const comparison =
-        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      return sortOrder === "desc" ? -comparison : comparison;
-    });
+  return timed("listPlans", () => planStore.listPlans(options));
+}
 
-    // Calculate pagination
-    const totalPages = Math.ceil(index.totalCount / limit);
-    const skip = (page - 1) * limit;
-    const pageEntries = sortedEntries.slice(skip, skip + limit);
-
-    // Load full plans for the current page
-    const plans: StoredPlan[] = [];
-    for (const entry of pageEntries) {
-      const plan = await getPlanById(entry.id);
-      if (plan) {
-        plans.push(plan);
-      }
-    }
-
-    const result: ListPlansResult = {
-      plans,
-      pagination: {
-        page,
-        limit,
-        total: index.totalCount,
-        totalPages,
-      },
-    };
-
-    logger.info("Plans listed successfully", {
-      page,
-      limit,
-      total: index.totalCount,
-      returned: plans.length,
-    });
+/**
+ * Find all plans in any of the given statuses, oldest first
+ */
+export async function findPlansByStatus(
+  statuses: PlanStatus[]
+): Promise<StoredPlan[]> {
+  return timed("findPlansByStatus", () =>
+    planStore.findPlansByStatus(statuses)
+  );
+}
 
-    return result;
-  } catch (error) {
-    logger.error("Failed to list plans", {
-      error: error instanceof Error ? error.message : String(error),
-    });
+/**
+ * Count stored plans per status
+ */
+export async function countPlansByStatus(): Promise<
+  Record<PlanStatus, number>
+> {
+  return timed("countPlansByStatus", () => planStore.countPlansByStatus());
+}
 
-    // Return empty result on error
-    return {
-      plans: [],
-      pagination: {
-        page: options.page,
-        limit: options.limit,
-        total: 0,
-        totalPages: 0,
-      },
-    };
+/**
+ * Find all plans created in [from, to), oldest first
+ */
+export async function findPlansByDateRange(
+  from?: string,
+  to?: string
+): Promise<StoredPlan[]> {
+  return timed("findPlansByDateRange", () =>
+    planStore.findPlansByDateRange(from, to)
+  );
+}
+
+/**
+ * List the revisions of a plan, oldest first.
+ * Plans stored before revisions were recorded report their content as revision 1.
+ */
+export async function listPlanRevisions(
+  plan: StoredPlan
+): Promise<PlanRevision[]> {
+  const revisions = await timed("listRevisions", () =>
+    planStore.listRevisions(plan.id)
+  );
+
+  if (revisions.length === 0 && plan.status === "completed") {
+    return [buildPlanRevision(plan)];
   }
+
+  return revisions;
 }
 
 /**
- * Delete a plan (bonus function for future use)
+ * Get a single revision of a plan
+ */
+export async function getPlanRevision(
+  plan: StoredPlan,
+  revision: number
+): Promise<PlanRevision | null> {
+  const storedRevision = await timed("getRevision", () =>
+    planStore.getRevision(plan.id, revision)
+  );
+
+  if (
+    !storedRevision &&
+    plan.status === "completed" &&
+    revision === (plan.revision || 1)
+  ) {
+    return buildPlanRevision(plan);
+  }
+
+  return storedRevision;
+}
+
+/**
+ * Probe the active plan store for the readiness check
+ */
+export async function checkStorageHealth(): Promise<StorageHealth> {
+  return planStore.checkHealth();
+}
+
+/**
+ * Write out plan store changes still held in memory; call before exiting
+ */
+export async function flushStorage(): Promise<void> {
+  await planStore.flush();
+}
+
+/**
+ * Archive a plan: it stays available by ID but is hidden from listings
+ */
+export async function archivePlan(id: string): Promise<StoredPlan | null> {
+  return timed("archivePlan", () =>
+    planStore.updatePlanMetadata(id, { archivedAt: new Date().toISOString() })
+  );
+}
+
+/**
+ * Bring an archived plan back into listings
+ */
+export async function restorePlan(id: string): Promise<StoredPlan | null> {
+  return timed("restorePlan", () =>
+    planStore.updatePlanMetadata(id, { archivedAt: null })
+  );
+}
+
+/**
+ * Pin a plan so the retention policy never removes it, or unpin it
+ */
+export async function setPlanPinned(
+  id: string,
+  pinned: boolean
+): Promise<StoredPlan | null> {
+  return timed("setPlanPinned", () =>
+    planStore.updatePlanMetadata(id, { pinned })
+  );
+}
+
+/**
+ * Delete a plan and its revisions permanently
  */
 export async function deletePlan(id: string): Promise<boolean> {
-  try {
-    // Delete plan file
-    const planFile = path.join(STORAGE_DIR, `${id}.json`);
-
-    try {
-      await fs.unlink(planFile);
-    } catch {
-      logger.info("Plan file not found for deletion", { planId: id });
-      return false;
-    }
-
-    // Read index and remove entry
-    const index = await readIndex();
-    const initialCount = index.plans.length;
-    index.plans = index.plans.filter((entry) => entry.id !== id);
-
-    if (index.plans.length === initialCount) {
-      logger.warn("Plan not found in index", { planId: id });
-      return false;
-    }
-
-    index.totalCount = index.plans.length;
-    await writeIndex(index);
-
-    logger.info("Plan deleted successfully", { planId: id });
-    return true;
-  } catch (error) {
-    logger.error("Failed to delete plan", {
-      planId: id,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
+  return timed("deletePlan", () => planStore.deletePlan(id));
+}
+
+/**
+ * Delete several plans and their revisions permanently, in one pass, skipping
+ * plans that no longer meet the conditions
+ * @returns IDs of the plans deleted
+ */
+export async function deletePlansByIds(
+  ids: string[],
+  conditions?: PlanDeleteConditions
+): Promise<string[]> {
+  return timed("deletePlansByIds", () =>
+    planStore.deletePlansByIds(ids, conditions)
+  );
+}
+
+/**
+ * Summaries of every plan matching the filters, newest first
+ */
+export async function findPlans(filters: PlanFilters): Promise<PlanSummary[]> {
+  return timed("findPlans", async () => {
+    const plans: PlanSummary[] = [];
+    let after: ListPlansOptions["after"];
+    do {
+      const page = await planStore.listPlans({
+        ...filters,
+        page: 1,
+        limit: FIND_PLANS_BATCH_SIZE,
+        sortBy: "createdAt",
+        sortOrder: "desc",
+        after,
+      });
+      plans.push(...page.plans);
+      after =
+        page.plans.length === FIND_PLANS_BATCH_SIZE
+          ? page.plans[page.plans.length - 1]
+          : undefined;
+    } while (after);
+
+    return plans;
+  });
+}
+
+/**
+ * Archive, or permanently delete, every plan matching the filters, skipping
+ * plans still being generated. Archiving leaves archived plans untouched.
+ * @returns IDs of the plans archived or deleted
+ */
+export async function deletePlans(
+  filters: PlanFilters,
+  permanent: boolean
+): Promise<string[]> {
+  const status = (filters.status || DELETABLE_STATUSES).filter((status) =>
+    DELETABLE_STATUSES.includes(status)
+  );
+  if (status.length === 0) {
+    return [];
+  }
+
+  // Collect every match first so deleting does not shift the pages read
+  const ids = (
+    await findPlans({
+      ...filters,
+      status,
+      archived: permanent ? filters.archived : "exclude",
+    })
+  ).map((plan) => plan.id);
+
+  if (permanent) {
+    return deletePlansByIds(ids, { status });
+  }
+
+  const archivedAt = new Date().toISOString();
+  for (const id of ids) {
+    await timed("archivePlan", () =>
+      planStore.updatePlanMetadata(id, { archivedAt })
+    );
   }
+
+  logger.info("Plans archived", { count: ids.length });
+  return ids;
 }
 
 // Initialize storage on module load
-ensureStorageDirectory().catch((error) => {
-  logger.error("Failed to initialize storage directory", {
+planStore.init().catch((error) => {
+  logger.error("Failed to initialize plan storage", {
+    backend: config.storageBackend,
+    error: error instanceof Error ? error.message : String(error),
+  });
+});
+
+apiKeyStore.init().catch((error) => {
+  logger.error("Failed to initialize API key storage", {
+    backend: config.storageBackend,
     error: error instanceof Error ? error.message : String(error),
   });
 });
 
 // Default export object with all functions
 export default {
-  ensureStorageDirectory,
   savePlan,
   getPlanById,
   listPlans,
+  findPlansByStatus,
+  countPlansByStatus,
+  findPlansByDateRange,
+  listPlanRevisions,
+  getPlanRevision,
+  checkStorageHealth,
+  flushStorage,
+  archivePlan,
+  restorePlan,
+  setPlanPinned,
   deletePlan,
-  readIndex,
-  writeIndex,
+  deletePlansByIds,
+  findPlans,
+  deletePlans,
 };
-
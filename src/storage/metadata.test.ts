@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyMetadataUpdate, keepStoredMetadata } from "./metadata";
+import { StoredPlan } from "./types";
+
+const plan: StoredPlan = {
+  id: "8f14e45f-ceea-4e7a-9f6b-2f6b1f0c4a11",
+  taskDescription: "Add a login page",
+  plan: "## Phase 1\n- Build the form",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  planningTime: 10,
+  status: "completed",
+};
+
+describe("applyMetadataUpdate", () => {
+  it("sets fields, leaves unset ones alone and removes cleared ones", () => {
+    const archived = applyMetadataUpdate(plan, {
+      archivedAt: "2026-02-01T00:00:00.000Z",
+      pinned: true,
+    });
+    assert.equal(archived.archivedAt, "2026-02-01T00:00:00.000Z");
+    assert.equal(archived.pinned, true);
+
+    const unpinned = applyMetadataUpdate(archived, { pinned: false });
+    assert.equal(unpinned.archivedAt, "2026-02-01T00:00:00.000Z");
+    assert.ok(!("pinned" in unpinned));
+
+    const restored = applyMetadataUpdate(unpinned, { archivedAt: null });
+    assert.deepEqual(restored, plan);
+  });
+});
+
+describe("keepStoredMetadata", () => {
+  it("carries the stored state over unless the plan sets its own", () => {
+    const stored = { archivedAt: "2026-02-01T00:00:00.000Z", pinned: true };
+
+    assert.deepEqual(keepStoredMetadata(plan, stored), { ...plan, ...stored });
+    assert.deepEqual(keepStoredMetadata({ ...plan, pinned: false }, stored), {
+      ...plan,
+      archivedAt: stored.archivedAt,
+    });
+    assert.deepEqual(keepStoredMetadata(plan), plan);
+  });
+});
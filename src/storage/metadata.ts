@@ -0,0 +1,36 @@
+import { PlanMetadataUpdate, StoredPlan } from "./types";
+
+/**
+ * Copy of a plan with a metadata update applied; cleared fields are removed
+ * rather than stored as null or false
+ */
+export function applyMetadataUpdate(
+  plan: StoredPlan,
+  update: PlanMetadataUpdate
+): StoredPlan {
+  const { archivedAt, pinned, ...content } = plan;
+  const nextArchivedAt =
+    update.archivedAt === undefined ? archivedAt : update.archivedAt;
+  const nextPinned = update.pinned === undefined ? pinned : update.pinned;
+
+  return {
+    ...content,
+    ...(nextArchivedAt && { archivedAt: nextArchivedAt }),
+    ...(nextPinned && { pinned: true }),
+  };
+}
+
+/**
+ * Plan to save with the archive and pin state of the stored copy kept, since
+ * regenerated or refined content does not carry it; values set on the plan
+ * itself (e.g. by a migration) win
+ */
+export function keepStoredMetadata(
+  plan: StoredPlan,
+  stored?: Pick<StoredPlan, "archivedAt" | "pinned">
+): StoredPlan {
+  return applyMetadataUpdate(plan, {
+    archivedAt: plan.archivedAt ?? stored?.archivedAt,
+    pinned: plan.pinned ?? stored?.pinned,
+  });
+}
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import FilePlanStore from "./fileStore";
+import { migrateFileStoreToSqlite } from "./migrate";
+import SqlitePlanStore from "./sqliteStore";
+
+describe("migrateFileStoreToSqlite", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "plan-migrate-"));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("imports plans with every revision and can be re-run", async () => {
+    const sourceDir = path.join(dir, "plans");
+    const dbPath = path.join(dir, "plans.db");
+    const source = new FilePlanStore(sourceDir);
+    await source.init();
+
+    const plan = {
+      id: randomUUID(),
+      taskDescription: "Add a login page",
+      plan: "## Phase 1\n- Build the form",
+      createdAt: new Date().toISOString(),
+      planningTime: 10,
+      revision: 1,
+    };
+    await source.savePlan(plan);
+    await source.savePlan(
+      { ...plan, plan: "## Phase 1\n- Refined", revision: 2 },
+      "completed",
+      { reason: "refined", feedback: "Refine it" }
+    );
+    await source.flush();
+
+    for (let run = 0; run < 2; run++) {
+      const result = await migrateFileStoreToSqlite(sourceDir, dbPath);
+      assert.equal(result.imported, 1);
+      assert.deepEqual(result.failed, []);
+    }
+
+    const target = new SqlitePlanStore(dbPath);
+    await target.init();
+    try {
+      assert.equal((await target.getPlanById(plan.id))?.revision, 2);
+      const revisions = await target.listRevisions(plan.id);
+      assert.deepEqual(
+        revisions.map((revision) => [revision.revision, revision.reason]),
+        [
+          [1, "generated"],
+          [2, "refined"],
+        ]
+      );
+    } finally {
+      target.close();
+    }
+  });
+});
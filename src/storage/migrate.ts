@@ -0,0 +1,113 @@
+import { promises as fs } from "fs";
+import path from "path";
+import config from "../config";
+import { StoredPlanSchema } from "../schemas/plan.schema";
+import logger from "../utils/logger";
+import { FilePlanStore } from "./fileStore";
+import { SqlitePlanStore } from "./sqliteStore";
+
+export interface MigrationResult {
+  imported: number;
+  skipped: number;
+  failed: string[]; // file names that could not be imported
+}
+
+/**
+ * Import every plan file, with its revisions, from a file-store directory into
+ * a SQLite database. Existing rows with the same id are overwritten, so the
+ * import can be re-run.
+ */
+export async function migrateFileStoreToSqlite(
+  sourceDir: string,
+  dbPath: string
+): Promise<MigrationResult> {
+  const result: MigrationResult = { imported: 0, skipped: 0, failed: [] };
+  const store = new SqlitePlanStore(dbPath);
+  const sourceStore = new FilePlanStore(sourceDir);
+
+  const planFiles = (await fs.readdir(sourceDir)).filter(
+    (file) => file.endsWith(".json") && file !== "index.json"
+  );
+
+  logger.info("Starting plan migration", {
+    sourceDir,
+    dbPath,
+    fileCount: planFiles.length,
+  });
+
+  try {
+    await store.init();
+
+    for (const file of planFiles) {
+      try {
+        const planData = await fs.readFile(path.join(sourceDir, file), "utf-8");
+        const parsed = StoredPlanSchema.safeParse(JSON.parse(planData));
+
+        if (!parsed.success) {
+          logger.warn("Skipping file that is not a valid stored plan", {
+            file,
+            issues: parsed.error.errors.map((err) => err.message),
+          });
+          result.skipped++;
+          continue;
+        }
+
+        // Replaced as a whole, since revisions are never overwritten
+        const { status, ...planResponse } = parsed.data;
+        const revisions = await sourceStore.listRevisions(planResponse.id);
+        const latest = revisions.find(
+          (revision) => revision.revision === (planResponse.revision || 1)
+        );
+        await store.deletePlan(planResponse.id);
+        await store.savePlan(
+          planResponse,
+          status,
+          latest && { reason: latest.reason, feedback: latest.feedback }
+        );
+
+        // Saving a completed plan already recorded its latest revision
+        const imported = new Set(
+          (await store.listRevisions(planResponse.id)).map(
+            (revision) => revision.revision
+          )
+        );
+        for (const revision of revisions) {
+          if (!imported.has(revision.revision)) {
+            await store.saveRevision(planResponse.id, revision);
+          }
+        }
+
+        result.imported++;
+      } catch (error) {
+        logger.error("Failed to import plan file", {
+          file,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        result.failed.push(file);
+      }
+    }
+  } finally {
+    store.close();
+  }
+
+  logger.info("Plan migration finished", { ...result });
+  return result;
+}
+
+// CLI entry point: migrate [sourceDir] [dbPath]
+if (require.main === module) {
+  const [sourceDir = config.storageDir, dbPath = config.sqliteDbPath] =
+    process.argv.slice(2);
+
+  migrateFileStoreToSqlite(sourceDir, dbPath)
+    .then((result) => {
+      console.log(
+        `Imported ${result.imported} plan(s), skipped ${result.skipped}, failed ${result.failed.length}`
+      );
+      process.exit(result.failed.length > 0 ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,50 @@
+import { PlanResponse, PlanRevision } from "../schemas/plan.schema";
+import { PlanRevisionNote, StoredPlan } from "./types";
+
+/**
+ * Error raised when a revision number is already taken, e.g. by another
+ * refinement of the same revision that was saved first
+ */
+export class RevisionConflictError extends Error {
+  constructor(planId: string, revision: number) {
+    super(`Revision ${revision} of plan ${planId} already exists`);
+    this.name = "RevisionConflictError";
+  }
+}
+
+/**
+ * Throw unless saving the plan as completed moves the stored plan to a newer
+ * revision. Call in the same lock or transaction as the save.
+ */
+export function assertNewerRevision(
+  stored: Pick<StoredPlan, "status" | "revision"> | null | undefined,
+  planResponse: PlanResponse
+): void {
+  const revision = planResponse.revision || 1;
+  if (stored?.status === "completed" && (stored.revision || 1) >= revision) {
+    throw new RevisionConflictError(planResponse.id, revision);
+  }
+}
+
+/**
+ * Snapshot the content of a plan as a revision
+ */
+export function buildPlanRevision(
+  planResponse: PlanResponse,
+  note: PlanRevisionNote = { reason: "generated" }
+): PlanRevision {
+  return {
+    revision: planResponse.revision || 1,
+    plan: planResponse.plan,
+    structuredPlan: planResponse.structuredPlan,
+    createdAt: planResponse.updatedAt || planResponse.createdAt,
+    provider: planResponse.provider,
+    model: planResponse.model,
+    tokensUsed: planResponse.tokensUsed,
+    estimatedCost: planResponse.estimatedCost,
+    reason: note.reason,
+    feedback: note.feedback,
+  };
+}
+
+export default buildPlanRevision;
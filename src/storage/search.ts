@@ -0,0 +1,188 @@
+import { ListPlansOptions, PlanSortKey } from "./types";
+
+// Matches in the task description count for more than in the plan content
+export const TASK_DESCRIPTION_WEIGHT = 3;
+export const PLAN_CONTENT_WEIGHT = 1;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+const MAX_QUERY_TERMS = 10;
+
+/**
+ * A text field of a plan and how much its matches weigh
+ */
+export interface SearchField {
+  text: string;
+  weight: number;
+}
+
+/**
+ * JSON form of the inverted index
+ */
+export interface SerializedSearchIndex {
+  terms: Record<string, Record<string, number>>; // term -> plan ID -> weighted frequency
+  lastUpdated: string; // ISO timestamp
+  indexGeneration?: number; // generation of the plan index the terms reflect
+}
+
+/**
+ * Lower-cased words of at least two letters or digits
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) || []).filter(
+    (token) => token.length > 1
+  );
+}
+
+/**
+ * Distinct search terms of a query, each matched as a prefix
+ */
+export function parseSearchQuery(query: string): string[] {
+  return Array.from(new Set(tokenize(query))).slice(0, MAX_QUERY_TERMS);
+}
+
+/**
+ * SQLite FTS5 MATCH expression requiring every term, each as a prefix
+ */
+export function buildFtsQuery(query: string): string {
+  return parseSearchQuery(query)
+    .map((term) => `"${term}"*`)
+    .join(" ");
+}
+
+/**
+ * Searchable fields of a plan
+ */
+export function getSearchFields(plan: {
+  taskDescription: string;
+  plan: string;
+}): SearchField[] {
+  return [
+    { text: plan.taskDescription, weight: TASK_DESCRIPTION_WEIGHT },
+    { text: plan.plan, weight: PLAN_CONTENT_WEIGHT },
+  ];
+}
+
+/**
+ * Sort key of a listing: relevance when searching unless another key is
+ * requested, and never relevance without a query
+ */
+export function resolveSortKey(options: ListPlansOptions): PlanSortKey {
+  if (!options.q) {
+    return options.sortBy && options.sortBy !== "relevance"
+      ? options.sortBy
+      : "createdAt";
+  }
+  return options.sortBy || "relevance";
+}
+
+/**
+ * Inverted index from terms to the plans containing them, kept by the file
+ * store in search-index.json. Results must match every query term and are
+ * scored by TF-IDF, so rare terms and task description matches rank higher.
+ */
+export class SearchIndex {
+  private terms = new Map<string, Map<string, number>>();
+  private documents = new Map<string, string[]>(); // plan ID -> its terms
+
+  static fromJSON(data: SerializedSearchIndex): SearchIndex {
+    const index = new SearchIndex();
+
+    for (const [term, postings] of Object.entries(data.terms)) {
+      const planIds = new Map(Object.entries(postings));
+      index.terms.set(term, planIds);
+
+      for (const planId of Array.from(planIds.keys())) {
+        const documentTerms = index.documents.get(planId) || [];
+        documentTerms.push(term);
+        index.documents.set(planId, documentTerms);
+      }
+    }
+
+    return index;
+  }
+
+  toJSON(): SerializedSearchIndex {
+    const terms: Record<string, Record<string, number>> = {};
+    for (const [term, postings] of Array.from(this.terms.entries())) {
+      terms[term] = Object.fromEntries(postings);
+    }
+
+    return { terms, lastUpdated: new Date().toISOString() };
+  }
+
+  /**
+   * Index a plan's fields, replacing what was indexed for it before
+   */
+  add(planId: string, fields: SearchField[]): void {
+    this.remove(planId);
+
+    const frequencies = new Map<string, number>();
+    for (const field of fields) {
+      for (const token of tokenize(field.text)) {
+        frequencies.set(token, (frequencies.get(token) || 0) + field.weight);
+      }
+    }
+
+    for (const [term, frequency] of Array.from(frequencies.entries())) {
+      let postings = this.terms.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.terms.set(term, postings);
+      }
+      postings.set(planId, frequency);
+    }
+
+    this.documents.set(planId, Array.from(frequencies.keys()));
+  }
+
+  remove(planId: string): void {
+    for (const term of this.documents.get(planId) || []) {
+      const postings = this.terms.get(term);
+      postings?.delete(planId);
+      if (postings?.size === 0) {
+        this.terms.delete(term);
+      }
+    }
+
+    this.documents.delete(planId);
+  }
+
+  /**
+   * Score of every plan matching all terms of the query; higher is better
+   */
+  search(query: string): Map<string, number> {
+    const queryTerms = parseSearchQuery(query);
+    const documentCount = this.documents.size;
+    let scores: Map<string, number> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      // Best scoring term that starts with the query term, per plan
+      const termScores = new Map<string, number>();
+
+      for (const [term, postings] of Array.from(this.terms.entries())) {
+        if (!term.startsWith(queryTerm)) {
+          continue;
+        }
+
+        const idf = Math.log(1 + documentCount / postings.size);
+        for (const [planId, frequency] of Array.from(postings.entries())) {
+          const score = (1 + Math.log(frequency)) * idf;
+          termScores.set(planId, Math.max(termScores.get(planId) || 0, score));
+        }
+      }
+
+      // Keep only plans that matched every term so far
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      for (const [planId, score] of Array.from(termScores.entries())) {
+        if (!previous) {
+          scores.set(planId, score);
+        } else if (previous.has(planId)) {
+          scores.set(planId, previous.get(planId)! + score);
+        }
+      }
+    }
+
+    return scores || new Map();
+  }
+}
@@ -0,0 +1,826 @@
+import Database from "better-sqlite3";
+import { promises as fs } from "fs";
+import path from "path";
+import { PlanResponse, PlanRevision, PlanStatus } from "../schemas/plan.schema";
+import logger from "../utils/logger";
+import { getPageCursors } from "./cursor";
+import { applyMetadataUpdate, keepStoredMetadata } from "./metadata";
+import {
+  assertNewerRevision,
+  buildPlanRevision,
+  RevisionConflictError,
+} from "./revisions";
+import { buildFtsQuery, resolveSortKey } from "./search";
+import { countPhases, toPlanSummary } from "./summaries";
+import {
+  ListPlansOptions,
+  ListPlansResult,
+  PlanDeleteConditions,
+  PlanMetadataUpdate,
+  PlanRevisionNote,
+  PlanSortKey,
+  PlanStore,
+  PlanSummary,
+  StorageHealth,
+  StoredPlan,
+} from "./types";
+
+// Constants
+const MAX_PAGE_LIMIT = 100;
+
+// Listing columns added after the first release, filled from the plan JSON
+const LISTING_COLUMNS: [column: string, type: string, value: string][] = [
+  ["owner_key_id", "TEXT", "json_extract(data, '$.ownerKeyId')"],
+  ["updated_at", "TEXT", "json_extract(data, '$.updatedAt')"],
+  ["planning_time", "INTEGER", "json_extract(data, '$.planningTime')"],
+  ["provider", "TEXT", "json_extract(data, '$.provider')"],
+  ["model", "TEXT", "json_extract(data, '$.model')"],
+  ["template", "TEXT", "json_extract(data, '$.template')"],
+  ["tags", "TEXT", "json_extract(data, '$.tags')"], // JSON array
+  ["archived_at", "TEXT", "json_extract(data, '$.archivedAt')"],
+  ["pinned", "INTEGER", "COALESCE(json_extract(data, '$.pinned'), 0)"],
+  [
+    "phase_count",
+    "INTEGER",
+    "COALESCE(json_array_length(data, '$.structuredPlan.phases'), 0)",
+  ],
+];
+
+// ORDER BY expression per sort key, ascending; relevance needs the search join
+const SORT_EXPRESSIONS: Record<PlanSortKey, string> = {
+  createdAt: "p.created_at",
+  updatedAt: "COALESCE(p.updated_at, p.created_at)",
+  planningTime: "COALESCE(p.planning_time, 0)",
+  relevance: "-s.rank",
+};
+
+interface PlanRow {
+  data: string;
+}
+
+interface PlanSummaryRow {
+  id: string;
+  task_description: string;
+  status: PlanStatus;
+  created_at: string;
+  updated_at: string | null;
+  planning_time: number | null;
+  provider: string | null;
+  model: string | null;
+  template: string | null;
+  tags: string | null;
+  phase_count: number | null;
+  archived_at: string | null;
+  pinned: number | null;
+}
+
+/**
+ * Plan summary from the listing columns, without parsing the plan JSON
+ */
+function toSummary(row: PlanSummaryRow): PlanSummary {
+  return toPlanSummary({
+    id: row.id,
+    taskDescription: row.task_description,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? undefined,
+    planningTime: row.planning_time ?? undefined,
+    provider: row.provider ?? undefined,
+    model: row.model ?? undefined,
+    template: row.template ?? undefined,
+    tags: row.tags ? (JSON.parse(row.tags) as string[]) : undefined,
+    phaseCount: row.phase_count ?? 0,
+    archivedAt: row.archived_at ?? undefined,
+    pinned: row.pinned ? true : undefined,
+  });
+}
+
+/**
+ * Plan store backed by an embedded SQLite database.
+ * The full plan is kept as JSON next to the columns used for listing.
+ */
+export class SqlitePlanStore implements PlanStore {
+  private dbPath: string;
+  private db: Database.Database | null = null;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  /**
+   * Open the database and create the schema if needed
+   */
+  async init(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+
+      const db = new Database(this.dbPath);
+      db.pragma("journal_mode = WAL");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS plans (
+          id TEXT PRIMARY KEY,
+          task_description TEXT NOT NULL,
+          status TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_plans_created_at
+          ON plans (created_at, id);
+        CREATE TABLE IF NOT EXISTS plan_revisions (
+          plan_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          data TEXT NOT NULL,
+          PRIMARY KEY (plan_id, revision)
+        );
+      `);
+      this.migrate(db);
+
+      this.db = db;
+      logger.info("SQLite storage initialized", { dbPath: this.dbPath });
+    } catch (error) {
+      logger.error("Failed to initialize SQLite storage", {
+        error: error instanceof Error ? error.message : String(error),
+        dbPath: this.dbPath,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add columns and tables introduced after the first release to existing
+   * databases
+   */
+  private migrate(db: Database.Database): void {
+    const columns = (
+      db.prepare("PRAGMA table_info(plans)").all() as { name: string }[]
+    ).map((column) => column.name);
+
+    for (const [column, type, value] of LISTING_COLUMNS) {
+      if (!columns.includes(column)) {
+        db.exec(`
+          ALTER TABLE plans ADD COLUMN ${column} ${type};
+          UPDATE plans SET ${column} = ${value};
+        `);
+        logger.info(`SQLite storage migrated: added plans.${column}`);
+      }
+    }
+
+    db.exec(
+      "CREATE INDEX IF NOT EXISTS idx_plans_owner ON plans (owner_key_id, created_at)"
+    );
+
+    // Full-text index over the task description and plan content
+    const hasSearchIndex = db
+      .prepare("SELECT 1 FROM sqlite_master WHERE name = 'plans_fts'")
+      .get();
+    if (!hasSearchIndex) {
+      db.exec(`
+        CREATE VIRTUAL TABLE plans_fts
+          USING fts5(plan_id UNINDEXED, task_description, plan);
+        INSERT INTO plans_fts (plan_id, task_description, plan)
+          SELECT id, task_description, json_extract(data, '$.plan') FROM plans;
+      `);
+      logger.info("SQLite storage migrated: added plans_fts search index");
+    }
+  }
+
+  private async getDb(): Promise<Database.Database> {
+    await this.init();
+    return this.db!;
+  }
+
+  /**
+   * Check that the database accepts writes and report its size
+   */
+  async checkHealth(): Promise<StorageHealth> {
+    const health: StorageHealth = {
+      backend: "sqlite",
+      location: this.dbPath,
+      writable: false,
+      planCount: 0,
+      indexSizeBytes: 0,
+    };
+
+    try {
+      const db = await this.getDb();
+
+      // A write that matches no rows still fails on a read-only database
+      db.prepare("DELETE FROM plans WHERE id = ''").run();
+      health.writable = true;
+
+      const { count } = db
+        .prepare("SELECT COUNT(*) AS count FROM plans")
+        .get() as { count: number };
+      health.planCount = count;
+      health.indexSizeBytes = (await fs.stat(this.dbPath)).size;
+    } catch (error) {
+      health.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return health;
+  }
+
+  /**
+   * Nothing to write out: every change is committed as it is made
+   */
+  async flush(): Promise<void> {}
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Save a plan to storage
+   */
+  async savePlan(
+    planResponse: PlanResponse,
+    status: PlanStatus = "completed",
+    note?: PlanRevisionNote
+  ): Promise<StoredPlan> {
+    try {
+      const db = await this.getDb();
+
+      // Plan row and its revision are written together
+      const storedPlan = db.transaction(() => {
+        // Archive and pin state is only changed by updatePlanMetadata
+        const existing = db
+          .prepare(
+            `SELECT archived_at, pinned, status,
+                    json_extract(data, '$.revision') AS revision
+             FROM plans WHERE id = ?`
+          )
+          .get(planResponse.id) as
+          | (Pick<PlanSummaryRow, "archived_at" | "pinned" | "status"> & {
+              revision: number | null;
+            })
+          | undefined;
+        if (status === "completed") {
+          assertNewerRevision(
+            existing && {
+              status: existing.status,
+              revision: existing.revision ?? undefined,
+            },
+            planResponse
+          );
+        }
+        const storedPlan = keepStoredMetadata(
+          { ...planResponse, status },
+          existing && {
+            archivedAt: existing.archived_at ?? undefined,
+            pinned: !!existing.pinned || undefined,
+          }
+        );
+
+        db.prepare(
+          `INSERT INTO plans
+             (id, task_description, status, created_at, owner_key_id,
+              updated_at, planning_time, provider, model, template, tags,
+              phase_count, archived_at, pinned, data)
+           VALUES
+             (@id, @taskDescription, @status, @createdAt, @ownerKeyId,
+              @updatedAt, @planningTime, @provider, @model, @template, @tags,
+              @phaseCount, @archivedAt, @pinned, @data)
+           ON CONFLICT(id) DO UPDATE SET
+             task_description = excluded.task_description,
+             status = excluded.status,
+             created_at = excluded.created_at,
+             owner_key_id = excluded.owner_key_id,
+             updated_at = excluded.updated_at,
+             planning_time = excluded.planning_time,
+             provider = excluded.provider,
+             model = excluded.model,
+             template = excluded.template,
+             tags = excluded.tags,
+             phase_count = excluded.phase_count,
+             archived_at = excluded.archived_at,
+             pinned = excluded.pinned,
+             data = excluded.data`
+        ).run({
+          id: storedPlan.id,
+          taskDescription: storedPlan.taskDescription,
+          status,
+          createdAt: storedPlan.createdAt,
+          ownerKeyId: storedPlan.ownerKeyId ?? null,
+          updatedAt: storedPlan.updatedAt ?? null,
+          planningTime: storedPlan.planningTime,
+          provider: storedPlan.provider ?? null,
+          model: storedPlan.model ?? null,
+          template: storedPlan.template ?? null,
+          tags: storedPlan.tags ? JSON.stringify(storedPlan.tags) : null,
+          phaseCount: countPhases(storedPlan),
+          archivedAt: storedPlan.archivedAt ?? null,
+          pinned: storedPlan.pinned ? 1 : 0,
+          data: JSON.stringify(storedPlan),
+        });
+
+        db.prepare("DELETE FROM plans_fts WHERE plan_id = ?").run(
+          storedPlan.id
+        );
+        db.prepare(
+          "INSERT INTO plans_fts (plan_id, task_description, plan) VALUES (?, ?, ?)"
+        ).run(storedPlan.id, storedPlan.taskDescription, storedPlan.plan);
+
+        if (status === "completed") {
+          this.insertRevision(
+            db,
+            storedPlan.id,
+            buildPlanRevision(planResponse, note)
+          );
+        }
+
+        return storedPlan;
+      })();
+
+      logger.info("Plan saved successfully", {
+        planId: planResponse.id,
+        status,
+      });
+
+      return storedPlan;
+    } catch (error) {
+      logger.error("Failed to save plan", {
+        planId: planResponse.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (error instanceof RevisionConflictError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to save plan: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Get a plan by ID
+   */
+  async getPlanById(id: string): Promise<StoredPlan | null> {
+    try {
+      const db = await this.getDb();
+      const row = db.prepare("SELECT data FROM plans WHERE id = ?").get(id) as
+        | PlanRow
+        | undefined;
+
+      if (!row) {
+        logger.info("Plan not found", { planId: id });
+        return null;
+      }
+
+      logger.info("Plan retrieved successfully", { planId: id });
+      return JSON.parse(row.data) as StoredPlan;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        logger.error("Failed to parse plan JSON", {
+          planId: id,
+          error: error.message,
+        });
+        return null;
+      }
+
+      logger.error("Failed to retrieve plan", {
+        planId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List plans with pagination, optionally searched and filtered
+   */
+  async listPlans(options: ListPlansOptions): Promise<ListPlansResult> {
+    try {
+      const db = await this.getDb();
+
+      // Validate and normalize options
+      const page = Math.max(1, options.page);
+      const limit = Math.min(MAX_PAGE_LIMIT, Math.max(1, options.limit));
+      const ascending = options.sortOrder === "asc";
+      const sortBy = resolveSortKey(options);
+      const { after, before } = options;
+      const cursor = after || before;
+
+      const { from, where, params } = this.buildListQuery(options);
+      const count = (condition: string) =>
+        (
+          db
+            .prepare(`SELECT COUNT(*) AS total FROM ${from} WHERE ${condition}`)
+            .get(params) as { total: number }
+        ).total;
+
+      const total = count(where);
+
+      // Plans on the cursor's side of it, in listing order; a before page is
+      // read backwards from the cursor and reversed
+      let pageWhere = where;
+      let remaining = total;
+      if (cursor) {
+        const op = ascending === !!after ? ">" : "<";
+        pageWhere = `${where} AND (p.created_at ${op} @cursorCreatedAt
+          OR (p.created_at = @cursorCreatedAt AND p.id ${op} @cursorId))`;
+        params.cursorCreatedAt = cursor.createdAt;
+        params.cursorId = cursor.id;
+        remaining = count(pageWhere);
+      }
+      const direction = ascending === !before ? "ASC" : "DESC";
+
+      const rows = db
+        .prepare(
+          `SELECT p.id, p.task_description, p.status, p.created_at,
+             p.updated_at, p.planning_time, p.provider, p.model, p.template,
+             p.tags, p.phase_count, p.archived_at, p.pinned
+           FROM ${from}
+           WHERE ${pageWhere}
+           ORDER BY ${SORT_EXPRESSIONS[sortBy]} ${direction},
+             p.created_at ${direction}, p.id ${direction}
+           LIMIT @limit OFFSET @offset`
+        )
+        .all({
+          ...params,
+          limit,
+          offset: cursor ? 0 : (page - 1) * limit,
+        }) as PlanSummaryRow[];
+
+      const plans = rows.map(toSummary);
+      if (before) {
+        plans.reverse();
+      }
+
+      // Plans skipped before this page, to tell whether pages surround it
+      const skipped = after
+        ? total - remaining
+        : before
+        ? remaining - plans.length
+        : (page - 1) * limit;
+      const cursors =
+        sortBy === "createdAt"
+          ? getPageCursors(plans, skipped > 0, skipped + plans.length < total)
+          : {};
+
+      logger.info("Plans listed successfully", {
+        page: cursor ? undefined : page,
+        cursor: after ? "after" : before ? "before" : undefined,
+        limit,
+        total,
+        returned: plans.length,
+        searched: !!options.q,
+      });
+
+      return {
+        plans,
+        pagination: {
+          page: cursor ? undefined : page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+          ...cursors,
+        },
+      };
+    } catch (error) {
+      logger.error("Failed to list plans", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      // Return empty result on error
+      return {
+        plans: [],
+        pagination: {
+          page: options.page,
+          limit: options.limit,
+          total: 0,
+          totalPages: 0,
+        },
+      };
+    }
+  }
+
+  /**
+   * FROM and WHERE clauses of a listing; plans are aliased "p" and search
+   * results "s", with bm25 ranks (lower is better) in s.rank
+   */
+  private buildListQuery(options: ListPlansOptions): {
+    from: string;
+    where: string;
+    params: Record<string, string | number>;
+  } {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+    let from = "plans p";
+
+    const anyOf = (column: string, name: string, values?: string[]) => {
+      if (!values) {
+        return;
+      }
+      const placeholders = values.map((value, i) => {
+        params[`${name}${i}`] = value;
+        return `@${name}${i}`;
+      });
+      conditions.push(`${column} IN (${placeholders.join(", ")})`);
+    };
+
+    if (options.q !== undefined) {
+      // Task description matches weigh three times as much as plan content
+      from = `plans p JOIN (
+          SELECT plan_id, bm25(plans_fts, 0, 3.0, 1.0) AS rank
+          FROM plans_fts WHERE plans_fts MATCH @match
+        ) s ON s.plan_id = p.id`;
+      // A query without searchable words matches nothing
+      params.match = buildFtsQuery(options.q) || '""';
+    }
+
+    if (options.ownerKeyId) {
+      conditions.push("p.owner_key_id = @ownerKeyId");
+      params.ownerKeyId = options.ownerKeyId;
+    }
+    anyOf("p.status", "status", options.status);
+    anyOf("p.provider", "provider", options.provider);
+    anyOf("p.template", "template", options.template);
+
+    options.tags?.forEach((tag, i) => {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM json_each(p.tags) WHERE value = @tag${i})`
+      );
+      params[`tag${i}`] = tag;
+    });
+
+    // ISO timestamps in UTC compare correctly as strings
+    if (options.from) {
+      conditions.push("p.created_at >= @from");
+      params.from = options.from.toISOString();
+    }
+    if (options.to) {
+      conditions.push("p.created_at < @to");
+      params.to = options.to.toISOString();
+    }
+    if (options.archived !== "include") {
+      conditions.push(
+        options.archived === "only"
+          ? "p.archived_at IS NOT NULL"
+          : "p.archived_at IS NULL"
+      );
+    }
+
+    return {
+      from,
+      where: conditions.length > 0 ? conditions.join(" AND ") : "1 = 1",
+      params,
+    };
+  }
+
+  /**
+   * Find all plans in any of the given statuses, oldest first
+   */
+  async findPlansByStatus(statuses: PlanStatus[]): Promise<StoredPlan[]> {
+    if (statuses.length === 0) {
+      return [];
+    }
+
+    const db = await this.getDb();
+    const placeholders = statuses.map(() => "?").join(", ");
+    const rows = db
+      .prepare(
+        `SELECT data FROM plans WHERE status IN (${placeholders})
+         ORDER BY created_at ASC, id ASC`
+      )
+      .all(...statuses) as PlanRow[];
+
+    return rows.map((row) => JSON.parse(row.data) as StoredPlan);
+  }
+
+  /**
+   * Count plans per status
+   */
+  async countPlansByStatus(): Promise<Record<PlanStatus, number>> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare("SELECT status, COUNT(*) AS count FROM plans GROUP BY status")
+      .all() as { status: PlanStatus; count: number }[];
+
+    const counts: Record<PlanStatus, number> = {
+      queued: 0,
+      running: 0,
+      completed: 0,
+      failed: 0,
+    };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Find all plans created in [from, to), oldest first; either bound may be omitted
+   */
+  async findPlansByDateRange(
+    from?: string,
+    to?: string
+  ): Promise<StoredPlan[]> {
+    const db = await this.getDb();
+
+    // ISO timestamps in UTC compare correctly as strings
+    const rows = db
+      .prepare(
+        `SELECT data FROM plans
+         WHERE (@from IS NULL OR created_at >= @from)
+           AND (@to IS NULL OR created_at < @to)
+         ORDER BY created_at ASC, id ASC`
+      )
+      .all({
+        from: from ? new Date(from).toISOString() : null,
+        to: to ? new Date(to).toISOString() : null,
+      }) as PlanRow[];
+
+    return rows.map((row) => JSON.parse(row.data) as StoredPlan);
+  }
+
+  /**
+   * Save a revision snapshot of a plan; an existing revision is never
+   * overwritten
+   */
+  async saveRevision(planId: string, revision: PlanRevision): Promise<void> {
+    const db = await this.getDb();
+    this.insertRevision(db, planId, revision);
+
+    logger.info("Plan revision saved", {
+      planId,
+      revision: revision.revision,
+    });
+  }
+
+  private insertRevision(
+    db: Database.Database,
+    planId: string,
+    revision: PlanRevision
+  ): void {
+    const inserted = db
+      .prepare(
+        `INSERT INTO plan_revisions (plan_id, revision, created_at, data)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(plan_id, revision) DO NOTHING`
+      )
+      .run(
+        planId,
+        revision.revision,
+        revision.createdAt,
+        JSON.stringify(revision)
+      );
+
+    if (inserted.changes === 0) {
+      throw new RevisionConflictError(planId, revision.revision);
+    }
+  }
+
+  /**
+   * List all revisions of a plan, oldest first
+   */
+  async listRevisions(planId: string): Promise<PlanRevision[]> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare(
+        "SELECT data FROM plan_revisions WHERE plan_id = ? ORDER BY revision ASC"
+      )
+      .all(planId) as PlanRow[];
+
+    return rows.map((row) => JSON.parse(row.data) as PlanRevision);
+  }
+
+  /**
+   * Get a single revision of a plan
+   */
+  async getRevision(
+    planId: string,
+    revision: number
+  ): Promise<PlanRevision | null> {
+    const db = await this.getDb();
+    const row = db
+      .prepare(
+        "SELECT data FROM plan_revisions WHERE plan_id = ? AND revision = ?"
+      )
+      .get(planId, revision) as PlanRow | undefined;
+
+    return row ? (JSON.parse(row.data) as PlanRevision) : null;
+  }
+
+  /**
+   * Archive, restore, pin or unpin a plan, leaving its revisions untouched
+   */
+  async updatePlanMetadata(
+    id: string,
+    update: PlanMetadataUpdate
+  ): Promise<StoredPlan | null> {
+    const db = await this.getDb();
+
+    const updatedPlan = db.transaction(() => {
+      const row = db.prepare("SELECT data FROM plans WHERE id = ?").get(id) as
+        | PlanRow
+        | undefined;
+      if (!row) {
+        return null;
+      }
+
+      const updated = applyMetadataUpdate(
+        JSON.parse(row.data) as StoredPlan,
+        update
+      );
+
+      db.prepare(
+        "UPDATE plans SET archived_at = ?, pinned = ?, data = ? WHERE id = ?"
+      ).run(
+        updated.archivedAt ?? null,
+        updated.pinned ? 1 : 0,
+        JSON.stringify(updated),
+        id
+      );
+      return updated;
+    })();
+
+    if (updatedPlan) {
+      logger.info("Plan metadata updated", { planId: id, ...update });
+    }
+    return updatedPlan;
+  }
+
+  /**
+   * Delete several plans, with their revisions, in one transaction
+   */
+  async deletePlansByIds(
+    ids: string[],
+    conditions: PlanDeleteConditions = {}
+  ): Promise<string[]> {
+    const db = await this.getDb();
+    const where = ["id = ?"];
+    if (conditions.status) {
+      where.push(`status IN (${conditions.status.map(() => "?").join(", ")})`);
+    }
+    if (conditions.unpinned) {
+      where.push("COALESCE(pinned, 0) = 0");
+    }
+
+    const deletePlan = db.prepare(
+      `DELETE FROM plans WHERE ${where.join(" AND ")}`
+    );
+    const deleteRevisions = db.prepare(
+      "DELETE FROM plan_revisions WHERE plan_id = ?"
+    );
+    const deleteSearchEntry = db.prepare(
+      "DELETE FROM plans_fts WHERE plan_id = ?"
+    );
+
+    // Revisions and search entries only go with a plan the conditions let go
+    const deleted = db.transaction(() =>
+      ids.filter((id) => {
+        if (deletePlan.run(id, ...(conditions.status || [])).changes === 0) {
+          return false;
+        }
+        deleteRevisions.run(id);
+        deleteSearchEntry.run(id);
+        return true;
+      })
+    )();
+
+    logger.info("Plans deleted successfully", { count: deleted.length });
+    return deleted;
+  }
+
+  /**
+   * Delete a plan
+   */
+  async deletePlan(id: string): Promise<boolean> {
+    try {
+      const db = await this.getDb();
+      const result = db.transaction(() => {
+        db.prepare("DELETE FROM plan_revisions WHERE plan_id = ?").run(id);
+        db.prepare("DELETE FROM plans_fts WHERE plan_id = ?").run(id);
+        return db.prepare("DELETE FROM plans WHERE id = ?").run(id);
+      })();
+
+      if (result.changes === 0) {
+        logger.info("Plan not found for deletion", { planId: id });
+        return false;
+      }
+
+      logger.info("Plan deleted successfully", { planId: id });
+      return true;
+    } catch (error) {
+      logger.error("Failed to delete plan", {
+        planId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+}
+
+export default SqlitePlanStore;
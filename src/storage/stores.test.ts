@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { PlanResponse } from "../schemas/plan.schema";
+import { decodePlanCursor } from "./cursor";
+import FilePlanStore from "./fileStore";
+import { RevisionConflictError } from "./revisions";
+import SqlitePlanStore from "./sqliteStore";
+import { PlanCursor, PlanStore } from "./types";
+
+function buildPlan(overrides: Partial<PlanResponse> = {}): PlanResponse {
+  return {
+    id: randomUUID(),
+    taskDescription: "Add a login page",
+    plan: "## Phase 1\n- Build the form",
+    createdAt: new Date().toISOString(),
+    planningTime: 10,
+    revision: 1,
+    ...overrides,
+  };
+}
+
+const backends: [name: string, create: (dir: string) => PlanStore][] = [
+  ["file", (dir) => new FilePlanStore(dir)],
+  ["sqlite", (dir) => new SqlitePlanStore(path.join(dir, "plans.db"))],
+];
+
+for (const [name, createStore] of backends) {
+  describe(`${name} plan store`, () => {
+    let dir: string;
+    let store: PlanStore;
+
+    before(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "plan-store-"));
+      store = createStore(dir);
+      await store.init();
+    });
+
+    after(async () => {
+      await store.flush();
+      (store as { close?: () => void }).close?.();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("keeps the pin and archive state when a refinement is saved", async () => {
+      const plan = buildPlan();
+      await store.savePlan(plan);
+      await store.updatePlanMetadata(plan.id, {
+        pinned: true,
+        archivedAt: "2026-01-01T00:00:00.000Z",
+      });
+
+      // Refined content is built without the metadata fields
+      const saved = await store.savePlan(
+        { ...plan, plan: "## Phase 1\n- Refined", revision: 2 },
+        "completed",
+        { reason: "refined" }
+      );
+
+      assert.equal(saved.pinned, true);
+      const stored = await store.getPlanById(plan.id);
+      assert.equal(stored?.pinned, true);
+      assert.equal(stored?.archivedAt, "2026-01-01T00:00:00.000Z");
+      assert.equal(stored?.plan, "## Phase 1\n- Refined");
+
+      const { plans } = await store.listPlans({
+        page: 1,
+        limit: 10,
+        archived: "include",
+      });
+      assert.equal(
+        plans.find((summary) => summary.id === plan.id)?.pinned,
+        true
+      );
+    });
+
+    it("keeps the first of two refinements of the same revision", async () => {
+      const plan = buildPlan();
+      await store.savePlan(plan);
+
+      const results = await Promise.allSettled(
+        ["First", "Second"].map((label) =>
+          store.savePlan(
+            { ...plan, plan: `## ${label}`, revision: 2 },
+            "completed",
+            { reason: "refined" }
+          )
+        )
+      );
+
+      const saved = results.filter((result) => result.status === "fulfilled");
+      const rejected = results.filter((result) => result.status === "rejected");
+      assert.equal(saved.length, 1);
+      assert.ok(
+        (rejected[0] as PromiseRejectedResult).reason instanceof
+          RevisionConflictError
+      );
+
+      const revisions = await store.listRevisions(plan.id);
+      assert.deepEqual(
+        revisions.map((revision) => revision.revision),
+        [1, 2]
+      );
+      const stored = await store.getPlanById(plan.id);
+      assert.equal(stored?.plan, revisions[1].plan);
+      await assert.rejects(
+        store.saveRevision(plan.id, revisions[1]),
+        RevisionConflictError
+      );
+    });
+
+    it("does not bring back a plan deleted during a metadata update", async () => {
+      const plan = buildPlan();
+      await store.savePlan(plan);
+
+      const [, deleted] = await Promise.all([
+        store.updatePlanMetadata(plan.id, { pinned: true }),
+        store.deletePlan(plan.id),
+      ]);
+
+      assert.equal(deleted, true);
+      assert.equal(await store.getPlanById(plan.id), null);
+      const { plans } = await store.listPlans({
+        page: 1,
+        limit: 100,
+        archived: "include",
+      });
+      assert.ok(!plans.some((summary) => summary.id === plan.id));
+      assert.equal(await store.deletePlan(plan.id), false);
+    });
+
+    it("deletes only plans that still meet the delete conditions", async () => {
+      const completed = buildPlan();
+      const pinned = buildPlan();
+      const running = buildPlan();
+      await store.savePlan(completed);
+      await store.savePlan(pinned);
+      await store.updatePlanMetadata(pinned.id, { pinned: true });
+      await store.savePlan(running, "running");
+
+      const deleted = await store.deletePlansByIds(
+        [completed.id, pinned.id, running.id],
+        { status: ["completed", "failed"], unpinned: true }
+      );
+
+      assert.deepEqual(deleted, [completed.id]);
+      assert.equal(await store.getPlanById(completed.id), null);
+      assert.equal((await store.getPlanById(pinned.id))?.pinned, true);
+      assert.equal((await store.getPlanById(running.id))?.status, "running");
+      assert.equal((await store.listRevisions(pinned.id)).length, 1);
+    });
+
+    it("pages through search results by cursor without gaps or repeats", async () => {
+      // Relevance order differs from creation order; two plans share a time
+      const matching: PlanResponse[] = [];
+      for (let i = 0; i < 7; i++) {
+        const plan = buildPlan({
+          taskDescription: `Export invoices ${"invoice ".repeat(i % 3)}`,
+          createdAt: new Date(
+            Date.UTC(2026, 0, 1, Math.min(i, 5))
+          ).toISOString(),
+          tags: ["paging"],
+        });
+        await store.savePlan(plan);
+        matching.push(plan);
+      }
+      await store.savePlan(
+        buildPlan({ taskDescription: "Unrelated work", tags: ["paging"] })
+      );
+
+      const expected = [...matching]
+        .sort(
+          (a, b) =>
+            b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id)
+        )
+        .map((plan) => plan.id);
+
+      const listed: string[] = [];
+      let cursor: PlanCursor | undefined;
+      do {
+        const { plans, pagination } = await store.listPlans({
+          page: 1,
+          limit: 3,
+          q: "invoice",
+          tags: ["paging"],
+          sortBy: "createdAt",
+          after: cursor,
+        });
+        listed.push(...plans.map((plan) => plan.id));
+        cursor = pagination.nextCursor
+          ? decodePlanCursor(pagination.nextCursor)!
+          : undefined;
+      } while (cursor);
+
+      assert.deepEqual(listed, expected);
+    });
+  });
+}
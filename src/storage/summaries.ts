@@ -0,0 +1,36 @@
+import { PlanResponse } from "../schemas/plan.schema";
+import { PlanIndexEntry, PlanSummary } from "./types";
+
+// Longest task description returned in a plan summary
+export const SUMMARY_TASK_LENGTH = 200;
+
+/**
+ * Number of phases in a plan's structured form
+ */
+export function countPhases(plan: PlanResponse): number {
+  return plan.structuredPlan?.phases.length ?? 0;
+}
+
+/**
+ * Listing record for an index entry, with the task description truncated
+ */
+export function toPlanSummary(entry: PlanIndexEntry): PlanSummary {
+  return {
+    id: entry.id,
+    taskDescription:
+      entry.taskDescription.length > SUMMARY_TASK_LENGTH
+        ? entry.taskDescription.substring(0, SUMMARY_TASK_LENGTH) + "..."
+        : entry.taskDescription,
+    status: entry.status,
+    phaseCount: entry.phaseCount ?? 0,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+    planningTime: entry.planningTime,
+    provider: entry.provider,
+    model: entry.model,
+    template: entry.template,
+    tags: entry.tags,
+    archivedAt: entry.archivedAt,
+    pinned: entry.pinned,
+  };
+}
@@ -1,10 +1,16 @@
-import { PlanResponse } from "../schemas/plan.schema";
+import { ApiKeyRole } from "../schemas/apiKey.schema";
+import {
+  PlanResponse,
+  PlanRevision,
+  PlanRevisionReason,
+  PlanStatus,
+} from "../schemas/plan.schema";
 
 /**
  * Interface that extends PlanResponse with additional storage-specific fields
  */
 export interface StoredPlan extends PlanResponse {
-  status: "completed" | "failed";
+  status: PlanStatus;
 }
 
 /**
@@ -14,7 +20,18 @@ export interface PlanIndexEntry {
   id: string; // UUID
   taskDescription: string; // for quick preview
   createdAt: string; // ISO timestamp
-  status: "completed" | "failed";
+  status: PlanStatus;
+  ownerKeyId?: string; // API key that created the plan
+  // Summary, filter and sort fields for listing without reading plan files
+  updatedAt?: string; // ISO timestamp of the latest revision
+  planningTime?: number; // in milliseconds
+  provider?: string;
+  model?: string;
+  template?: string;
+  tags?: string[];
+  phaseCount?: number; // phases of the structured plan, 0 until completed
+  archivedAt?: string; // ISO timestamp; archived plans are hidden by default
+  pinned?: boolean; // exempt from the retention policy
 }
 
 /**
@@ -24,15 +41,75 @@ export interface PlanIndex {
   plans: PlanIndexEntry[];
   lastUpdated: string; // ISO timestamp
   totalCount: number;
+  version?: number; // entry layout; older indexes are rebuilt from plan files
+  generation?: number; // bumped on every write, matched by the search index
+}
+
+/**
+ * Plan as returned by listings, built from the index alone
+ */
+export interface PlanSummary {
+  id: string;
+  taskDescription: string; // truncated to SUMMARY_TASK_LENGTH characters
+  status: PlanStatus;
+  phaseCount: number;
+  createdAt: string;
+  updatedAt?: string;
+  planningTime?: number;
+  provider?: string;
+  model?: string;
+  template?: string;
+  tags?: string[];
+  archivedAt?: string;
+  pinned?: boolean;
+}
+
+/**
+ * Which plans a listing returns by archive state
+ */
+export type ArchivedFilter = "exclude" | "include" | "only";
+
+/**
+ * Keys plans can be listed by; "relevance" needs a search query
+ */
+export type PlanSortKey =
+  | "createdAt"
+  | "updatedAt"
+  | "planningTime"
+  | "relevance";
+
+/**
+ * Position of a plan in a createdAt listing, carried by pagination cursors
+ */
+export interface PlanCursor {
+  createdAt: string; // ISO timestamp
+  id: string;
+}
+
+/**
+ * Filters selecting plans, shared by listings and bulk deletion
+ */
+export interface PlanFilters {
+  ownerKeyId?: string; // only plans created by this API key
+  q?: string; // full-text search over task description and plan content
+  status?: PlanStatus[]; // any of
+  provider?: string[]; // any of
+  template?: string[]; // any of
+  tags?: string[]; // all of
+  from?: Date; // createdAt >= from
+  to?: Date; // createdAt < to
+  archived?: ArchivedFilter; // default "exclude"
 }
 
 /**
  * Interface for listing parameters
  */
-export interface ListPlansOptions {
-  page: number; // default 1
+export interface ListPlansOptions extends PlanFilters {
+  page: number; // default 1, ignored with a cursor
   limit: number; // default 10, max 100
-  sortBy?: "createdAt";
+  after?: PlanCursor; // plans following this one in the sort order
+  before?: PlanCursor; // plans preceding it; cursors require sortBy createdAt
+  sortBy?: PlanSortKey; // default relevance when searching, else createdAt
   sortOrder?: "asc" | "desc";
 }
 
@@ -40,12 +117,153 @@ export interface ListPlansOptions {
  * Interface for list response
  */
 export interface ListPlansResult {
-  plans: StoredPlan[];
+  plans: PlanSummary[];
   pagination: {
-    page: number;
+    page?: number; // unset when paging by cursor
     limit: number;
     total: number;
     totalPages: number;
+    // Set when sorting by createdAt and more plans follow or precede
+    nextCursor?: string;
+    prevCursor?: string;
   };
 }
 
+/**
+ * Why the content being saved changed, recorded on its revision
+ */
+export interface PlanRevisionNote {
+  reason: PlanRevisionReason;
+  feedback?: string;
+}
+
+/**
+ * Conditions a plan must still meet when it is deleted, checked in the same
+ * step as the delete so a plan changed since it was selected is kept
+ */
+export interface PlanDeleteConditions {
+  status?: PlanStatus[]; // any of
+  unpinned?: boolean; // keep pinned plans
+}
+
+/**
+ * Change to the fields of a plan that are not part of its content
+ */
+export interface PlanMetadataUpdate {
+  archivedAt?: string | null; // null restores an archived plan
+  pinned?: boolean;
+}
+
+/**
+ * Interface implemented by every plan storage backend.
+ * Saving a completed plan also records its content as revision
+ * `planResponse.revision` so earlier revisions are never overwritten.
+ */
+export interface PlanStore {
+  init(): Promise<void>; // prepare directories, files or tables
+  savePlan(
+    planResponse: PlanResponse,
+    status?: PlanStatus,
+    note?: PlanRevisionNote
+  ): Promise<StoredPlan>;
+  getPlanById(id: string): Promise<StoredPlan | null>;
+  listPlans(options: ListPlansOptions): Promise<ListPlansResult>;
+  deletePlan(id: string): Promise<boolean>; // removes the plan and its revisions
+  deletePlansByIds(
+    ids: string[],
+    conditions?: PlanDeleteConditions
+  ): Promise<string[]>; // in one pass; returns the IDs deleted
+  updatePlanMetadata(
+    id: string,
+    update: PlanMetadataUpdate
+  ): Promise<StoredPlan | null>; // leaves content and revisions untouched
+  findPlansByStatus(statuses: PlanStatus[]): Promise<StoredPlan[]>;
+  countPlansByStatus(): Promise<Record<PlanStatus, number>>;
+  findPlansByDateRange(from?: string, to?: string): Promise<StoredPlan[]>; // createdAt in [from, to), oldest first
+  saveRevision(planId: string, revision: PlanRevision): Promise<void>;
+  listRevisions(planId: string): Promise<PlanRevision[]>; // oldest first
+  getRevision(planId: string, revision: number): Promise<PlanRevision | null>;
+  checkHealth(): Promise<StorageHealth>;
+  flush(): Promise<void>; // write out changes still held in memory, before exit
+}
+
+/**
+ * Result of probing a plan store for the readiness check
+ */
+export interface StorageHealth {
+  backend: StorageBackend;
+  location: string; // storage directory or database file
+  writable: boolean;
+  planCount: number; // plans in the index or plans table
+  indexSizeBytes: number; // index.json or database file size
+  error?: string; // why the store is not writable
+}
+
+/**
+ * An API key as stored; the key itself is only kept as a SHA-256 hash
+ */
+export interface ApiKeyRecord {
+  id: string; // UUID
+  name: string;
+  keyHash: string; // hex SHA-256 of the key
+  keyPrefix: string; // first characters of the key, to recognise it in listings
+  role: ApiKeyRole;
+  dailyPlanQuota?: number; // overrides the configured default; 0 = unlimited
+  dailyTokenQuota?: number;
+  createdAt: string; // ISO timestamp
+  revokedAt?: string; // revoked keys are kept so their plans keep an owner
+}
+
+/**
+ * Plans started and tokens spent by an API key on one UTC day
+ */
+export interface ApiKeyUsage {
+  day: string; // YYYY-MM-DD
+  plans: number;
+  tokens: number;
+}
+
+/**
+ * Daily limits of an API key; 0 = unlimited
+ */
+export interface ApiKeyQuotas {
+  dailyPlans: number;
+  dailyTokens: number;
+}
+
+/**
+ * Outcome of counting a plan against an API key's quotas
+ */
+export interface PlanReservation {
+  reserved: boolean; // false when a quota was already reached
+  usage: ApiKeyUsage; // totals after the reservation
+}
+
+/**
+ * Interface implemented by every API key storage backend
+ */
+export interface ApiKeyStore {
+  init(): Promise<void>;
+  saveApiKey(record: ApiKeyRecord): Promise<void>; // insert or replace
+  getApiKeyById(id: string): Promise<ApiKeyRecord | null>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  listApiKeys(): Promise<ApiKeyRecord[]>; // oldest first
+  getUsage(keyId: string, day: string): Promise<ApiKeyUsage>;
+  addUsage(
+    keyId: string,
+    day: string,
+    usage: Partial<Omit<ApiKeyUsage, "day">>
+  ): Promise<ApiKeyUsage>; // returns the new totals
+  // Count one more plan unless a quota is reached, checked and counted in
+  // one atomic step so concurrent requests cannot overshoot it
+  reservePlan(
+    keyId: string,
+    day: string,
+    quotas: ApiKeyQuotas
+  ): Promise<PlanReservation>;
+}
+
+/**
+ * Supported storage backends
+ */
+export type StorageBackend = "file" | "sqlite";
@@ -21,9 +21,12 @@ export interface ValidationError {
 }
 
 export interface PaginationParams {
-  page: number;
+  page?: number; // unset when paging by cursor
   limit: number;
   total?: number;
+  totalPages?: number;
+  nextCursor?: string; // pass as `after` for the following page
+  prevCursor?: string; // pass as `before` for the preceding page
 }
 
 export interface PaginatedResponse<T> extends ApiResponse<T> {
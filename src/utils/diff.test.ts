@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffLines } from "./diff";
+
+describe("diffLines", () => {
+  it("numbers lines on both sides and lists removals before additions", () => {
+    const { lines, stats } = diffLines(
+      "Phase 1\n- Build the form\n- Style it\nPhase 2",
+      "Phase 1\n- Build the form with validation\n- Style it\nPhase 2\n- Test"
+    );
+
+    assert.deepEqual(lines, [
+      { type: "unchanged", content: "Phase 1", oldLine: 1, newLine: 1 },
+      { type: "removed", content: "- Build the form", oldLine: 2 },
+      {
+        type: "added",
+        content: "- Build the form with validation",
+        newLine: 2,
+      },
+      { type: "unchanged", content: "- Style it", oldLine: 3, newLine: 3 },
+      { type: "unchanged", content: "Phase 2", oldLine: 4, newLine: 4 },
+      { type: "added", content: "- Test", newLine: 5 },
+    ]);
+    assert.deepEqual(stats, { added: 2, removed: 1, unchanged: 3 });
+  });
+
+  it("keeps the longest run of common lines when lines move", () => {
+    const { lines } = diffLines("a\nb\nc\nd", "b\nc\nd\na");
+
+    assert.deepEqual(
+      lines.map((line) => `${line.type[0]} ${line.content}`),
+      ["r a", "u b", "u c", "u d", "a a"]
+    );
+  });
+
+  it("reports identical texts as unchanged", () => {
+    const { stats } = diffLines("same\ntext", "same\ntext");
+
+    assert.deepEqual(stats, { added: 0, removed: 0, unchanged: 2 });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * One line of a line-level diff
+ */
+export interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  content: string;
+  oldLine?: number; // 1-based line number in the old text
+  newLine?: number; // 1-based line number in the new text
+}
+
+export interface DiffResult {
+  lines: DiffLine[];
+  stats: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+}
+
+/**
+ * Compute a line-level diff between two texts using the longest common
+ * subsequence of lines. Removals are listed before additions at each change.
+ */
+export const diffLines = (oldText: string, newText: string): DiffResult => {
+  const oldLines = oldText.split("\n");
+  const newLines = newText.split("\n");
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lcs(i, j) = length of the LCS of oldLines[i..] and newLines[j..]
+  const table = new Uint32Array((rows + 1) * (cols + 1));
+  const lcs = (i: number, j: number) => table[i * (cols + 1) + j];
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i * (cols + 1) + j] =
+        oldLines[i] === newLines[j]
+          ? lcs(i + 1, j + 1) + 1
+          : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && oldLines[i] === newLines[j]) {
+      lines.push({
+        type: "unchanged",
+        content: oldLines[i],
+        oldLine: i + 1,
+        newLine: j + 1,
+      });
+      i++;
+      j++;
+    } else if (j >= cols || (i < rows && lcs(i + 1, j) >= lcs(i, j + 1))) {
+      lines.push({ type: "removed", content: oldLines[i], oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ type: "added", content: newLines[j], newLine: j + 1 });
+      j++;
+    }
+  }
+
+  return {
+    lines,
+    stats: {
+      added: lines.filter((line) => line.type === "added").length,
+      removed: lines.filter((line) => line.type === "removed").length,
+      unchanged: lines.filter((line) => line.type === "unchanged").length,
+    },
+  };
+};
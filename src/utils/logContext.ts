@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Fields attached to every log line written while handling a request or job
+ */
+export interface LogContext {
+  requestId?: string;
+  planId?: string;
+}
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run a function with its own log context; async work started inside it
+ * (LLM calls, storage operations) inherits the same context
+ */
+export function runWithLogContext<T>(context: LogContext, run: () => T): T {
+  return storage.run({ ...context }, run);
+}
+
+/**
+ * The current log context, or undefined outside of a request or job
+ */
+export function getLogContext(): LogContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Add fields to the current log context, e.g. the plan ID once it is known
+ */
+export function setLogContext(fields: Partial<LogContext>): void {
+  const context = storage.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+}
@@ -1,4 +1,5 @@
 import config from "../config";
+import { getLogContext } from "./logContext";
 
 type LogLevel = "debug" | "info" | "warn" | "error";
 
@@ -16,6 +17,13 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   error: 3,
 };
 
+const CONSOLE_METHODS: Record<LogLevel, (...args: any[]) => void> = {
+  debug: console.debug,
+  info: console.info,
+  warn: console.warn,
+  error: console.error,
+};
+
 const getTimestamp = (): string => {
   return new Date().toISOString();
 };
@@ -25,34 +33,95 @@ const shouldLog = (level: LogLevel): boolean => {
   return LOG_LEVELS[level] >= LOG_LEVELS[currentLevel];
 };
 
+const formatContext = (): string => {
+  const context = getLogContext();
+  const parts = [];
+  if (context?.requestId) {
+    parts.push(`requestId=${context.requestId}`);
+  }
+  if (context?.planId) {
+    parts.push(`planId=${context.planId}`);
+  }
+  return parts.length > 0 ? ` [${parts.join(" ")}]` : "";
+};
+
 const formatMessage = (level: LogLevel, message: string): string => {
   const timestamp = getTimestamp();
   const levelUpper = level.toUpperCase();
-  return `[${timestamp}] ${levelUpper}: ${message}`;
+  return `[${timestamp}] ${levelUpper}${formatContext()}: ${message}`;
 };
 
-const debug = (message: string, ...args: any[]): void => {
-  if (shouldLog("debug")) {
-    console.debug(formatMessage("debug", message), ...args);
+// Errors have no enumerable fields, so JSON.stringify would write {}
+const serializeErrors = (key: string, value: unknown) =>
+  value instanceof Error
+    ? { name: value.name, message: value.message, stack: value.stack }
+    : value;
+
+/**
+ * One JSON object per line: plain-object arguments are merged in as fields,
+ * errors go under "error" and anything else under "args"
+ */
+const formatJson = (level: LogLevel, message: string, args: any[]): string => {
+  const entry: Record<string, unknown> = {
+    timestamp: getTimestamp(),
+    level,
+    message,
+    ...getLogContext(),
+  };
+  const extra: unknown[] = [];
+
+  for (const arg of args) {
+    if (arg instanceof Error) {
+      entry.error = arg;
+    } else if (arg && typeof arg === "object" && !Array.isArray(arg)) {
+      Object.assign(entry, arg);
+    } else {
+      extra.push(arg);
+    }
+  }
+  if (extra.length > 0) {
+    entry.args = extra;
+  }
+
+  try {
+    return JSON.stringify(entry, serializeErrors);
+  } catch {
+    // Circular fields; keep the line rather than dropping it
+    return JSON.stringify({
+      timestamp: entry.timestamp,
+      level,
+      message,
+      ...getLogContext(),
+    });
   }
 };
 
-const info = (message: string, ...args: any[]): void => {
-  if (shouldLog("info")) {
-    console.info(formatMessage("info", message), ...args);
+const write = (level: LogLevel, message: string, args: any[]): void => {
+  if (!shouldLog(level)) {
+    return;
+  }
+
+  if (config.logFormat === "json") {
+    CONSOLE_METHODS[level](formatJson(level, message, args));
+  } else {
+    CONSOLE_METHODS[level](formatMessage(level, message), ...args);
   }
 };
 
+const debug = (message: string, ...args: any[]): void => {
+  write("debug", message, args);
+};
+
+const info = (message: string, ...args: any[]): void => {
+  write("info", message, args);
+};
+
 const warn = (message: string, ...args: any[]): void => {
-  if (shouldLog("warn")) {
-    console.warn(formatMessage("warn", message), ...args);
-  }
+  write("warn", message, args);
 };
 
 const error = (message: string, ...args: any[]): void => {
-  if (shouldLog("error")) {
-    console.error(formatMessage("error", message), ...args);
-  }
+  write("error", message, args);
 };
 
 const logger: Logger = {
@@ -63,4 +132,3 @@ const logger: Logger = {
 };
 
 export default logger;
-
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TokenBucketRateLimiter } from "./rateLimiter";
+
+describe("TokenBucketRateLimiter", () => {
+  it("allows a burst up to capacity, then asks the client to wait", () => {
+    const limiter = new TokenBucketRateLimiter(2, 6);
+
+    assert.deepEqual(limiter.consume("a", 0), {
+      allowed: true,
+      remaining: 1,
+      retryAfterMs: 0,
+    });
+    assert.equal(limiter.consume("a", 0).remaining, 0);
+    // One token every 10 seconds, 4 seconds of which have passed
+    assert.deepEqual(limiter.consume("a", 4000), {
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 6000,
+    });
+    assert.equal(limiter.consume("a", 10000).allowed, true);
+  });
+
+  it("keeps a separate bucket per client and never refills past capacity", () => {
+    const limiter = new TokenBucketRateLimiter(1, 60);
+
+    assert.equal(limiter.consume("a", 0).allowed, true);
+    assert.equal(limiter.consume("a", 0).allowed, false);
+    assert.equal(limiter.consume("b", 0).allowed, true);
+
+    assert.equal(limiter.consume("a", 3600000).allowed, true);
+    assert.equal(limiter.consume("a", 3600000).allowed, false);
+  });
+});
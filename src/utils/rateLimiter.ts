@@ -0,0 +1,83 @@
+/**
+ * Outcome of taking a token from a client's bucket
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number; // whole tokens left after this request
+  retryAfterMs: number; // time until the next token, 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token-bucket rate limiter keyed by client. Each bucket holds up to
+ * `capacity` tokens and refills continuously at `refillPerMinute`.
+ */
+export class TokenBucketRateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerMinute: number
+  ) {
+    // Full buckets carry no state, so they are dropped periodically
+    setInterval(() => this.prune(), 60000).unref();
+  }
+
+  get limit(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Take one token from the client's bucket if it has one
+   */
+  consume(key: string, now: number = Date.now()): RateLimitResult {
+    const bucket = this.refill(key, now);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return {
+        allowed: true,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterMs: 0,
+      };
+    }
+
+    const msPerToken = 60000 / this.refillPerMinute;
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: Math.ceil((1 - bucket.tokens) * msPerToken),
+    };
+  }
+
+  private refill(key: string, now: number): Bucket {
+    const bucket = this.buckets.get(key) || {
+      tokens: this.capacity,
+      updatedAt: now,
+    };
+
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(
+      this.capacity,
+      bucket.tokens + (elapsed * this.refillPerMinute) / 60000
+    );
+    bucket.updatedAt = now;
+
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  private prune(now: number = Date.now()): void {
+    for (const key of Array.from(this.buckets.keys())) {
+      if (this.refill(key, now).tokens >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export default TokenBucketRateLimiter;
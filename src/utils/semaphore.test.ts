@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Semaphore } from "./semaphore";
+
+describe("Semaphore", () => {
+  it("hands released slots to waiters in arrival order", async () => {
+    const semaphore = new Semaphore(1);
+    const order: string[] = [];
+
+    assert.equal(await semaphore.acquire(), true);
+    assert.equal(semaphore.isFull(), true);
+    const waiting = ["first", "second"].map((name) =>
+      semaphore.acquire().then(() => order.push(name))
+    );
+    assert.deepEqual(semaphore.getStats(), { active: 1, waiting: 2 });
+
+    semaphore.release();
+    await waiting[0];
+    semaphore.release();
+    await waiting[1];
+
+    assert.deepEqual(order, ["first", "second"]);
+    assert.deepEqual(semaphore.getStats(), { active: 1, waiting: 0 });
+  });
+
+  it("gives up after the timeout without taking a later slot", async () => {
+    const semaphore = new Semaphore(1);
+    await semaphore.acquire();
+
+    assert.equal(await semaphore.acquire(20), false);
+    assert.deepEqual(semaphore.getStats(), { active: 1, waiting: 0 });
+
+    semaphore.release();
+    assert.deepEqual(semaphore.getStats(), { active: 0, waiting: 0 });
+  });
+
+  it("never waits when the limit is 0", async () => {
+    const semaphore = new Semaphore(0);
+
+    for (let i = 0; i < 5; i++) {
+      assert.equal(await semaphore.acquire(), true);
+    }
+    assert.equal(semaphore.isFull(), false);
+  });
+});
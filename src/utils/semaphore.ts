@@ -0,0 +1,70 @@
+/**
+ * Counting semaphore with a FIFO wait queue
+ */
+export class Semaphore {
+  private active = 0;
+  private waiters: (() => void)[] = [];
+
+  /**
+   * @param limit - Maximum holders at once; 0 or less means unlimited
+   */
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Wait for a free slot; callers must call release() once done
+   * @param timeoutMs - Give up after this long; 0 waits indefinitely
+   * @returns false if no slot became free within the timeout
+   */
+  async acquire(timeoutMs: number = 0): Promise<boolean> {
+    if (this.limit <= 0 || this.active < this.limit) {
+      this.active++;
+      return true;
+    }
+
+    return new Promise<boolean>((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+
+      const waiter = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        this.active++;
+        resolve(true);
+      };
+
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          this.waiters = this.waiters.filter((queued) => queued !== waiter);
+          resolve(false);
+        }, timeoutMs);
+      }
+
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Whether acquire() would have to wait right now
+   */
+  isFull(): boolean {
+    return this.limit > 0 && this.active >= this.limit;
+  }
+
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    }
+  }
+
+  /**
+   * Holders and callers waiting for a slot
+   */
+  getStats(): { active: number; waiting: number } {
+    return { active: this.active, waiting: this.waiters.length };
+  }
+}
+
+export default Semaphore;
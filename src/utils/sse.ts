@@ -0,0 +1,35 @@
+import { Response } from "express";
+
+/**
+ * Prepare a response for Server-Sent Events and flush the headers
+ */
+export const initSSE = (res: Response): void => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // disable proxy buffering (nginx)
+  res.flushHeaders();
+};
+
+/**
+ * Write a single named SSE event with a JSON payload
+ * @returns false if the connection is already closed
+ */
+export const sendSSEEvent = (
+  res: Response,
+  event: string,
+  data: unknown
+): boolean => {
+  if (res.writableEnded || res.destroyed) {
+    return false;
+  }
+
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  return true;
+};
+
+export default {
+  initSSE,
+  sendSSEEvent,
+};